@@ -0,0 +1,54 @@
+/**
+ * Validation Usage Example
+ *
+ * This example demonstrates how to:
+ * 1. Request validation of an agent from a validator
+ * 2. Respond to a validation request (as the validator)
+ * 3. Track the request until the validator responds
+ */
+
+import { SDK } from '../src/index';
+
+async function main() {
+  // Initialize SDK for the agent owner (requester)
+  const sdk = new SDK({
+    chainId: 11155111, // Ethereum Sepolia
+    rpcUrl: process.env.RPC_URL || 'https://sepolia.infura.io/v3/YOUR_PROJECT_ID',
+    signer: process.env.PRIVATE_KEY, // Agent owner key
+    ipfs: 'pinata', // Required: request files are stored on IPFS
+    pinataJwt: process.env.PINATA_JWT,
+  });
+
+  const agentId = '11155111:123'; // Replace with agent ID
+  const validatorAddress = '0x0000000000000000000000000000000000000001'; // Replace with validator
+
+  // 1. Prepare and submit validation request
+  const requestFile = await sdk.prepareValidationRequest(agentId, validatorAddress, {
+    task: 'Verify inference output for job #42',
+    inputs: { jobId: 42 },
+  });
+
+  console.log('Requesting validation...');
+  const request = await sdk.requestValidation(agentId, validatorAddress, requestFile);
+  console.log(`Request submitted: ${request.requestHash} (${request.requestUri})`);
+
+  // 2. Validator responds (run with the validator's key)
+  const validatorSdk = new SDK({
+    chainId: 11155111,
+    rpcUrl: process.env.RPC_URL || 'https://sepolia.infura.io/v3/YOUR_PROJECT_ID',
+    signer: process.env.VALIDATOR_PRIVATE_KEY,
+    ipfs: 'pinata',
+    pinataJwt: process.env.PINATA_JWT,
+  });
+
+  const responseFile = await validatorSdk.prepareValidationResponse(request.requestHash, 100, {
+    notes: 'Output re-executed and matched',
+  });
+  await validatorSdk.respondToValidation(request.requestHash, 100, responseFile, 'zkml');
+
+  // 3. Track request status
+  const status = await sdk.waitForValidationResponse(request.requestHash, 5 * 60 * 1000);
+  console.log(`Status: ${status.status}, response: ${status.response}, tag: ${status.tag}`);
+}
+
+main().catch(console.error);
@@ -4,16 +4,28 @@
 
 import { ethers } from 'ethers';
 import type {
+  RegistrationDiff,
   RegistrationFile,
   Endpoint,
+  SimulatedCall,
+  TransactionPlan,
 } from '../models/interfaces.js';
 import type { AgentId, Address, URI } from '../models/types.js';
 import { EndpointType, TrustModel } from '../models/enums.js';
 import type { SDK } from './sdk.js';
+import type { ContractCall, TransactionOptions } from './web3-client.js';
 import { EndpointCrawler } from './endpoint-crawler.js';
 import { parseAgentId } from '../utils/id-format.js';
-import { TIMEOUTS } from '../utils/constants.js';
+import { TIMEOUTS, DEFAULTS } from '../utils/constants.js';
+import { METADATA_KEYS, decodeMetadataValue, encodeMetadataValue, formatCaip10Account } from '../utils/metadata.js';
+import { diffJson } from '../utils/json-diff.js';
 import { validateSkill, validateDomain } from './oasf-validator.js';
+import { encodeRegistrationFile } from './registration-codec.js';
+import { formatRegistrationIssues, validateRegistrationFile } from './registration-schema.js';
+import type { RegistrationValidationResult } from './registration-schema.js';
+import { lintRegistrationFile } from './registration-linter.js';
+import type { LintIssue, LintOptions } from './registration-linter.js';
+import { InvalidRegistrationFileError, SignerRequiredError } from './errors.js';
 
 /**
  * Agent class for managing individual agents
@@ -22,12 +34,16 @@ export class Agent {
   private registrationFile: RegistrationFile;
   private _endpointCrawler: EndpointCrawler;
   private _dirtyMetadata = new Set<string>();
+  // Custom metadata keys kept on-chain: read from the registry or set through setMetadata.
+  // Other keys in registrationFile.metadata were only in the file and are not written on-chain
+  private _onChainMetadataKeys: Set<string>;
   private _lastRegisteredWallet?: Address;
   private _lastRegisteredEns?: string;
 
-  constructor(private sdk: SDK, registrationFile: RegistrationFile) {
+  constructor(private sdk: SDK, registrationFile: RegistrationFile, onChainMetadataKeys: Iterable<string> = []) {
     this.registrationFile = registrationFile;
     this._endpointCrawler = new EndpointCrawler(5000);
+    this._onChainMetadataKeys = new Set(onChainMetadataKeys);
   }
 
   // Read-only properties
@@ -163,7 +179,7 @@ export class Agent {
 
     // Check if ENS changed
     if (name !== this._lastRegisteredEns) {
-      this._dirtyMetadata.add('agentName');
+      this._dirtyMetadata.add(METADATA_KEYS.AGENT_NAME);
     }
 
     // Add new ENS endpoint
@@ -328,7 +344,7 @@ export class Agent {
 
     // Check if wallet changed
     if (address !== this._lastRegisteredWallet) {
-      this._dirtyMetadata.add('agentWallet');
+      this._dirtyMetadata.add(METADATA_KEYS.AGENT_WALLET);
     }
 
     this.registrationFile.updatedAt = Math.floor(Date.now() / 1000);
@@ -366,6 +382,7 @@ export class Agent {
     // Mark all provided keys as dirty
     for (const key of Object.keys(kv)) {
       this._dirtyMetadata.add(key);
+      this._onChainMetadataKeys.add(key);
     }
 
     Object.assign(this.registrationFile.metadata, kv);
@@ -408,55 +425,118 @@ export class Agent {
     return this;
   }
 
+  /**
+   * Validate the registration file as it would be published (see validateRegistrationFile)
+   */
+  async validate(): Promise<RegistrationValidationResult> {
+    const chainId = await this.sdk.chainId();
+    const identityRegistryAddress = await this.sdk.getIdentityRegistry().getAddress();
+    return validateRegistrationFile(encodeRegistrationFile(this.registrationFile, chainId, identityRegistryAddress));
+  }
+
+  /**
+   * Check the registration file against best-practice rules (see lintRegistrationFile)
+   * Validations on record are looked up through the subgraph
+   */
+  async lint(options: LintOptions = {}): Promise<LintIssue[]> {
+    const chainId = await this.sdk.chainId();
+    const identityRegistryAddress = await this.sdk.getIdentityRegistry().getAddress();
+    return lintRegistrationFile(encodeRegistrationFile(this.registrationFile, chainId, identityRegistryAddress), {
+      agentId: this.registrationFile.agentId,
+      identityRegistry: identityRegistryAddress,
+      hasValidation: async (agentId) =>
+        (await this.sdk.searchValidations({ agents: [agentId], status: 'responded' }, 1)).items.length > 0,
+      ...options,
+    });
+  }
+
+  /**
+   * Compare the local registration with what is published: the file at agentURI and the on-chain
+   * metadata keys registration writes (agentWallet, and custom metadata read from the registry or
+   * set through setMetadata)
+   * updatedAt is left out, since registerIPFS sets it right before each upload
+   */
+  async diff(): Promise<RegistrationDiff> {
+    const chainId = await this.sdk.chainId();
+    const identityRegistryAddress = await this.sdk.getIdentityRegistry().getAddress();
+    const agentURI = this.registrationFile.agentURI;
+    const published = agentURI ? await this.sdk.fetchRegistrationJson(agentURI) : {};
+    const local = encodeRegistrationFile(this.registrationFile, chainId, identityRegistryAddress);
+
+    // On-chain values are decoded, so decode the local ones the same way before comparing
+    const entries = this._collectMetadataForRegistration();
+    const localMetadata = Object.fromEntries(
+      entries.map((entry) => [entry.key, decodeMetadataValue(entry.key, entry.value)])
+    );
+    const onChainMetadata =
+      this.registrationFile.agentId && entries.length > 0
+        ? await this.sdk.getOnChainMetadata(this.registrationFile.agentId, entries.map((entry) => entry.key))
+        : {};
+
+    return {
+      agentURI,
+      // updatedAt is stamped on every publish, so on its own it is not a change
+      file: diffJson(published, local).filter((change) => change.path !== '/updatedAt'),
+      metadata: diffJson(onChainMetadata, localMetadata),
+    };
+  }
+
+  /**
+   * Whether registerIPFS would publish anything (see diff)
+   */
+  async hasChanges(): Promise<boolean> {
+    const changes = await this.diff();
+    return changes.file.length > 0 || changes.metadata.length > 0;
+  }
+
   /**
    * Register agent on-chain with IPFS flow
+   * May send several transactions; an explicit nonce in options is advanced after each one is sent
+   * Updates skip the upload and setAgentUri when the published IPFS file is unchanged
    */
-  async registerIPFS(): Promise<RegistrationFile> {
+  async registerIPFS(options: TransactionOptions = {}): Promise<RegistrationFile> {
+    const withTxOptions = this._txOptionsSequence(options);
+
     // Validate basic info
     if (!this.registrationFile.name || !this.registrationFile.description) {
-      throw new Error('Agent must have name and description before registration');
+      throw new InvalidRegistrationFileError('Agent must have name and description before registration');
     }
+    await this._assertValidRegistrationFile();
 
     if (this.registrationFile.agentId) {
       // Agent already registered - update registration file and redeploy
       // Option 2D: Add logging and timeout handling
+      const changes = await this._unpublishedIpfsChanges();
+      if (changes && changes.file.length === 0) {
+        // Same file as published: only write metadata that differs on-chain (usually nothing)
+        const changedKeys = changes.metadata.map((change) =>
+          change.path.split('/')[1].replace(/~1/g, '/').replace(/~0/g, '~')
+        );
+        await this._updateOnChain(undefined, options, new Set(changedKeys));
+
+        // Clear dirty flags
+        this._lastRegisteredWallet = this.walletAddress;
+        this._lastRegisteredEns = this.ensEndpoint;
+        this._dirtyMetadata.clear();
+        return this.registrationFile;
+      }
+
       const chainId = await this.sdk.chainId();
       const identityRegistryAddress = await this.sdk.getIdentityRegistry().getAddress();
-      
+
+      // Link the new file to the one it replaces, so the history survives without event logs
+      if (this.registrationFile.agentURI) {
+        this.registrationFile.previousVersion = this.registrationFile.agentURI;
+      }
+      this.registrationFile.updatedAt = Math.floor(Date.now() / 1000);
       const ipfsCid = await this.sdk.ipfsClient!.addRegistrationFile(
         this.registrationFile,
         chainId,
         identityRegistryAddress
       );
 
-      // Update metadata on-chain if changed
-      // Only send transactions for dirty (changed) metadata to save gas
-      if (this._dirtyMetadata.size > 0) {
-        try {
-          await this._updateMetadataOnChain();
-        } catch (error) {
-          // Transaction was sent and will eventually confirm - continue silently
-        }
-      }
-
-      // Update agent URI on-chain
-      const { tokenId } = parseAgentId(this.registrationFile.agentId);
-      
-      const txHash = await this.sdk.web3Client.transactContract(
-        this.sdk.getIdentityRegistry(),
-        'setAgentUri',
-        {},
-        BigInt(tokenId),
-        `ipfs://${ipfsCid}`
-      );
-      
-      // Wait for transaction to be confirmed (30 second timeout like Python)
-      // If timeout, continue - transaction was sent and will eventually confirm
-      try {
-        await this.sdk.web3Client.waitForTransaction(txHash, TIMEOUTS.TRANSACTION_WAIT);
-      } catch (error) {
-        // Transaction was sent and will eventually confirm - continue silently
-      }
+      // Update changed metadata and the agent URI on-chain, batched where the wallet or registry allows
+      await this._updateOnChain(`ipfs://${ipfsCid}`, options);
 
       // Clear dirty flags
       this._lastRegisteredWallet = this.walletAddress;
@@ -468,11 +548,12 @@ export class Agent {
     } else {
       // First time registration
       // Step 1: Register on-chain without URI
-      await this._registerWithoutUri();
+      await withTxOptions((txOptions) => this._registerWithoutUri(txOptions));
 
       // Step 2: Upload to IPFS
       const chainId = await this.sdk.chainId();
       const identityRegistryAddress = await this.sdk.getIdentityRegistry().getAddress();
+      this.registrationFile.updatedAt = Math.floor(Date.now() / 1000);
       const ipfsCid = await this.sdk.ipfsClient!.addRegistrationFile(
         this.registrationFile,
         chainId,
@@ -481,12 +562,14 @@ export class Agent {
 
       // Step 3: Set agent URI on-chain
       const { tokenId } = parseAgentId(this.registrationFile.agentId!);
-      const txHash = await this.sdk.web3Client.transactContract(
-        this.sdk.getIdentityRegistry(),
-        'setAgentUri',
-        {},
-        BigInt(tokenId),
-        `ipfs://${ipfsCid}`
+      const txHash = await withTxOptions((txOptions) =>
+        this.sdk.web3Client.transactContract(
+          this.sdk.getIdentityRegistry(),
+          'setAgentUri',
+          txOptions,
+          BigInt(tokenId),
+          `ipfs://${ipfsCid}`
+        )
       );
       
       // Wait for transaction to be confirmed
@@ -505,26 +588,27 @@ export class Agent {
   /**
    * Register agent on-chain with HTTP URI
    */
-  async registerHTTP(agentUri: string): Promise<RegistrationFile> {
+  async registerHTTP(agentUri: string, options: TransactionOptions = {}): Promise<RegistrationFile> {
     // Validate basic info
     if (!this.registrationFile.name || !this.registrationFile.description) {
-      throw new Error('Agent must have name and description before registration');
+      throw new InvalidRegistrationFileError('Agent must have name and description before registration');
     }
+    await this._assertValidRegistrationFile();
 
     if (this.registrationFile.agentId) {
       // Agent already registered - update agent URI
-      await this.setAgentUri(agentUri);
+      await this.setAgentUri(agentUri, options);
       return this.registrationFile;
     } else {
       // First time registration
-      return await this._registerWithUri(agentUri);
+      return await this._registerWithUri(agentUri, options);
     }
   }
 
   /**
    * Set agent URI (for updates)
    */
-  async setAgentUri(agentUri: string): Promise<void> {
+  async setAgentUri(agentUri: string, options: TransactionOptions = {}): Promise<void> {
     if (!this.registrationFile.agentId) {
       throw new Error('Agent must be registered before setting URI');
     }
@@ -533,7 +617,7 @@ export class Agent {
     await this.sdk.web3Client.transactContract(
       this.sdk.getIdentityRegistry(),
       'setAgentUri',
-      {},
+      options,
       BigInt(tokenId),
       agentUri
     );
@@ -543,43 +627,66 @@ export class Agent {
   }
 
   /**
-   * Transfer agent ownership
+   * Point the agent back at an earlier registration file (see SDK.getRegistrationHistory)
+   * Takes a version number or a URI from the history; the file must still be retrievable
+   * On-chain state is not rolled back: owners, operators, the wallet and custom metadata are kept
    */
-  async transfer(newOwner: Address): Promise<{ txHash: string; from: Address; to: Address; agentId: AgentId }> {
-    if (!this.registrationFile.agentId) {
-      throw new Error('Agent must be registered before transfer');
+  async rollbackTo(versionOrUri: number | URI, options: TransactionOptions = {}): Promise<RegistrationFile> {
+    const agentId = this.registrationFile.agentId;
+    if (!agentId) {
+      throw new Error('Agent must be registered before rollback');
     }
 
-    const { tokenId } = parseAgentId(this.registrationFile.agentId);
-    const currentOwner = this.sdk.web3Client.address;
-    if (!currentOwner) {
-      throw new Error('No signer available');
+    const history = await this.sdk.getRegistrationHistory(agentId);
+    const target =
+      typeof versionOrUri === 'number'
+        ? history.find((entry) => entry.version === versionOrUri)
+        : [...history].reverse().find((entry) => entry.agentURI === versionOrUri);
+    if (!target) {
+      const label = typeof versionOrUri === 'number' ? `Version ${versionOrUri}` : versionOrUri;
+      throw new Error(`${label} is not in the registration history of agent ${agentId}`);
     }
-
-    // Validate address - normalize to lowercase first
-    const normalizedAddress = newOwner.toLowerCase();
-    if (!this.sdk.web3Client.isAddress(normalizedAddress)) {
-      throw new Error(`Invalid address: ${newOwner}`);
+    if (!target.registrationFile) {
+      throw new Error(`Cannot roll back to ${target.agentURI}: ${target.error}`);
     }
 
-    // Validate not zero address (check before expensive operations)
-    if (normalizedAddress === '0x0000000000000000000000000000000000000000') {
-      throw new Error('Cannot transfer agent to zero address');
+    if (history[history.length - 1].agentURI !== target.agentURI) {
+      await this.setAgentUri(target.agentURI, options);
     }
 
-    // Convert to checksum format
-    const checksumAddress = this.sdk.web3Client.toChecksumAddress(normalizedAddress);
+    this.registrationFile = {
+      ...target.registrationFile,
+      agentId,
+      agentURI: target.agentURI,
+      owners: this.registrationFile.owners,
+      operators: this.registrationFile.operators,
+      walletAddress: this.registrationFile.walletAddress,
+      walletChainId: this.registrationFile.walletChainId,
+      metadata: this.registrationFile.metadata,
+      updatedAt: Math.floor(Date.now() / 1000),
+    };
+    return this.registrationFile;
+  }
 
-    // Validate not transferring to self
-    if (checksumAddress.toLowerCase() === currentOwner.toLowerCase()) {
-      throw new Error('Cannot transfer agent to yourself');
+  /**
+   * Transfer agent ownership
+   */
+  async transfer(
+    newOwner: Address,
+    options: TransactionOptions = {}
+  ): Promise<{ txHash: string; from: Address; to: Address; agentId: AgentId }> {
+    if (!this.registrationFile.agentId) {
+      throw new Error('Agent must be registered before transfer');
     }
 
+    const { tokenId } = parseAgentId(this.registrationFile.agentId);
+    const { currentOwner, checksumAddress } = this._resolveTransfer(newOwner);
+
     const identityRegistry = this.sdk.getIdentityRegistry();
     const txHash = await this.sdk.web3Client.transactContract(
       identityRegistry,
       'transferFrom',
-      {},
+      options,
       currentOwner,
       checksumAddress,
       BigInt(tokenId)
@@ -593,10 +700,143 @@ export class Agent {
     };
   }
 
+  /**
+   * Dry run of registerIPFS: simulate every transaction it would send, without uploading or broadcasting
+   * On first registration, setAgentUri targets the not-yet-minted agent and is only encoded
+   */
+  async simulateRegisterIPFS(options: TransactionOptions = {}): Promise<TransactionPlan> {
+    const withTxOptions = this._txOptionsSequence(options);
+
+    // Validate basic info
+    if (!this.registrationFile.name || !this.registrationFile.description) {
+      throw new InvalidRegistrationFileError('Agent must have name and description before registration');
+    }
+
+    const web3Client = this.sdk.web3Client;
+    const identityRegistry = this.sdk.getIdentityRegistry();
+    const calls: SimulatedCall[] = [];
+
+    if (this.registrationFile.agentId) {
+      // Update flow: one setMetadata per dirty key, then setAgentUri
+      const { tokenId } = parseAgentId(this.registrationFile.agentId);
+      for (const entry of this._collectMetadataForRegistration()) {
+        if (this._dirtyMetadata.has(entry.key)) {
+          calls.push(
+            await withTxOptions((txOptions) =>
+              web3Client.simulateContract(
+                identityRegistry,
+                'setMetadata',
+                txOptions,
+                BigInt(tokenId),
+                entry.key,
+                entry.value
+              )
+            )
+          );
+        }
+      }
+      calls.push(
+        await withTxOptions((txOptions) =>
+          web3Client.simulateContract(
+            identityRegistry,
+            'setAgentUri',
+            txOptions,
+            BigInt(tokenId),
+            DEFAULTS.DRY_RUN_URI
+          )
+        )
+      );
+    } else {
+      // First registration: register (with metadata), then setAgentUri on the minted agent
+      const metadataEntries = this._collectMetadataForRegistration();
+      const registerCall = await withTxOptions((txOptions) =>
+        metadataEntries.length > 0
+          ? web3Client.simulateContract(identityRegistry, 'register', txOptions, '', metadataEntries)
+          : web3Client.simulateContract(identityRegistry, 'register', txOptions)
+      );
+      calls.push(registerCall);
+
+      const predictedTokenId = registerCall.status === 'success' ? BigInt(registerCall.result as bigint) : 0n;
+      calls.push({
+        ...web3Client.describeContractCall(identityRegistry, 'setAgentUri', predictedTokenId, DEFAULTS.DRY_RUN_URI),
+        note:
+          registerCall.status === 'success'
+            ? `Depends on register() minting agent ${predictedTokenId}; not simulated`
+            : 'Depends on register(), which reverted; not simulated',
+      });
+    }
+
+    return web3Client.toTransactionPlan(calls);
+  }
+
+  /**
+   * Dry run of registerHTTP
+   */
+  async simulateRegisterHTTP(agentUri: string, options: TransactionOptions = {}): Promise<TransactionPlan> {
+    // Validate basic info
+    if (!this.registrationFile.name || !this.registrationFile.description) {
+      throw new InvalidRegistrationFileError('Agent must have name and description before registration');
+    }
+
+    if (this.registrationFile.agentId) {
+      return this.simulateSetAgentUri(agentUri, options);
+    }
+
+    const call = await this.sdk.web3Client.simulateContract(
+      this.sdk.getIdentityRegistry(),
+      'register',
+      options,
+      agentUri,
+      this._collectMetadataForRegistration()
+    );
+    return this.sdk.web3Client.toTransactionPlan([call]);
+  }
+
+  /**
+   * Dry run of setAgentUri
+   */
+  async simulateSetAgentUri(agentUri: string, options: TransactionOptions = {}): Promise<TransactionPlan> {
+    if (!this.registrationFile.agentId) {
+      throw new Error('Agent must be registered before setting URI');
+    }
+
+    const { tokenId } = parseAgentId(this.registrationFile.agentId);
+    const call = await this.sdk.web3Client.simulateContract(
+      this.sdk.getIdentityRegistry(),
+      'setAgentUri',
+      options,
+      BigInt(tokenId),
+      agentUri
+    );
+    return this.sdk.web3Client.toTransactionPlan([call]);
+  }
+
+  /**
+   * Dry run of transfer
+   */
+  async simulateTransfer(newOwner: Address, options: TransactionOptions = {}): Promise<TransactionPlan> {
+    if (!this.registrationFile.agentId) {
+      throw new Error('Agent must be registered before transfer');
+    }
+
+    const { tokenId } = parseAgentId(this.registrationFile.agentId);
+    const { currentOwner, checksumAddress } = this._resolveTransfer(newOwner);
+
+    const call = await this.sdk.web3Client.simulateContract(
+      this.sdk.getIdentityRegistry(),
+      'transferFrom',
+      options,
+      currentOwner,
+      checksumAddress,
+      BigInt(tokenId)
+    );
+    return this.sdk.web3Client.toTransactionPlan([call]);
+  }
+
   /**
    * Private helper methods
    */
-  private async _registerWithoutUri(): Promise<void> {
+  private async _registerWithoutUri(options: TransactionOptions = {}): Promise<void> {
     // Collect metadata for registration
     const metadataEntries = this._collectMetadataForRegistration();
 
@@ -610,7 +850,7 @@ export class Agent {
       txHash = await this.sdk.web3Client.transactContract(
         identityRegistry,
         'register',
-        {}, // Transaction options
+        options,
         '', // Empty tokenUri
         metadataEntries
       );
@@ -618,7 +858,7 @@ export class Agent {
       txHash = await this.sdk.web3Client.transactContract(
         identityRegistry,
         'register',
-        {} // Transaction options
+        options
         // No arguments - calls register()
       );
     }
@@ -635,7 +875,7 @@ export class Agent {
     this.registrationFile.updatedAt = Math.floor(Date.now() / 1000);
   }
 
-  private async _registerWithUri(agentUri: string): Promise<RegistrationFile> {
+  private async _registerWithUri(agentUri: string, options: TransactionOptions = {}): Promise<RegistrationFile> {
     // Collect metadata for registration
     const metadataEntries = this._collectMetadataForRegistration();
 
@@ -644,7 +884,7 @@ export class Agent {
     const txHash = await this.sdk.web3Client.transactContract(
       identityRegistry,
       'register',
-      {},
+      options,
       agentUri,
       metadataEntries
     );
@@ -664,59 +904,136 @@ export class Agent {
     return this.registrationFile;
   }
 
-  private async _updateMetadataOnChain(): Promise<void> {
-    const metadataEntries = this._collectMetadataForRegistration();
+  /**
+   * Send setMetadata for each dirty key plus setAgentUri as one batch (see Web3Client.sendCalls)
+   * Without batching support they are sent back-to-back and only awaited together at the end
+   */
+  private async _updateOnChain(
+    agentUri: string | undefined,
+    options: TransactionOptions = {},
+    metadataKeys: Set<string> = this._dirtyMetadata
+  ): Promise<void> {
     const { tokenId } = parseAgentId(this.registrationFile.agentId!);
     const identityRegistry = this.sdk.getIdentityRegistry();
 
-    // Update metadata one by one (like Python SDK)
-    // Only send transactions for dirty (changed) metadata keys
-    for (const entry of metadataEntries) {
-      if (this._dirtyMetadata.has(entry.key)) {
-        const txHash = await this.sdk.web3Client.transactContract(
-          identityRegistry,
-          'setMetadata',
-          {},
-          BigInt(tokenId),
-          entry.key,
-          entry.value
-        );
+    // Only send dirty (changed) metadata keys to save gas
+    const calls: ContractCall[] = this._collectMetadataForRegistration()
+      .filter((entry) => metadataKeys.has(entry.key))
+      .map((entry) => ({
+        contract: identityRegistry,
+        methodName: 'setMetadata',
+        args: [BigInt(tokenId), entry.key, entry.value],
+      }));
+    if (agentUri !== undefined) {
+      calls.push({ contract: identityRegistry, methodName: 'setAgentUri', args: [BigInt(tokenId), agentUri] });
+    }
+    if (calls.length === 0) {
+      return;
+    }
 
-        // Wait with 30 second timeout (like Python SDK)
-        // If timeout, log warning but continue - transaction was sent and will eventually confirm
-        try {
-          await this.sdk.web3Client.waitForTransaction(txHash, TIMEOUTS.TRANSACTION_WAIT);
-        } catch (error) {
-          // Transaction was sent and will eventually confirm - continue silently
-        }
-      }
+    const batch = await this.sdk.web3Client.sendCalls(calls, options);
+
+    // Wait with 30 second timeout (like Python SDK)
+    // If timeout, continue - transactions were sent and will eventually confirm
+    try {
+      await this.sdk.web3Client.waitForCalls(batch, TIMEOUTS.TRANSACTION_WAIT);
+    } catch (error) {
+      // Transactions were sent and will eventually confirm - continue silently
     }
   }
 
+  /**
+   * diff() against the published file when it is on IPFS; undefined when it cannot be compared
+   * (not yet on IPFS, or the file could not be fetched), in which case registerIPFS republishes
+   */
+  private async _unpublishedIpfsChanges(): Promise<RegistrationDiff | undefined> {
+    if (!this.registrationFile.agentURI?.startsWith('ipfs://')) {
+      return undefined;
+    }
+    try {
+      return await this.diff();
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Refuse to publish a registration file with schema errors (warnings are allowed)
+   */
+  private async _assertValidRegistrationFile(): Promise<void> {
+    const validation = await this.validate();
+    if (!validation.valid) {
+      throw new InvalidRegistrationFileError(
+        `Registration file does not match the registration-v1 schema:\n${formatRegistrationIssues(validation.errors)}`,
+        { issues: validation.errors }
+      );
+    }
+  }
+
+  /**
+   * Build per-transaction options for multi-transaction flows
+   * Each send gets the caller's options; an explicit nonce is advanced by one only after a send succeeds
+   */
+  private _txOptionsSequence(
+    options: TransactionOptions
+  ): <T>(send: (txOptions: TransactionOptions) => Promise<T>) => Promise<T> {
+    let sent = 0;
+    return async (send) => {
+      const txOptions = options.nonce !== undefined ? { ...options, nonce: options.nonce + sent } : { ...options };
+      const result = await send(txOptions);
+      sent++;
+      return result;
+    };
+  }
+
+  /**
+   * Validate a transfer target and return the current owner and checksummed new owner
+   */
+  private _resolveTransfer(newOwner: Address): { currentOwner: Address; checksumAddress: Address } {
+    const currentOwner = this.sdk.web3Client.address;
+    if (!currentOwner) {
+      throw new SignerRequiredError('No signer available');
+    }
+
+    // Validate address - normalize to lowercase first
+    const normalizedAddress = newOwner.toLowerCase();
+    if (!this.sdk.web3Client.isAddress(normalizedAddress)) {
+      throw new Error(`Invalid address: ${newOwner}`);
+    }
+
+    // Validate not zero address (check before expensive operations)
+    if (normalizedAddress === '0x0000000000000000000000000000000000000000') {
+      throw new Error('Cannot transfer agent to zero address');
+    }
+
+    // Convert to checksum format
+    const checksumAddress = this.sdk.web3Client.toChecksumAddress(normalizedAddress);
+
+    // Validate not transferring to self
+    if (checksumAddress.toLowerCase() === currentOwner.toLowerCase()) {
+      throw new Error('Cannot transfer agent to yourself');
+    }
+
+    return { currentOwner, checksumAddress };
+  }
+
   private _collectMetadataForRegistration(): Array<{ key: string; value: Uint8Array }> {
     const entries: Array<{ key: string; value: Uint8Array }> = [];
 
     // Collect wallet address if set
     if (this.registrationFile.walletAddress && this.registrationFile.walletChainId) {
-      const walletValue = `eip155:${this.registrationFile.walletChainId}:${this.registrationFile.walletAddress}`;
+      const walletValue = formatCaip10Account(this.registrationFile.walletChainId, this.registrationFile.walletAddress);
       entries.push({
-        key: 'agentWallet',
-        value: new TextEncoder().encode(walletValue),
+        key: METADATA_KEYS.AGENT_WALLET,
+        value: encodeMetadataValue(walletValue),
       });
     }
 
-    // Collect custom metadata
+    // Collect custom metadata, leaving out keys that were only in the registration file
     for (const [key, value] of Object.entries(this.registrationFile.metadata)) {
-      let valueBytes: Uint8Array;
-      if (typeof value === 'string') {
-        valueBytes = new TextEncoder().encode(value);
-      } else if (typeof value === 'number') {
-        valueBytes = new TextEncoder().encode(value.toString());
-      } else {
-        valueBytes = new TextEncoder().encode(JSON.stringify(value));
+      if (this._onChainMetadataKeys.has(key)) {
+        entries.push({ key, value: encodeMetadataValue(value) });
       }
-
-      entries.push({ key, value: valueBytes });
     }
 
     return entries;
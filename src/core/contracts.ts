@@ -63,6 +63,57 @@ export const ERC721_ABI = [
   },
 ] as const;
 
+// ERC-721 custom errors (OpenZeppelin v5 / ERC-6093), used to decode reverts
+export const ERC721_ERRORS_ABI = [
+  {
+    inputs: [
+      { internalType: 'address', name: 'sender', type: 'address' },
+      { internalType: 'uint256', name: 'tokenId', type: 'uint256' },
+      { internalType: 'address', name: 'owner', type: 'address' },
+    ],
+    name: 'ERC721IncorrectOwner',
+    type: 'error',
+  },
+  {
+    inputs: [
+      { internalType: 'address', name: 'operator', type: 'address' },
+      { internalType: 'uint256', name: 'tokenId', type: 'uint256' },
+    ],
+    name: 'ERC721InsufficientApproval',
+    type: 'error',
+  },
+  {
+    inputs: [{ internalType: 'address', name: 'approver', type: 'address' }],
+    name: 'ERC721InvalidApprover',
+    type: 'error',
+  },
+  {
+    inputs: [{ internalType: 'address', name: 'operator', type: 'address' }],
+    name: 'ERC721InvalidOperator',
+    type: 'error',
+  },
+  {
+    inputs: [{ internalType: 'address', name: 'owner', type: 'address' }],
+    name: 'ERC721InvalidOwner',
+    type: 'error',
+  },
+  {
+    inputs: [{ internalType: 'address', name: 'receiver', type: 'address' }],
+    name: 'ERC721InvalidReceiver',
+    type: 'error',
+  },
+  {
+    inputs: [{ internalType: 'address', name: 'sender', type: 'address' }],
+    name: 'ERC721InvalidSender',
+    type: 'error',
+  },
+  {
+    inputs: [{ internalType: 'uint256', name: 'tokenId', type: 'uint256' }],
+    name: 'ERC721NonexistentToken',
+    type: 'error',
+  },
+] as const;
+
 // ERC-721 URI Storage ABI
 export const ERC721_URI_STORAGE_ABI = [
   {
@@ -87,6 +138,7 @@ export const ERC721_URI_STORAGE_ABI = [
 // Identity Registry ABI
 export const IDENTITY_REGISTRY_ABI = [
   ...ERC721_ABI,
+  ...ERC721_ERRORS_ABI,
   ...ERC721_URI_STORAGE_ABI,
   {
     inputs: [],
@@ -161,6 +213,16 @@ export const IDENTITY_REGISTRY_ABI = [
     name: 'Registered',
     type: 'event',
   },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'agentId', type: 'uint256' },
+      { indexed: false, internalType: 'string', name: 'newUri', type: 'string' },
+      { indexed: true, internalType: 'address', name: 'updatedBy', type: 'address' },
+    ],
+    name: 'UriUpdated',
+    type: 'event',
+  },
   {
     anonymous: false,
     inputs: [
@@ -322,6 +384,42 @@ export const VALIDATION_REGISTRY_ABI = [
     stateMutability: 'nonpayable',
     type: 'function',
   },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'address', name: 'validatorAddress', type: 'address' },
+      { indexed: true, internalType: 'uint256', name: 'agentId', type: 'uint256' },
+      { indexed: false, internalType: 'string', name: 'requestUri', type: 'string' },
+      { indexed: true, internalType: 'bytes32', name: 'requestHash', type: 'bytes32' },
+    ],
+    name: 'ValidationRequest',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'address', name: 'validatorAddress', type: 'address' },
+      { indexed: true, internalType: 'uint256', name: 'agentId', type: 'uint256' },
+      { indexed: true, internalType: 'bytes32', name: 'requestHash', type: 'bytes32' },
+      { indexed: false, internalType: 'uint8', name: 'response', type: 'uint8' },
+      { indexed: false, internalType: 'string', name: 'responseUri', type: 'string' },
+      { indexed: false, internalType: 'bytes32', name: 'responseHash', type: 'bytes32' },
+      { indexed: false, internalType: 'bytes32', name: 'tag', type: 'bytes32' },
+    ],
+    name: 'ValidationResponse',
+    type: 'event',
+  },
+] as const;
+
+// Self-multicall (OpenZeppelin Multicall): delegatecalls each entry, so msg.sender stays the caller
+export const MULTICALL_ABI = [
+  {
+    inputs: [{ internalType: 'bytes[]', name: 'data', type: 'bytes[]' }],
+    name: 'multicall',
+    outputs: [{ internalType: 'bytes[]', name: 'results', type: 'bytes[]' }],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
 ] as const;
 
 /**
@@ -0,0 +1,275 @@
+/**
+ * Typed errors for Agent0 SDK
+ */
+
+import type { Contract } from 'ethers';
+import type { RegistrationValidationIssue } from './registration-schema.js';
+
+/**
+ * Stable error codes callers can branch on
+ */
+export enum Agent0ErrorCode {
+  UNKNOWN = 'UNKNOWN',
+  SIGNER_REQUIRED = 'SIGNER_REQUIRED',
+  CONTRACT_REVERT = 'CONTRACT_REVERT',
+  NOT_OWNER = 'NOT_OWNER',
+  AGENT_NOT_FOUND = 'AGENT_NOT_FOUND',
+  FEEDBACK_AUTH_EXPIRED = 'FEEDBACK_AUTH_EXPIRED',
+  FEEDBACK_AUTH_INVALID = 'FEEDBACK_AUTH_INVALID',
+  SUBGRAPH_UNAVAILABLE = 'SUBGRAPH_UNAVAILABLE',
+  RPC_UNAVAILABLE = 'RPC_UNAVAILABLE',
+  TRANSACTION_DROPPED = 'TRANSACTION_DROPPED',
+  TRANSACTION_TIMEOUT = 'TRANSACTION_TIMEOUT',
+  IPFS_UPLOAD_FAILED = 'IPFS_UPLOAD_FAILED',
+  INVALID_REGISTRATION_FILE = 'INVALID_REGISTRATION_FILE',
+}
+
+/**
+ * Revert data decoded against the registry ABIs
+ * name is 'Error' for require(..., "reason") and 'Panic' for assertion failures
+ */
+export interface DecodedRevert {
+  name: string;
+  args: unknown[];
+  signature?: string;
+  data?: string;
+}
+
+export interface Agent0ErrorOptions {
+  code?: Agent0ErrorCode;
+  cause?: unknown;
+  revert?: DecodedRevert;
+}
+
+/**
+ * Base class for all SDK errors
+ */
+export class Agent0Error extends Error {
+  readonly code: Agent0ErrorCode;
+  readonly cause?: unknown;
+  readonly revert?: DecodedRevert;
+
+  constructor(message: string, options: Agent0ErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.code = options.code ?? Agent0ErrorCode.UNKNOWN;
+    this.cause = options.cause;
+    this.revert = options.revert;
+  }
+
+  /**
+   * Revert reason string (require message or custom error name), if the failure was a revert
+   */
+  get revertReason(): string | undefined {
+    return this.revert ? formatRevert(this.revert) : undefined;
+  }
+}
+
+export class SignerRequiredError extends Agent0Error {
+  constructor(message: string, options: Agent0ErrorOptions = {}) {
+    super(message, { code: Agent0ErrorCode.SIGNER_REQUIRED, ...options });
+  }
+}
+
+/**
+ * Contract call reverted with a reason that has no more specific error class
+ */
+export class ContractRevertError extends Agent0Error {
+  constructor(message: string, options: Agent0ErrorOptions = {}) {
+    super(message, { code: Agent0ErrorCode.CONTRACT_REVERT, ...options });
+  }
+}
+
+export class NotOwnerError extends Agent0Error {
+  constructor(message: string, options: Agent0ErrorOptions = {}) {
+    super(message, { code: Agent0ErrorCode.NOT_OWNER, ...options });
+  }
+}
+
+export class AgentNotFoundError extends Agent0Error {
+  constructor(message: string, options: Agent0ErrorOptions = {}) {
+    super(message, { code: Agent0ErrorCode.AGENT_NOT_FOUND, ...options });
+  }
+}
+
+export class FeedbackAuthExpiredError extends Agent0Error {
+  constructor(message: string, options: Agent0ErrorOptions = {}) {
+    super(message, { code: Agent0ErrorCode.FEEDBACK_AUTH_EXPIRED, ...options });
+  }
+}
+
+export class FeedbackAuthInvalidError extends Agent0Error {
+  constructor(message: string, options: Agent0ErrorOptions = {}) {
+    super(message, { code: Agent0ErrorCode.FEEDBACK_AUTH_INVALID, ...options });
+  }
+}
+
+export class SubgraphUnavailableError extends Agent0Error {
+  constructor(message: string, options: Agent0ErrorOptions = {}) {
+    super(message, { code: Agent0ErrorCode.SUBGRAPH_UNAVAILABLE, ...options });
+  }
+}
+
+export class RpcUnavailableError extends Agent0Error {
+  constructor(message: string, options: Agent0ErrorOptions = {}) {
+    super(message, { code: Agent0ErrorCode.RPC_UNAVAILABLE, ...options });
+  }
+}
+
+export class TransactionDroppedError extends Agent0Error {
+  constructor(message: string, options: Agent0ErrorOptions = {}) {
+    super(message, { code: Agent0ErrorCode.TRANSACTION_DROPPED, ...options });
+  }
+}
+
+export class TransactionTimeoutError extends Agent0Error {
+  constructor(message: string, options: Agent0ErrorOptions = {}) {
+    super(message, { code: Agent0ErrorCode.TRANSACTION_TIMEOUT, ...options });
+  }
+}
+
+export class IpfsUploadError extends Agent0Error {
+  constructor(message: string, options: Agent0ErrorOptions = {}) {
+    super(message, { code: Agent0ErrorCode.IPFS_UPLOAD_FAILED, ...options });
+  }
+}
+
+export class InvalidRegistrationFileError extends Agent0Error {
+  readonly issues: RegistrationValidationIssue[]; // Schema errors, when raised by validation
+
+  constructor(
+    message: string,
+    options: Agent0ErrorOptions & { issues?: RegistrationValidationIssue[] } = {}
+  ) {
+    const { issues, ...errorOptions } = options;
+    super(message, { code: Agent0ErrorCode.INVALID_REGISTRATION_FILE, ...errorOptions });
+    this.issues = issues ?? [];
+  }
+}
+
+type Agent0ErrorClass = new (message: string, options?: Agent0ErrorOptions) => Agent0Error;
+
+/**
+ * Registry revert reasons / custom errors mapped to error classes
+ * require() messages are matched case-insensitively
+ */
+const REVERT_ERROR_CLASSES: Array<{ match: RegExp; errorClass: Agent0ErrorClass }> = [
+  { match: /^(ERC721IncorrectOwner|ERC721InsufficientApproval)$/, errorClass: NotOwnerError },
+  { match: /not (authorized|owner|the owner)|only owner|caller is not/i, errorClass: NotOwnerError },
+  { match: /^ERC721NonexistentToken$/, errorClass: AgentNotFoundError },
+  { match: /agent (does not|doesn't) exist|nonexistent token|invalid token id/i, errorClass: AgentNotFoundError },
+  { match: /auth(orization)? (has )?expired/i, errorClass: FeedbackAuthExpiredError },
+  {
+    match: /invalid (signature|signer)|index ?limit|chain ?id mismatch|registry mismatch|client mismatch/i,
+    errorClass: FeedbackAuthInvalidError,
+  },
+];
+
+/**
+ * Decode revert data from an ethers error
+ * Uses what ethers already decoded (Error(string), Panic, custom errors of the called contract),
+ * falling back to parsing raw revert data against the given contract's ABI
+ */
+export function decodeContractError(error: unknown, contract?: Contract): DecodedRevert | undefined {
+  const err = error as {
+    code?: string;
+    revert?: { name: string; signature?: string; args: unknown[] } | null;
+    reason?: string | null;
+    data?: string;
+  };
+  if (!err || typeof err !== 'object') {
+    return undefined;
+  }
+
+  if (err.revert) {
+    return {
+      name: err.revert.name,
+      signature: err.revert.signature,
+      args: Array.from(err.revert.args),
+      data: err.data,
+    };
+  }
+
+  if (contract && typeof err.data === 'string' && err.data.length > 2) {
+    try {
+      const parsed = contract.interface.parseError(err.data);
+      if (parsed) {
+        return {
+          name: parsed.name,
+          signature: parsed.signature,
+          args: Array.from(parsed.args),
+          data: err.data,
+        };
+      }
+    } catch {
+      // Undecodable revert data - fall through
+    }
+  }
+
+  // Node returned a revert reason without decodable data
+  if (err.code === 'CALL_EXCEPTION' && err.reason) {
+    return { name: 'Error', signature: 'Error(string)', args: [err.reason], data: err.data };
+  }
+
+  return undefined;
+}
+
+/**
+ * Format a decoded revert as a single human-readable string
+ */
+export function formatRevert(revert: DecodedRevert): string {
+  if (revert.name === 'Error' && revert.args.length === 1) {
+    return String(revert.args[0]);
+  }
+  return `${revert.name}(${revert.args.map((arg) => String(arg)).join(', ')})`;
+}
+
+/**
+ * Convert a failed contract call into a typed error
+ * Already-typed errors pass through with the context prepended
+ */
+export function toContractError(error: unknown, context: string, contract?: Contract): Agent0Error {
+  if (error instanceof Agent0Error) {
+    return withErrorContext(error, context);
+  }
+
+  const revert = decodeContractError(error, contract);
+  if (!revert) {
+    return new Agent0Error(`${context}: ${errorMessage(error)}`, { cause: error });
+  }
+
+  const reason = formatRevert(revert);
+  const errorClass =
+    REVERT_ERROR_CLASSES.find(({ match }) => match.test(revert.name === 'Error' ? reason : revert.name))
+      ?.errorClass ?? ContractRevertError;
+  return new errorClass(`${context}: ${reason}`, { cause: error, revert });
+}
+
+// Fields every Agent0Error sets itself; anything else on an instance belongs to its subclass
+const BASE_ERROR_FIELDS = new Set(['name', 'message', 'stack', 'code', 'cause', 'revert']);
+
+/**
+ * Prepend context to an error message, keeping the error class, code, revert data and
+ * subclass fields (e.g. InvalidRegistrationFileError.issues) of typed errors
+ */
+export function withErrorContext(error: unknown, context: string): Agent0Error {
+  const message = `${context}: ${errorMessage(error)}`;
+  if (error instanceof Agent0Error) {
+    const errorClass = error.constructor as Agent0ErrorClass;
+    const wrapped = new errorClass(message, { code: error.code, cause: error, revert: error.revert });
+    for (const key of Object.keys(error)) {
+      if (!BASE_ERROR_FIELDS.has(key)) {
+        (wrapped as unknown as Record<string, unknown>)[key] = (error as unknown as Record<string, unknown>)[key];
+      }
+    }
+    return wrapped;
+  }
+  return new Agent0Error(message, { cause: error });
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    return (error as { shortMessage?: string }).shortMessage || error.message;
+  }
+  return String(error);
+}
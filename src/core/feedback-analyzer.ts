@@ -0,0 +1,209 @@
+/**
+ * Sybil and spam heuristics for feedback
+ */
+
+import type { Feedback } from '../models/interfaces.js';
+import type { AgentId, Address } from '../models/types.js';
+import { FeedbackFlag } from '../models/enums.js';
+import type { Web3Client } from './web3-client.js';
+import type { ReviewerHistory } from './reputation-models.js';
+import { DEFAULTS } from '../utils/constants.js';
+
+export interface FeedbackAnalyzerOptions {
+  burstWindow?: number; // Seconds (default: 1 hour)
+  burstSize?: number; // Entries from fresh addresses within burstWindow that make a burst (default: 3)
+  freshAddressMaxTxCount?: number; // Reviewers with at most this many sent transactions are fresh (default: 5)
+  minDuplicateTextLength?: number; // Shorter texts are never flagged as duplicates (default: 20)
+  // Address that first funded the reviewer (e.g. from a block explorer API); enables FUNDED_BY_OWNER.
+  // Plain JSON-RPC cannot list incoming transfers, so there is no built-in source
+  getFundingSource?: (address: Address) => Promise<Address | undefined>;
+}
+
+/**
+ * What the analyzer needs besides the feedback itself (loaded by FeedbackManager)
+ */
+export interface FeedbackAnalysisContext {
+  parties: Map<AgentId, { owners: Address[]; operators: Address[] }>;
+  reviewerHistory?: Map<string, ReviewerHistory>; // Lowercase reviewer address -> history; enables SINGLE_AGENT_REVIEWER
+}
+
+/**
+ * Flags suspicious feedback; every check is a heuristic, so flags are signals rather than verdicts
+ */
+export class FeedbackAnalyzer {
+  constructor(
+    private readonly web3Client: Web3Client,
+    private readonly options: FeedbackAnalyzerOptions = {}
+  ) {}
+
+  /**
+   * Set Feedback.flags on every entry (an empty array when nothing was found) and return the entries
+   */
+  async analyze(feedback: Feedback[], context: FeedbackAnalysisContext): Promise<Feedback[]> {
+    const flags = feedback.map(() => new Set<FeedbackFlag>());
+
+    this._flagSelfReviews(feedback, context, flags);
+    this._flagDuplicateText(feedback, flags);
+    if (context.reviewerHistory) {
+      const history = context.reviewerHistory;
+      feedback.forEach((fb, i) => {
+        const entry = history.get(fb.reviewer.toLowerCase());
+        if (entry && entry.agentCount <= 1) {
+          flags[i].add(FeedbackFlag.SINGLE_AGENT_REVIEWER);
+        }
+      });
+    }
+    await this._flagFreshAddressBursts(feedback, flags);
+    await this._flagOwnerFunding(feedback, context, flags);
+
+    feedback.forEach((fb, i) => {
+      fb.flags = [...flags[i]];
+    });
+    return feedback;
+  }
+
+  private _flagSelfReviews(
+    feedback: Feedback[],
+    context: FeedbackAnalysisContext,
+    flags: Set<FeedbackFlag>[]
+  ): void {
+    feedback.forEach((fb, i) => {
+      if (partiesOf(context, fb.agentId).has(fb.reviewer.toLowerCase())) {
+        flags[i].add(FeedbackFlag.SELF_REVIEW);
+      }
+    });
+  }
+
+  /**
+   * Same normalized text from two or more distinct reviewers of the same agent
+   */
+  private _flagDuplicateText(feedback: Feedback[], flags: Set<FeedbackFlag>[]): void {
+    const minLength = this.options.minDuplicateTextLength ?? DEFAULTS.DUPLICATE_TEXT_MIN_LENGTH;
+    const groups = new Map<string, number[]>();
+    feedback.forEach((fb, i) => {
+      const text = (fb.text || '').trim().toLowerCase().replace(/\s+/g, ' ');
+      if (text.length >= minLength) {
+        const key = `${fb.agentId}\n${text}`;
+        groups.set(key, [...(groups.get(key) || []), i]);
+      }
+    });
+
+    for (const indexes of groups.values()) {
+      const reviewers = new Set(indexes.map((i) => feedback[i].reviewer.toLowerCase()));
+      if (reviewers.size > 1) {
+        indexes.forEach((i) => flags[i].add(FeedbackFlag.DUPLICATE_TEXT));
+      }
+    }
+  }
+
+  /**
+   * burstSize or more entries for one agent within burstWindow, all from fresh reviewers
+   * Transaction counts are only fetched for reviewers in time clusters, to keep RPC calls down
+   */
+  private async _flagFreshAddressBursts(feedback: Feedback[], flags: Set<FeedbackFlag>[]): Promise<void> {
+    const window = this.options.burstWindow ?? DEFAULTS.FEEDBACK_BURST_WINDOW;
+    const size = this.options.burstSize ?? DEFAULTS.FEEDBACK_BURST_SIZE;
+    const maxTxCount = this.options.freshAddressMaxTxCount ?? DEFAULTS.FRESH_ADDRESS_MAX_TX_COUNT;
+
+    const byAgent = new Map<AgentId, number[]>();
+    feedback.forEach((fb, i) => byAgent.set(fb.agentId, [...(byAgent.get(fb.agentId) || []), i]));
+
+    // Entries that would form a burst if their reviewers turn out to be fresh
+    const clusters: number[][] = [];
+    for (const indexes of byAgent.values()) {
+      const sorted = [...indexes].sort((a, b) => feedback[a].createdAt - feedback[b].createdAt);
+      clusters.push(...burstsIn(sorted, (i) => feedback[i].createdAt, window, size));
+    }
+    if (clusters.length === 0) {
+      return;
+    }
+
+    const candidates = new Set(clusters.flat().map((i) => feedback[i].reviewer.toLowerCase()));
+    const fresh = new Set<string>();
+    await Promise.all(
+      [...candidates].map(async (reviewer) => {
+        try {
+          if ((await this.web3Client.provider.getTransactionCount(reviewer)) <= maxTxCount) {
+            fresh.add(reviewer);
+          }
+        } catch {
+          // Unknown history - do not flag
+        }
+      })
+    );
+
+    for (const cluster of clusters) {
+      const freshEntries = cluster.filter((i) => fresh.has(feedback[i].reviewer.toLowerCase()));
+      for (const burst of burstsIn(freshEntries, (i) => feedback[i].createdAt, window, size)) {
+        burst.forEach((i) => flags[i].add(FeedbackFlag.FRESH_ADDRESS_BURST));
+      }
+    }
+  }
+
+  private async _flagOwnerFunding(
+    feedback: Feedback[],
+    context: FeedbackAnalysisContext,
+    flags: Set<FeedbackFlag>[]
+  ): Promise<void> {
+    const getFundingSource = this.options.getFundingSource;
+    if (!getFundingSource) {
+      return;
+    }
+
+    const funders = new Map<string, string | undefined>();
+    await Promise.all(
+      [...new Set(feedback.map((fb) => fb.reviewer.toLowerCase()))].map(async (reviewer) => {
+        try {
+          funders.set(reviewer, (await getFundingSource(reviewer))?.toLowerCase());
+        } catch {
+          funders.set(reviewer, undefined);
+        }
+      })
+    );
+
+    feedback.forEach((fb, i) => {
+      const funder = funders.get(fb.reviewer.toLowerCase());
+      if (funder && partiesOf(context, fb.agentId).has(funder)) {
+        flags[i].add(FeedbackFlag.FUNDED_BY_OWNER);
+      }
+    });
+  }
+}
+
+function partiesOf(context: FeedbackAnalysisContext, agentId: AgentId): Set<string> {
+  const parties = context.parties.get(agentId);
+  return new Set([...(parties?.owners || []), ...(parties?.operators || [])].map((a) => a.toLowerCase()));
+}
+
+/**
+ * Maximal runs of time-sorted items where at least `size` fall within `window` of each other
+ */
+function burstsIn<T>(sorted: T[], timeOf: (item: T) => number, window: number, size: number): T[][] {
+  const inBurst = new Set<number>();
+  let start = 0;
+  for (let end = 0; end < sorted.length; end++) {
+    while (timeOf(sorted[end]) - timeOf(sorted[start]) > window) {
+      start++;
+    }
+    if (end - start + 1 >= size) {
+      for (let k = start; k <= end; k++) {
+        inBurst.add(k);
+      }
+    }
+  }
+
+  const bursts: T[][] = [];
+  let current: T[] = [];
+  sorted.forEach((item, k) => {
+    if (inBurst.has(k)) {
+      current.push(item);
+    } else if (current.length > 0) {
+      bursts.push(current);
+      current = [];
+    }
+  });
+  if (current.length > 0) {
+    bursts.push(current);
+  }
+  return bursts;
+}
@@ -0,0 +1,368 @@
+/**
+ * Service for issuing feedbackAuth to clients on an agent's behalf
+ */
+
+import { ethers } from 'ethers';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { AgentId, Address } from '../models/types.js';
+import type { FeedbackAuth } from './feedback-manager.js';
+import { DEFAULTS, TIMEOUTS } from '../utils/constants.js';
+import { computeFileHash } from '../utils/canonical-json.js';
+
+/**
+ * Signs and decodes feedbackAuth (SDK and FeedbackManager both qualify)
+ */
+export interface FeedbackAuthSigner {
+  signFeedbackAuth(
+    agentId: AgentId,
+    clientAddress: Address,
+    indexLimit?: number,
+    expiryHours?: number
+  ): Promise<string>;
+  decodeFeedbackAuth(feedbackAuth: string): FeedbackAuth;
+}
+
+/**
+ * Proof that a client may receive a feedbackAuth
+ * - signature: the client signed a challenge from POST /challenge (EIP-191)
+ * - x402: an x402 payment receipt, checked by FeedbackAuthPolicy.verifyPayment; each receipt is accepted once
+ */
+export type FeedbackAuthProof =
+  | { type: 'signature'; challenge: string; signature: string }
+  | { type: 'x402'; payment: unknown };
+
+export interface FeedbackAuthPolicy {
+  allowlist?: Address[]; // Only these clients may request (any client when unset)
+  maxIndexLimit?: number; // Highest indexLimit issued, i.e. feedback entries per client
+  expiryHours?: number; // Lifetime of issued auths (default: 24)
+  rateLimit?: { maxRequests: number; windowMs: number }; // Per client address
+  challengeTtl?: number; // ms a signed challenge stays valid (default: 5 minutes)
+  maxChallenges?: number; // Outstanding challenges across all clients (default: 10000)
+  maxChallengesPerClient?: number; // Outstanding challenges per client; the oldest is replaced (default: 5)
+  verifyPayment?: (payment: unknown, clientAddress: Address) => Promise<boolean>; // Enables x402 proofs
+  // Receipt id for replay protection, e.g. the settlement tx hash (default: hash of the canonical payment JSON)
+  // Spent ids live in this instance's memory; services behind a load balancer or restarted must also have
+  // verifyPayment reject receipts it has already accepted
+  paymentId?: (payment: unknown) => string;
+}
+
+export interface FeedbackAuthServiceRequest {
+  method: string;
+  path: string;
+  body: unknown;
+}
+
+export interface FeedbackAuthServiceResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+/**
+ * Request rejected by policy or validation; mapped to an HTTP status by handle()
+ */
+class DeniedRequest extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly headers: Record<string, string> = {}
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Issues feedbackAuth for one agent to clients that prove control of their address or payment
+ *
+ * Endpoints (JSON bodies):
+ * - POST /challenge  { clientAddress }                        -> { challenge, expiresAt }
+ * - POST /           { clientAddress, proof, indexLimit? }    -> { feedbackAuth, agentId, clientAddress, indexLimit, expiry }
+ *
+ * handle() is framework-agnostic; nodeHandler() adapts it to Node's http module
+ */
+export class FeedbackAuthService {
+  private readonly challenges = new Map<string, { clientAddress: string; expiresAt: number }>();
+  private readonly requests = new Map<string, number[]>(); // Request times per client, for rate limiting
+  private readonly spentPayments = new Set<string>(); // Ids of accepted x402 receipts
+
+  constructor(
+    private readonly agentId: AgentId,
+    private readonly signer: FeedbackAuthSigner,
+    private readonly policy: FeedbackAuthPolicy = {}
+  ) {}
+
+  /**
+   * Create a single-use challenge for the client to sign
+   * Challenges are unauthenticated, so outstanding ones are capped per client and overall
+   */
+  createChallenge(clientAddress: Address): { challenge: string; expiresAt: number } {
+    const client = this._parseAddress(clientAddress);
+    const key = client.toLowerCase();
+    this._pruneChallenges();
+
+    // Map order is issue order, so the first match is the client's oldest challenge
+    const perClient = this.policy.maxChallengesPerClient ?? DEFAULTS.FEEDBACK_AUTH_MAX_CHALLENGES_PER_CLIENT;
+    const own = Array.from(this.challenges).filter(([, issued]) => issued.clientAddress === key);
+    if (own.length >= perClient) {
+      this.challenges.delete(own[0][0]);
+    }
+    if (this.challenges.size >= (this.policy.maxChallenges ?? DEFAULTS.FEEDBACK_AUTH_MAX_CHALLENGES)) {
+      const [{ expiresAt: firstExpiry }] = this.challenges.values();
+      const retryAfter = Math.max(1, Math.ceil((firstExpiry - Date.now()) / 1000));
+      throw new DeniedRequest(503, 'Too many outstanding challenges', { 'retry-after': String(retryAfter) });
+    }
+
+    const expiresAt = Date.now() + (this.policy.challengeTtl ?? TIMEOUTS.FEEDBACK_AUTH_CHALLENGE);
+    const challenge = [
+      'Request feedback authorization',
+      `Agent: ${this.agentId}`,
+      `Client: ${client}`,
+      `Nonce: ${ethers.hexlify(ethers.randomBytes(16))}`,
+      `Expires: ${new Date(expiresAt).toISOString()}`,
+    ].join('\n');
+
+    this.challenges.set(challenge, { clientAddress: key, expiresAt });
+    return { challenge, expiresAt };
+  }
+
+  /**
+   * Handle a request and build the response; never throws
+   */
+  async handle(request: FeedbackAuthServiceRequest): Promise<FeedbackAuthServiceResponse> {
+    try {
+      if (request.method.toUpperCase() !== 'POST') {
+        throw new DeniedRequest(405, 'Method not allowed', { allow: 'POST' });
+      }
+      const body = (request.body ?? {}) as Record<string, unknown>;
+      if (typeof body !== 'object' || Array.isArray(body)) {
+        throw new DeniedRequest(400, 'Request body must be a JSON object');
+      }
+
+      const path = request.path.split('?')[0].replace(/\/+$/, '');
+      if (path.endsWith('/challenge')) {
+        return this._respond(200, { ...this.createChallenge(body.clientAddress as Address) });
+      }
+      return this._respond(200, await this._issue(body));
+    } catch (error) {
+      if (error instanceof DeniedRequest) {
+        return this._respond(error.status, { error: error.message }, error.headers);
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      return this._respond(500, { error: `Failed to issue feedbackAuth: ${message}` });
+    }
+  }
+
+  /**
+   * Request listener for http.createServer (or any framework exposing Node's req / res)
+   */
+  nodeHandler(): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+    return async (req, res) => {
+      let response: FeedbackAuthServiceResponse;
+      try {
+        const raw = await readBody(req, MAX_BODY_BYTES);
+        let body: unknown = {};
+        try {
+          body = raw ? JSON.parse(raw) : {};
+        } catch {
+          throw new DeniedRequest(400, 'Request body is not valid JSON');
+        }
+        response = await this.handle({ method: req.method || 'GET', path: req.url || '/', body });
+      } catch (error) {
+        const status = error instanceof DeniedRequest ? error.status : 400;
+        response = this._respond(status, { error: error instanceof Error ? error.message : String(error) });
+      }
+
+      res.writeHead(response.status, response.headers);
+      res.end(JSON.stringify(response.body));
+    };
+  }
+
+  private async _issue(body: Record<string, unknown>): Promise<Record<string, unknown>> {
+    const clientAddress = this._parseAddress(body.clientAddress);
+
+    const { allowlist, maxIndexLimit } = this.policy;
+    if (allowlist && !allowlist.some((address) => address.toLowerCase() === clientAddress.toLowerCase())) {
+      throw new DeniedRequest(403, `Client ${clientAddress} is not allowed to request feedbackAuth`);
+    }
+
+    let indexLimit: number | undefined;
+    if (body.indexLimit !== undefined) {
+      indexLimit = Number(body.indexLimit);
+      if (!Number.isInteger(indexLimit) || indexLimit < 1) {
+        throw new DeniedRequest(400, 'indexLimit must be a positive integer');
+      }
+      if (maxIndexLimit !== undefined && indexLimit > maxIndexLimit) {
+        throw new DeniedRequest(403, `indexLimit ${indexLimit} exceeds the maximum of ${maxIndexLimit}`);
+      }
+    }
+
+    // Rate limiting counts proven requests only, so unauthenticated callers cannot exhaust a client's quota
+    await this._verifyProof(body.proof, clientAddress);
+    this._checkRateLimit(clientAddress);
+
+    const feedbackAuth = await this.signer.signFeedbackAuth(
+      this.agentId,
+      clientAddress,
+      indexLimit,
+      this.policy.expiryHours ?? DEFAULTS.FEEDBACK_EXPIRY_HOURS
+    );
+
+    // Without a requested indexLimit the signer picks the next index - enforce the cap on what was signed
+    const auth = this.signer.decodeFeedbackAuth(feedbackAuth);
+    if (maxIndexLimit !== undefined && auth.indexLimit > BigInt(maxIndexLimit)) {
+      throw new DeniedRequest(
+        403,
+        `Client ${clientAddress} has reached the maximum of ${maxIndexLimit} feedback entries`
+      );
+    }
+
+    return {
+      feedbackAuth,
+      agentId: this.agentId,
+      clientAddress,
+      indexLimit: Number(auth.indexLimit),
+      expiry: Number(auth.expiry),
+    };
+  }
+
+  private async _verifyProof(proof: unknown, clientAddress: Address): Promise<void> {
+    const p = proof as FeedbackAuthProof | undefined;
+    if (!p || typeof p !== 'object') {
+      throw new DeniedRequest(401, 'proof is required (signed challenge or x402 payment)');
+    }
+
+    if (p.type === 'signature') {
+      const issued = typeof p.challenge === 'string' ? this.challenges.get(p.challenge) : undefined;
+      if (!issued || issued.expiresAt <= Date.now()) {
+        throw new DeniedRequest(401, 'Unknown or expired challenge');
+      }
+      if (issued.clientAddress !== clientAddress.toLowerCase()) {
+        throw new DeniedRequest(401, 'Challenge was issued to a different client');
+      }
+
+      let recovered: string;
+      try {
+        recovered = ethers.verifyMessage(p.challenge, p.signature);
+      } catch {
+        throw new DeniedRequest(401, 'Malformed challenge signature');
+      }
+      if (recovered.toLowerCase() !== clientAddress.toLowerCase()) {
+        throw new DeniedRequest(401, 'Challenge signature does not match clientAddress');
+      }
+      // Single use
+      this.challenges.delete(p.challenge);
+      return;
+    }
+
+    if (p.type === 'x402') {
+      if (!this.policy.verifyPayment) {
+        throw new DeniedRequest(400, 'x402 payment proofs are not accepted');
+      }
+      // Single use; the id is held while verifyPayment runs so a concurrent replay is refused too
+      const paymentId = this._paymentId(p.payment);
+      if (this.spentPayments.has(paymentId)) {
+        throw new DeniedRequest(409, 'Payment has already been used');
+      }
+      this.spentPayments.add(paymentId);
+      let verified = false;
+      try {
+        verified = await this.policy.verifyPayment(p.payment, clientAddress);
+      } finally {
+        if (!verified) {
+          this.spentPayments.delete(paymentId);
+        }
+      }
+      if (!verified) {
+        throw new DeniedRequest(402, 'Payment could not be verified');
+      }
+      return;
+    }
+
+    throw new DeniedRequest(400, `Unsupported proof type: ${(p as { type?: unknown }).type}`);
+  }
+
+  private _paymentId(payment: unknown): string {
+    try {
+      return this.policy.paymentId ? this.policy.paymentId(payment) : computeFileHash(payment);
+    } catch {
+      throw new DeniedRequest(400, 'Malformed x402 payment');
+    }
+  }
+
+  private _checkRateLimit(clientAddress: Address): void {
+    const rateLimit = this.policy.rateLimit;
+    if (!rateLimit) {
+      return;
+    }
+
+    const key = clientAddress.toLowerCase();
+    const now = Date.now();
+    this._pruneRequests(now - rateLimit.windowMs);
+    const recent = (this.requests.get(key) || []).filter((time) => time > now - rateLimit.windowMs);
+    if (recent.length >= rateLimit.maxRequests) {
+      const retryAfter = Math.ceil((recent[0] + rateLimit.windowMs - now) / 1000);
+      this.requests.set(key, recent);
+      throw new DeniedRequest(429, 'Too many feedbackAuth requests', { 'retry-after': String(retryAfter) });
+    }
+    recent.push(now);
+    this.requests.set(key, recent);
+  }
+
+  private _parseAddress(value: unknown): Address {
+    if (typeof value !== 'string' || !ethers.isAddress(value)) {
+      throw new DeniedRequest(400, 'clientAddress must be a valid address');
+    }
+    return ethers.getAddress(value.toLowerCase());
+  }
+
+  private _pruneChallenges(): void {
+    const now = Date.now();
+    for (const [challenge, { expiresAt }] of this.challenges) {
+      if (expiresAt <= now) {
+        this.challenges.delete(challenge);
+      }
+    }
+  }
+
+  /**
+   * Drop clients with no requests since `since` (their window has passed)
+   */
+  private _pruneRequests(since: number): void {
+    for (const [client, times] of this.requests) {
+      if (times.length === 0 || times[times.length - 1] <= since) {
+        this.requests.delete(client);
+      }
+    }
+  }
+
+  private _respond(
+    status: number,
+    body: Record<string, unknown>,
+    headers: Record<string, string> = {}
+  ): FeedbackAuthServiceResponse {
+    return { status, headers: { 'content-type': 'application/json', ...headers }, body };
+  }
+}
+
+// Requests are small JSON documents
+const MAX_BODY_BYTES = 64 * 1024;
+
+function readBody(req: IncomingMessage, limit: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        reject(new DeniedRequest(413, 'Request body too large'));
+        // Drain the rest so the response can still be written
+        req.removeAllListeners('data');
+        req.resume();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
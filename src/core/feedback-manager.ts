@@ -6,14 +6,40 @@ import { ethers } from 'ethers';
 import type {
   Feedback,
   SearchFeedbackParams,
+  FeedbackId,
   FeedbackIdTuple,
+  FeedbackResponse,
+  FeedbackResponseContent,
+  PaymentVerification,
+  ReputationSummary,
+  SearchResultMeta,
+  TransactionPlan,
 } from '../models/interfaces.js';
 import type { AgentId, Address, URI, Timestamp, IdemKey } from '../models/types.js';
-import type { Web3Client } from './web3-client.js';
+import { FeedbackResolution, type FeedbackFlag } from '../models/enums.js';
+import { FeedbackAnalyzer } from './feedback-analyzer.js';
+import { resolveReputationModel } from './reputation-models.js';
+import type {
+  PaymentVerifier,
+  ReputationModel,
+  ReputationModelContext,
+  ReputationModelName,
+  ReviewerHistory,
+} from './reputation-models.js';
+import type { Web3Client, TransactionOptions } from './web3-client.js';
 import type { IPFSClient } from './ipfs-client.js';
 import type { SubgraphClient } from './subgraph-client.js';
 import { parseAgentId, formatAgentId, formatFeedbackId, parseFeedbackId } from '../utils/id-format.js';
-import { DEFAULTS } from '../utils/constants.js';
+import { DEFAULTS, IPFS_GATEWAYS, TIMEOUTS } from '../utils/constants.js';
+import { computeFeedbackHash, computeFileHash } from '../utils/canonical-json.js';
+import {
+  FeedbackAuthExpiredError,
+  FeedbackAuthInvalidError,
+  IpfsUploadError,
+  NotOwnerError,
+  SignerRequiredError,
+  withErrorContext,
+} from './errors.js';
 
 export interface FeedbackAuth {
   agentId: bigint;
@@ -23,6 +49,24 @@ export interface FeedbackAuth {
   chainId: bigint;
   identityRegistry: Address;
   signerAddress: Address;
+  signature?: string; // Signature appended after the encoded struct (set by decodeFeedbackAuth)
+}
+
+// feedbackAuth bytes: abi-encoded FeedbackAuth (7 words) followed by the signature
+const FEEDBACK_AUTH_DATA_LENGTH = 7 * 32;
+const SIGNATURE_LENGTH = 65;
+
+// ERC-20 Transfer(address indexed from, address indexed to, uint256 value); ERC-721 indexes the third field too
+const ERC20_TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+
+// Raw feedback entity as returned by the subgraph
+type SubgraphFeedbackRow = Awaited<ReturnType<SubgraphClient['searchFeedback']>>[number];
+
+// One chain's share of a feedback search
+interface FeedbackQuery {
+  chainId?: number;
+  subgraphClient?: SubgraphClient;
+  filters: Parameters<SubgraphClient['searchFeedback']>[0];
 }
 
 /**
@@ -31,6 +75,8 @@ export interface FeedbackAuth {
 export class FeedbackManager {
   private getSubgraphClientForChain?: (chainId?: number) => SubgraphClient | undefined;
   private defaultChainId?: number;
+  private feedbackAnalyzer?: FeedbackAnalyzer;
+  private paymentVerifier?: PaymentVerifier;
 
   constructor(
     private web3Client: Web3Client,
@@ -51,6 +97,20 @@ export class FeedbackManager {
     this.defaultChainId = defaultChainId;
   }
 
+  /**
+   * Set the analyzer used for flagSuspicious / excludeFlagged (default: FeedbackAnalyzer with default options)
+   */
+  setFeedbackAnalyzer(analyzer: FeedbackAnalyzer): void {
+    this.feedbackAnalyzer = analyzer;
+  }
+
+  /**
+   * Set the proofOfPayment check for models with needsPaymentVerification (the SDK uses verifyProofOfPayment)
+   */
+  setPaymentVerifier(verifier: PaymentVerifier): void {
+    this.paymentVerifier = verifier;
+  }
+
   /**
    * Set reputation registry contract (for lazy initialization)
    */
@@ -114,7 +174,7 @@ export class FeedbackManager {
     const signerAddress = this.web3Client.address || '0x0';
 
     if (!signerAddress || signerAddress === '0x0') {
-      throw new Error('No signer available for feedback authorization');
+      throw new SignerRequiredError('No signer available for feedback authorization');
     }
 
     // Encode feedback auth data
@@ -142,6 +202,138 @@ export class FeedbackManager {
     return '0x' + authDataNoPrefix + sigNoPrefix;
   }
 
+  /**
+   * Decode a feedbackAuth produced by signFeedbackAuth (encoded FeedbackAuth followed by the signature)
+   */
+  decodeFeedbackAuth(feedbackAuth: string): FeedbackAuth {
+    let bytes: Uint8Array;
+    try {
+      bytes = ethers.getBytes(feedbackAuth.startsWith('0x') ? feedbackAuth : '0x' + feedbackAuth);
+    } catch (error) {
+      throw new FeedbackAuthInvalidError('Invalid feedbackAuth: not hex-encoded bytes', { cause: error });
+    }
+    if (bytes.length < FEEDBACK_AUTH_DATA_LENGTH + SIGNATURE_LENGTH) {
+      throw new FeedbackAuthInvalidError(
+        `Invalid feedbackAuth: expected at least ${FEEDBACK_AUTH_DATA_LENGTH + SIGNATURE_LENGTH} bytes, got ${bytes.length}`
+      );
+    }
+
+    const auth = this.web3Client.decodeFeedbackAuth(bytes.slice(0, FEEDBACK_AUTH_DATA_LENGTH));
+    return { ...auth, signature: ethers.hexlify(bytes.slice(FEEDBACK_AUTH_DATA_LENGTH)) };
+  }
+
+  /**
+   * Check a feedbackAuth the way the ReputationRegistry will, so bad authorizations fail before any gas is spent
+   * Throws FeedbackAuthExpiredError, FeedbackAuthInvalidError (agent / client / chain / registry / index limit /
+   * signature mismatch) or NotOwnerError (signer is neither the agent owner nor an approved operator)
+   */
+  async verifyFeedbackAuth(
+    feedbackAuth: string | FeedbackAuth,
+    expected: { agentId: AgentId; clientAddress: Address }
+  ): Promise<FeedbackAuth> {
+    const auth = typeof feedbackAuth === 'string' ? this.decodeFeedbackAuth(feedbackAuth) : feedbackAuth;
+    if (!auth.signature) {
+      throw new FeedbackAuthInvalidError('Invalid feedbackAuth: missing signature');
+    }
+
+    const { tokenId } = parseAgentId(expected.agentId);
+    if (auth.agentId !== BigInt(tokenId)) {
+      throw new FeedbackAuthInvalidError(
+        `Invalid feedbackAuth: issued for agent ${auth.agentId}, not ${expected.agentId}`
+      );
+    }
+    if (auth.clientAddress.toLowerCase() !== expected.clientAddress.toLowerCase()) {
+      throw new FeedbackAuthInvalidError(
+        `Invalid feedbackAuth: issued for client ${auth.clientAddress}, not ${expected.clientAddress}`
+      );
+    }
+
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    if (auth.expiry <= now) {
+      throw new FeedbackAuthExpiredError(
+        `feedbackAuth expired at ${new Date(Number(auth.expiry) * 1000).toISOString()}`
+      );
+    }
+
+    if (this.web3Client.chainId === 0n) {
+      await this.web3Client.initialize();
+    }
+    if (auth.chainId !== this.web3Client.chainId) {
+      throw new FeedbackAuthInvalidError(
+        `Invalid feedbackAuth: chain ID mismatch (auth ${auth.chainId}, connected ${this.web3Client.chainId})`
+      );
+    }
+
+    if (!this.identityRegistry || !this.reputationRegistry) {
+      throw new Error('Identity and reputation registries are required to verify feedbackAuth');
+    }
+    const identityRegistryAddress = await this.identityRegistry.getAddress();
+    if (auth.identityRegistry.toLowerCase() !== identityRegistryAddress.toLowerCase()) {
+      throw new FeedbackAuthInvalidError(
+        `Invalid feedbackAuth: registry mismatch (auth ${auth.identityRegistry}, expected ${identityRegistryAddress})`
+      );
+    }
+
+    // Signature over keccak256(abi.encode(auth)) with the Ethereum signed message prefix
+    const authData = this.web3Client.encodeFeedbackAuth(
+      auth.agentId,
+      auth.clientAddress,
+      auth.indexLimit,
+      auth.expiry,
+      auth.chainId,
+      auth.identityRegistry,
+      auth.signerAddress
+    );
+    let recovered: string;
+    try {
+      recovered = this.web3Client.recoverAddress(ethers.getBytes(ethers.keccak256(authData)), auth.signature);
+    } catch (error) {
+      throw new FeedbackAuthInvalidError('Invalid feedbackAuth: malformed signature', { cause: error });
+    }
+    if (recovered.toLowerCase() !== auth.signerAddress.toLowerCase()) {
+      throw new FeedbackAuthInvalidError(
+        `Invalid feedbackAuth: invalid signature (recovered ${recovered}, expected signer ${auth.signerAddress})`
+      );
+    }
+
+    let lastIndex: bigint;
+    let authorized: boolean;
+    try {
+      lastIndex = await this.web3Client.callContract(
+        this.reputationRegistry,
+        'getLastIndex',
+        auth.agentId,
+        auth.clientAddress
+      );
+
+      const owner: string = await this.web3Client.callContract(this.identityRegistry, 'ownerOf', auth.agentId);
+      const signer = auth.signerAddress.toLowerCase();
+      authorized = owner.toLowerCase() === signer;
+      if (!authorized) {
+        const [approvedForAll, approved] = await Promise.all([
+          this.web3Client.callContract(this.identityRegistry, 'isApprovedForAll', owner, auth.signerAddress),
+          this.web3Client.callContract(this.identityRegistry, 'getApproved', auth.agentId),
+        ]);
+        authorized = Boolean(approvedForAll) || (approved as string).toLowerCase() === signer;
+      }
+    } catch (error) {
+      throw withErrorContext(error, 'Failed to verify feedbackAuth');
+    }
+
+    if (auth.indexLimit <= lastIndex) {
+      throw new FeedbackAuthInvalidError(
+        `Invalid feedbackAuth: index limit ${auth.indexLimit} reached (client has already given ${lastIndex} feedback)`
+      );
+    }
+    if (!authorized) {
+      throw new NotOwnerError(
+        `feedbackAuth signer ${auth.signerAddress} is not the owner or an approved operator of agent ${expected.agentId}`
+      );
+    }
+
+    return auth;
+  }
+
   /**
    * Prepare feedback file (local file/object) according to spec
    */
@@ -216,54 +408,17 @@ export class FeedbackManager {
     agentId: AgentId,
     feedbackFile: Record<string, unknown>,
     idem?: IdemKey,
-    feedbackAuth?: string
+    feedbackAuth?: string,
+    options: TransactionOptions = {}
   ): Promise<Feedback> {
-    // Parse agent ID
-    const { tokenId } = parseAgentId(agentId);
-
-    // Get client address (the one giving feedback)
-    const clientAddress = this.web3Client.address;
-    if (!clientAddress) {
-      throw new Error('No signer available. Cannot give feedback without a wallet.');
-    }
-
-    // Get current feedback index for this client-agent pair
-    let feedbackIndex: number;
-    try {
-      if (!this.reputationRegistry) {
-        throw new Error('Reputation registry not available');
-      }
-      const lastIndex = await this.web3Client.callContract(
-        this.reputationRegistry,
-        'getLastIndex',
-        BigInt(tokenId),
-        clientAddress
-      );
-      feedbackIndex = Number(lastIndex) + 1;
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(`Failed to get feedback index: ${errorMessage}`);
-    }
+    const { tokenId, clientAddress, feedbackIndex, authBytes, score, tag1, tag2 } =
+      await this._prepareFeedbackSubmission(agentId, feedbackFile, feedbackAuth);
 
-    // Prepare feedback auth (use provided auth or create new one)
-    let authBytes: string;
+    // Authorizations from the agent are checked up front; self-signed ones are valid by construction
     if (feedbackAuth) {
-      authBytes = feedbackAuth;
-    } else {
-      const authHex = await this.signFeedbackAuth(agentId, clientAddress, feedbackIndex, 24);
-      authBytes = authHex;
+      await this.verifyFeedbackAuth(authBytes, { agentId, clientAddress });
     }
 
-    // Update feedback file with auth
-    feedbackFile.feedbackAuth = authBytes.startsWith('0x') ? authBytes : '0x' + authBytes;
-
-    // Prepare on-chain data (only basic fields, no capability/endpoint)
-    const score = feedbackFile.score !== undefined ? Number(feedbackFile.score) : 0;
-    const tag1Str = typeof feedbackFile.tag1 === 'string' ? feedbackFile.tag1 : '';
-    const tag2Str = typeof feedbackFile.tag2 === 'string' ? feedbackFile.tag2 : '';
-    const tag1 = this._stringToBytes32(tag1Str);
-    const tag2 = this._stringToBytes32(tag2Str);
-
     // Handle off-chain file storage
     let feedbackUri = '';
     let feedbackHash = '0x' + '00'.repeat(32); // Default empty hash
@@ -273,9 +428,7 @@ export class FeedbackManager {
       try {
         const cid = await this.ipfsClient.addJson(feedbackFile);
         feedbackUri = `ipfs://${cid}`;
-        // Calculate hash of sorted JSON
-        const sortedJson = JSON.stringify(feedbackFile, Object.keys(feedbackFile).sort());
-        feedbackHash = this.web3Client.keccak256(sortedJson);
+        feedbackHash = computeFeedbackHash(feedbackFile);
       } catch (error) {
         // Failed to store on IPFS - log error but continue without IPFS storage
         const errorMessage = error instanceof Error ? error.message : String(error);
@@ -296,7 +449,7 @@ export class FeedbackManager {
       const txHash = await this.web3Client.transactContract(
         this.reputationRegistry,
         'giveFeedback',
-        {},
+        options,
         BigInt(tokenId),
         score,
         tag1,
@@ -309,8 +462,7 @@ export class FeedbackManager {
       // Wait for transaction confirmation
       await this.web3Client.waitForTransaction(txHash);
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(`Failed to submit feedback to blockchain: ${errorMessage}`);
+      throw withErrorContext(error, 'Failed to submit feedback to blockchain');
     }
 
     // Create feedback object
@@ -350,7 +502,8 @@ export class FeedbackManager {
 
   /**
    * Get single feedback with responses
-   * Currently only supports blockchain query - subgraph support coming soon
+   * Reads the on-chain entry, then its NewFeedback event for the file URI, hash and timestamp;
+   * the downloaded file fills in text / context / skill / task and is checked against the hash (hashVerified)
    */
   async getFeedback(
     agentId: AgentId,
@@ -374,6 +527,7 @@ export class FeedbackManager {
 
     const { tokenId } = parseAgentId(agentId);
 
+    let feedback: Feedback;
     try {
       const [score, tag1Bytes, tag2Bytes, isRevoked] = await this.web3Client.callContract(
         this.reputationRegistry,
@@ -385,100 +539,408 @@ export class FeedbackManager {
 
       const tags = this._bytes32ToTags(tag1Bytes, tag2Bytes);
 
-      return {
+      feedback = {
         id: [agentId, clientAddress.toLowerCase(), feedbackIndex] as FeedbackIdTuple,
         agentId,
         reviewer: clientAddress,
         score: Number(score),
         tags,
-        createdAt: Math.floor(Date.now() / 1000), // Approximate, could be improved
+        createdAt: Math.floor(Date.now() / 1000), // Replaced by the block timestamp when the event is found
         answers: [],
         isRevoked: Boolean(isRevoked),
       };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(`Failed to read feedback from blockchain: ${errorMessage}`);
+      throw withErrorContext(error, 'Failed to read feedback from blockchain');
     }
+
+    // NewFeedback has no index: the client's Nth event for this agent is feedback N
+    let event: ethers.EventLog | undefined;
+    try {
+      const logs = await this.web3Client.getEvents(
+        this.reputationRegistry,
+        'NewFeedback',
+        0,
+        undefined,
+        BigInt(tokenId),
+        clientAddress
+      );
+      event = logs[feedbackIndex - 1] as ethers.EventLog | undefined;
+    } catch {
+      // Many RPCs cap eth_getLogs block ranges - return the on-chain fields only
+    }
+    if (!event) {
+      return feedback;
+    }
+
+    const block = await this.web3Client.provider.getBlock(event.blockNumber).catch(() => null);
+    if (block) {
+      feedback.createdAt = block.timestamp;
+    }
+
+    const feedbackUri: string = event.args.feedbackUri;
+    const feedbackHash: string = event.args.feedbackHash;
+    if (!feedbackUri) {
+      return feedback;
+    }
+    feedback.fileURI = feedbackUri;
+
+    let file: Record<string, unknown>;
+    try {
+      file = await this._fetchFile(feedbackUri);
+    } catch {
+      // File unavailable - hashVerified stays undefined (not checked)
+      return feedback;
+    }
+
+    if (feedbackHash && feedbackHash !== ethers.ZeroHash) {
+      const committed = feedbackHash.toLowerCase();
+      feedback.hashVerified =
+        computeFeedbackHash(file) === committed || this._legacyFeedbackHash(file) === committed;
+    }
+
+    const text = (value: unknown) => (typeof value === 'string' ? value : undefined);
+    const record = (value: unknown) =>
+      value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : undefined;
+    feedback.text = text(file.text);
+    feedback.context = record(file.context);
+    feedback.proofOfPayment = record(file.proofOfPayment);
+    feedback.capability = text(file.capability);
+    feedback.name = text(file.name);
+    feedback.skill = text(file.skill);
+    feedback.task = text(file.task);
+    return feedback;
   }
 
   /**
-   * Search feedback with filters
-   * Uses subgraph if available, otherwise returns empty array
-   * Supports chainId:agentId format in params.agents
+   * Download a feedback or response file from IPFS (client or public gateways) or HTTP(S)
    */
-  async searchFeedback(params: SearchFeedbackParams): Promise<Feedback[]> {
-    // Determine which subgraph client to use based on agentId chainId
-    let subgraphClientToUse = this.subgraphClient;
-    let formattedAgents: string[] | undefined;
-    
-    // If agents are specified, check if they have chainId prefixes
-    if (params.agents && params.agents.length > 0 && this.getSubgraphClientForChain) {
-      // Parse first agentId to determine chain
-      const firstAgentId = params.agents[0];
-      let chainId: number | undefined;
-      let fullAgentId: string;
-      
-      if (firstAgentId.includes(':')) {
-        const parsed = parseAgentId(firstAgentId);
-        chainId = parsed.chainId;
-        fullAgentId = firstAgentId;
-        // Get subgraph client for the specified chain
-        subgraphClientToUse = this.getSubgraphClientForChain(chainId);
-        // Format all agentIds to ensure they have chainId prefix
-        formattedAgents = params.agents.map(agentId => {
-          if (agentId.includes(':')) {
-            return agentId;
-          } else {
-            // Format with the same chainId as the first agent
-            return formatAgentId(chainId!, parseInt(agentId, 10));
-          }
-        });
+  private async _fetchFile(uri: string): Promise<Record<string, unknown>> {
+    let data: unknown;
+    if (uri.startsWith('ipfs://')) {
+      const cid = uri.slice(7);
+      if (this.ipfsClient) {
+        data = await this.ipfsClient.getJson(cid);
       } else {
-        // Use default chain - format agentIds with default chainId
-        chainId = this.defaultChainId;
-        if (this.defaultChainId !== undefined) {
-          formattedAgents = params.agents.map(agentId => {
-            if (agentId.includes(':')) {
-              return agentId;
-            } else {
-              return formatAgentId(this.defaultChainId!, parseInt(agentId, 10));
+        for (const gateway of IPFS_GATEWAYS) {
+          try {
+            const response = await fetch(`${gateway}${cid}`, {
+              signal: AbortSignal.timeout(TIMEOUTS.IPFS_GATEWAY),
+            });
+            if (response.ok) {
+              data = await response.json();
+              break;
             }
-          });
-        } else {
-          formattedAgents = params.agents;
+          } catch {
+            continue;
+          }
         }
-        // Don't change subgraphClientToUse - use the default one
+        if (data === undefined) {
+          throw new Error('Failed to retrieve data from all IPFS gateways');
+        }
+      }
+    } else if (uri.startsWith('http://') || uri.startsWith('https://')) {
+      const response = await fetch(uri, { signal: AbortSignal.timeout(TIMEOUTS.IPFS_GATEWAY) });
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ${uri}: HTTP ${response.status}`);
       }
+      data = await response.json();
     } else {
-      formattedAgents = params.agents;
+      throw new Error(`Unsupported URI scheme: ${uri}`);
+    }
+
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      throw new Error(`Invalid file format at ${uri}: expected an object`);
+    }
+    return data as Record<string, unknown>;
+  }
+
+  /**
+   * feedbackHash rule used before canonical JSON (top-level key replacer array), still accepted when
+   * verifying feedback given with older SDK versions
+   */
+  private _legacyFeedbackHash(file: Record<string, unknown>): string {
+    return this.web3Client.keccak256(JSON.stringify(file, Object.keys(file).sort()));
+  }
+
+  /**
+   * Search feedback with filters (first 100 matches, newest first)
+   * Uses subgraph if available, otherwise returns empty array
+   * Supports chainId:agentId format in params.agents
+   * Use searchFeedbackPage / iterateFeedback to go past the first page
+   */
+  async searchFeedback(params: SearchFeedbackParams): Promise<Feedback[]> {
+    return (await this.searchFeedbackPage(params, 100)).items;
+  }
+
+  /**
+   * One page of matching feedback, newest first
+   * nextCursor is set while more pages may exist; pagination is keyset-based (createdAt, id),
+   * so entries added between pages do not shift or repeat results
+   * Agents on several chains are searched on each chain's subgraph in parallel and merged; meta is
+   * only set for such multi-chain searches
+   */
+  async searchFeedbackPage(
+    params: SearchFeedbackParams,
+    pageSize: number = DEFAULTS.SEARCH_PAGE_SIZE,
+    cursor?: string
+  ): Promise<{ items: Feedback[]; nextCursor?: string; meta?: SearchResultMeta }> {
+    const queries = this._resolveFeedbackQueries(params);
+    if (queries.length > 1) {
+      return this._searchFeedbackAcrossChains(params, queries, pageSize, cursor);
     }
 
-    if (!subgraphClientToUse) {
+    const { subgraphClient, filters } = queries[0];
+    if (!subgraphClient) {
       // Fallback not implemented (would require blockchain queries)
       // For now, return empty if subgraph unavailable
-      return [];
-    }
-
-    // Query subgraph
-    const feedbacksData = await subgraphClientToUse.searchFeedback(
-      {
-        agents: formattedAgents || params.agents,
-        reviewers: params.reviewers,
-        tags: params.tags,
-        capabilities: params.capabilities,
-        skills: params.skills,
-        tasks: params.tasks,
-        names: params.names,
-        minScore: params.minScore,
-        maxScore: params.maxScore,
-        includeRevoked: params.includeRevoked || false,
+      return { items: [] };
+    }
+
+    const page = await this._fetchFeedbackPage(subgraphClient, filters, pageSize, cursor);
+    const feedbacks = this._mapSubgraphFeedbackRows(page.rows);
+    if (params.flagSuspicious) {
+      await this._analyzeFeedback(feedbacks, subgraphClient);
+    }
+    return { items: feedbacks, nextCursor: page.nextCursor };
+  }
+
+  /**
+   * Iterate over every matching feedback entry, newest first, fetching pages as needed
+   * With flagSuspicious, each page is analyzed on its own
+   */
+  async *iterateFeedback(
+    params: SearchFeedbackParams,
+    pageSize: number = DEFAULTS.SUBGRAPH_PAGE_SIZE
+  ): AsyncGenerator<Feedback> {
+    let cursor: string | undefined;
+    do {
+      const page = await this.searchFeedbackPage(params, pageSize, cursor);
+      yield* page.items;
+      cursor = page.nextCursor;
+    } while (cursor);
+  }
+
+  /**
+   * Group params.agents by chain and build one subgraph query per chain
+   * Agent IDs without a chain prefix belong to the default chain
+   */
+  private _resolveFeedbackQueries(params: SearchFeedbackParams): FeedbackQuery[] {
+    const filtersFor = (agents?: AgentId[]): Parameters<SubgraphClient['searchFeedback']>[0] => ({
+      agents,
+      reviewers: params.reviewers,
+      tags: params.tags,
+      capabilities: params.capabilities,
+      skills: params.skills,
+      tasks: params.tasks,
+      names: params.names,
+      minScore: params.minScore,
+      maxScore: params.maxScore,
+      includeRevoked: params.includeRevoked || false,
+    });
+
+    if (!params.agents || params.agents.length === 0 || !this.getSubgraphClientForChain) {
+      return [{ chainId: this.defaultChainId, subgraphClient: this.subgraphClient, filters: filtersFor(params.agents) }];
+    }
+
+    const agentsByChain = new Map<number | undefined, AgentId[]>();
+    for (const agentId of params.agents) {
+      let chainId: number | undefined;
+      let fullAgentId = agentId;
+      if (agentId.includes(':')) {
+        chainId = parseAgentId(agentId).chainId;
+      } else if (this.defaultChainId !== undefined) {
+        chainId = this.defaultChainId;
+        fullAgentId = formatAgentId(this.defaultChainId, parseInt(agentId, 10));
+      }
+      agentsByChain.set(chainId, [...(agentsByChain.get(chainId) || []), fullAgentId]);
+    }
+
+    return [...agentsByChain].map(([chainId, agents]) => ({
+      chainId,
+      // Unprefixed IDs without a default chain stay on the default subgraph
+      subgraphClient:
+        chainId === undefined ? this.subgraphClient : this.getSubgraphClientForChain!(chainId),
+      filters: filtersFor(agents),
+    }));
+  }
+
+  /**
+   * Search each chain's subgraph in parallel and merge the results newest first
+   * The cursor holds a keyset position per chain (null once a chain is exhausted), so each
+   * page continues every chain exactly where the previous page left off
+   */
+  private async _searchFeedbackAcrossChains(
+    params: SearchFeedbackParams,
+    queries: FeedbackQuery[],
+    pageSize: number,
+    cursor?: string,
+    timeout: number = TIMEOUTS.MULTI_CHAIN_QUERY
+  ): Promise<{ items: Feedback[]; nextCursor?: string; meta: SearchResultMeta }> {
+    const startTime = Date.now();
+    const positions = cursor ? this._decodeMultiChainFeedbackCursor(cursor) : {};
+    const chains = queries.map((query) => query.chainId!);
+
+    const querySingleChain = async (query: FeedbackQuery): Promise<{
+      status: 'success' | 'error' | 'timeout' | 'unavailable';
+      rows: SubgraphFeedbackRow[];
+    }> => {
+      const position = positions[query.chainId!];
+      if (position === null) {
+        return { status: 'success', rows: [] };
+      }
+      if (!query.subgraphClient) {
+        return { status: 'unavailable', rows: [] };
+      }
+
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      try {
+        return await Promise.race([
+          this._fetchFeedbackPage(query.subgraphClient, query.filters, pageSize, position).then((page) => ({
+            status: 'success' as const,
+            rows: page.rows,
+          })),
+          new Promise<{ status: 'timeout'; rows: SubgraphFeedbackRow[] }>((resolve) => {
+            timer = setTimeout(() => resolve({ status: 'timeout', rows: [] }), timeout);
+          }),
+        ]);
+      } catch {
+        return { status: 'error', rows: [] };
+      } finally {
+        clearTimeout(timer);
+      }
+    };
+
+    const results = await Promise.all(queries.map(querySingleChain));
+    const successfulChains = chains.filter((_chainId, i) => results[i].status === 'success');
+    const failedChains = chains.filter((_chainId, i) => results[i].status !== 'success');
+
+    // Newest first; ties broken by chain, then by id like the subgraph does within a chain
+    const merged = results
+      .flatMap((result, i) => result.rows.map((row) => ({ queryIndex: i, row })))
+      .sort(
+        (a, b) =>
+          Number(b.row.createdAt) - Number(a.row.createdAt) ||
+          chains[a.queryIndex] - chains[b.queryIndex] ||
+          (String(a.row.id) < String(b.row.id) ? 1 : String(a.row.id) > String(b.row.id) ? -1 : 0)
+      );
+    const taken = merged.slice(0, pageSize);
+
+    // Advance each chain past the entries it contributed to this page
+    const nextPositions: Record<string, string | null> = {};
+    results.forEach((result, i) => {
+      const chainId = chains[i];
+      const consumed = taken.filter((entry) => entry.queryIndex === i);
+      const last = consumed[consumed.length - 1];
+      const exhausted =
+        positions[chainId] === null ||
+        (result.status === 'success' && result.rows.length < pageSize && consumed.length === result.rows.length);
+      if (exhausted) {
+        nextPositions[chainId] = null;
+      } else if (last) {
+        nextPositions[chainId] = JSON.stringify({ createdAt: String(last.row.createdAt), id: String(last.row.id) });
+      } else if (positions[chainId] !== undefined) {
+        nextPositions[chainId] = positions[chainId];
+      }
+    });
+    const hasMore = taken.length > 0 && Object.values(nextPositions).some((position) => position !== null);
+
+    const items = this._mapSubgraphFeedbackRows(taken.map((entry) => entry.row));
+    if (params.flagSuspicious) {
+      await Promise.all(
+        queries.map((query, i) => {
+          const chainItems = items.filter((_fb, k) => taken[k].queryIndex === i);
+          return chainItems.length > 0 && query.subgraphClient
+            ? this._analyzeFeedback(chainItems, query.subgraphClient)
+            : undefined;
+        })
+      );
+    }
+
+    const queryTime = Date.now() - startTime;
+    return {
+      items,
+      nextCursor: hasMore ? JSON.stringify({ chains: nextPositions }) : undefined,
+      meta: {
+        chains,
+        successfulChains,
+        failedChains,
+        totalResults: merged.length,
+        timing: {
+          totalMs: queryTime,
+          averagePerChainMs: chains.length > 0 ? Math.floor(queryTime / chains.length) : undefined,
+        },
       },
-      100, // first
-      0, // skip
-      'createdAt',
-      'desc'
-    );
+    };
+  }
+
+  private _decodeMultiChainFeedbackCursor(cursor: string): Record<string, string | null> {
+    try {
+      const parsed = JSON.parse(cursor);
+      const chains = parsed?.chains;
+      if (
+        chains && typeof chains === 'object' &&
+        Object.values(chains).every((position) => position === null || typeof position === 'string')
+      ) {
+        return chains as Record<string, string | null>;
+      }
+    } catch {
+      // Reported below
+    }
+    throw new Error(`Invalid feedback cursor: ${cursor}`);
+  }
+
+  /**
+   * Fetch one keyset page of raw subgraph feedback, newest first
+   */
+  private async _fetchFeedbackPage(
+    subgraphClient: SubgraphClient,
+    filters: Parameters<SubgraphClient['searchFeedback']>[0],
+    pageSize: number,
+    cursor?: string
+  ): Promise<{ rows: SubgraphFeedbackRow[]; nextCursor?: string }> {
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > DEFAULTS.SUBGRAPH_PAGE_SIZE) {
+      throw new Error(`pageSize must be an integer between 1 and ${DEFAULTS.SUBGRAPH_PAGE_SIZE}`);
+    }
+
+    const query = cursor ? { ...filters, after: this._decodeFeedbackCursor(cursor) } : filters;
+    const rows = await subgraphClient.searchFeedback(query, pageSize, 0, 'createdAt', 'desc');
 
+    const last = rows[rows.length - 1];
+    const nextCursor =
+      rows.length === pageSize && last
+        ? JSON.stringify({ createdAt: String(last.createdAt), id: String(last.id) })
+        : undefined;
+    return { rows, nextCursor };
+  }
+
+  /**
+   * Every raw subgraph feedback row matching the filters, newest first
+   */
+  private async *_iterateSubgraphFeedback(
+    subgraphClient: SubgraphClient,
+    filters: Parameters<SubgraphClient['searchFeedback']>[0]
+  ): AsyncGenerator<SubgraphFeedbackRow> {
+    let cursor: string | undefined;
+    do {
+      const page = await this._fetchFeedbackPage(subgraphClient, filters, DEFAULTS.SUBGRAPH_PAGE_SIZE, cursor);
+      yield* page.rows;
+      cursor = page.nextCursor;
+    } while (cursor);
+  }
+
+  private _decodeFeedbackCursor(cursor: string): { createdAt: string; id: string } {
+    try {
+      const parsed = JSON.parse(cursor);
+      if (typeof parsed.createdAt === 'string' && typeof parsed.id === 'string') {
+        return { createdAt: parsed.createdAt, id: parsed.id };
+      }
+    } catch {
+      // Reported below
+    }
+    throw new Error(`Invalid feedback cursor: ${cursor}`);
+  }
+
+  private _mapSubgraphFeedbackRows(feedbacksData: SubgraphFeedbackRow[]): Feedback[] {
     // Map to Feedback objects
     const feedbacks: Feedback[] = [];
     for (const fbData of feedbacksData) {
@@ -506,6 +968,32 @@ export class FeedbackManager {
     return feedbacks;
   }
 
+  /**
+   * Run the feedback analyzer after loading the agents' owners / operators and the reviewers' history
+   */
+  private async _analyzeFeedback(feedbacks: Feedback[], subgraphClient: SubgraphClient): Promise<Feedback[]> {
+    const parties = new Map<AgentId, { owners: Address[]; operators: Address[] }>();
+    await Promise.all(
+      [...new Set(feedbacks.map((fb) => fb.agentId))].map(async (agentId) => {
+        const agent = await subgraphClient.getAgentById(agentId).catch(() => null);
+        parties.set(agentId, { owners: agent?.owners || [], operators: agent?.operators || [] });
+      })
+    );
+
+    let reviewerHistory: Map<string, ReviewerHistory> | undefined;
+    try {
+      reviewerHistory = await this._loadReviewerHistory(
+        subgraphClient,
+        feedbacks.map((fb) => fb.reviewer)
+      );
+    } catch {
+      // Without history the single-agent check is skipped
+    }
+
+    const analyzer = this.feedbackAnalyzer ?? new FeedbackAnalyzer(this.web3Client);
+    return analyzer.analyze(feedbacks, { parties, reviewerHistory });
+  }
+
   /**
    * Map subgraph feedback data to Feedback model
    */
@@ -644,7 +1132,8 @@ export class FeedbackManager {
     clientAddress: Address,
     feedbackIndex: number,
     responseUri: URI,
-    responseHash: string
+    responseHash: string,
+    options: TransactionOptions = {}
   ): Promise<string> {
     if (!this.reputationRegistry) {
       throw new Error('Reputation registry not available');
@@ -656,7 +1145,7 @@ export class FeedbackManager {
       const txHash = await this.web3Client.transactContract(
         this.reputationRegistry,
         'appendResponse',
-        {},
+        options,
         BigInt(tokenId),
         clientAddress,
         BigInt(feedbackIndex),
@@ -665,16 +1154,278 @@ export class FeedbackManager {
       );
 
       return txHash;
+    } catch (error) {
+      throw withErrorContext(error, 'Failed to append response');
+    }
+  }
+
+  /**
+   * Publish a structured response to feedback (e.g. a rebuttal, resolution or refund notice)
+   * The response file is stored on IPFS and committed on-chain with appendResponse
+   */
+  async respondToFeedback(
+    feedbackId: FeedbackId | FeedbackIdTuple,
+    response: FeedbackResponseContent,
+    options: TransactionOptions = {}
+  ): Promise<FeedbackResponse> {
+    if (!this.ipfsClient) {
+      throw new Error('Feedback responses require IPFS client for storage');
+    }
+
+    const [agentId, clientAddress, feedbackIndex] = this._parseFeedbackIdInput(feedbackId);
+    const responseFile = this.prepareResponse([agentId, clientAddress, feedbackIndex], response);
+
+    let responseUri: URI;
+    let responseHash: string;
+    try {
+      const cid = await this.ipfsClient.addJson(responseFile);
+      responseUri = `ipfs://${cid}`;
+      responseHash = computeFileHash(responseFile);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(`Failed to append response: ${errorMessage}`);
+      throw new IpfsUploadError(`Failed to store feedback response on IPFS: ${errorMessage}`, { cause: error });
     }
+
+    const txHash = await this.appendResponse(
+      agentId,
+      clientAddress,
+      feedbackIndex,
+      responseUri,
+      responseHash,
+      options
+    );
+
+    return {
+      feedbackId: [agentId, clientAddress, feedbackIndex],
+      responder: this.web3Client.address,
+      responseUri,
+      responseHash,
+      createdAt: Math.floor(Date.now() / 1000),
+      txHash,
+      ...this._parseResponseContent(responseFile),
+    };
+  }
+
+  /**
+   * Build a response file for feedback according to the same conventions as feedback files
+   */
+  prepareResponse(feedbackId: FeedbackIdTuple, response: FeedbackResponseContent): Record<string, unknown> {
+    const [agentId, clientAddress, feedbackIndex] = feedbackId;
+
+    if (typeof response.text !== 'string' || !response.text.trim()) {
+      throw new Error('Response text is required');
+    }
+    if (
+      response.resolution !== undefined &&
+      !(Object.values(FeedbackResolution) as string[]).includes(response.resolution)
+    ) {
+      throw new Error(
+        `Invalid resolution: ${response.resolution}. Expected one of ${Object.values(FeedbackResolution).join(', ')}`
+      );
+    }
+    if (response.refund !== undefined && (typeof response.refund.amount !== 'string' || !response.refund.amount)) {
+      throw new Error('Refund amount is required (decimal string)');
+    }
+    for (const attachment of response.attachments || []) {
+      if (typeof attachment.uri !== 'string' || !attachment.uri) {
+        throw new Error('Every attachment needs a uri');
+      }
+    }
+
+    const { tokenId } = parseAgentId(agentId);
+    const chainId = this.web3Client.chainId;
+    const identityRegistryAddress = this.identityRegistry
+      ? (this.identityRegistry.target as string)
+      : '0x0';
+
+    const responseData: Record<string, unknown> = {
+      agentRegistry: `eip155:${chainId}:${identityRegistryAddress}`,
+      agentId: tokenId,
+      clientAddress: `eip155:${chainId}:${clientAddress}`,
+      feedbackIndex,
+      responder: `eip155:${chainId}:${this.web3Client.address || '0x0'}`,
+      createdAt: new Date().toISOString(),
+      text: response.text,
+      resolution: response.resolution,
+      refund: response.refund,
+      attachments: response.attachments?.length ? response.attachments : undefined,
+    };
+
+    // Remove undefined values to keep the structure clean
+    const cleaned: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(responseData)) {
+      if (value !== undefined && value !== null) {
+        cleaned[key] = value;
+      }
+    }
+    return cleaned;
+  }
+
+  /**
+   * Resolve Feedback.answers into typed responses
+   * Each response file is downloaded and checked against its responseHash (hashVerified);
+   * answers whose file cannot be fetched are returned without the file fields
+   */
+  async getFeedbackResponses(feedback: Feedback): Promise<FeedbackResponse[]> {
+    return Promise.all(
+      feedback.answers.map(async (answer) => {
+        const responseHash: string | undefined = answer.responseHash || undefined;
+        const result: FeedbackResponse = {
+          feedbackId: feedback.id,
+          responder: answer.responder || undefined,
+          responseUri: answer.responseUri || undefined,
+          responseHash,
+          createdAt: typeof answer.createdAt === 'number' ? answer.createdAt : undefined,
+        };
+        if (!result.responseUri) {
+          return result;
+        }
+
+        let file: Record<string, unknown>;
+        try {
+          file = await this._fetchFile(result.responseUri);
+        } catch {
+          return result;
+        }
+        if (responseHash && responseHash !== ethers.ZeroHash) {
+          result.hashVerified = computeFileHash(file) === responseHash.toLowerCase();
+        }
+        return { ...result, ...this._parseResponseContent(file) };
+      })
+    );
+  }
+
+  /**
+   * Typed content fields of a response file (malformed fields are dropped)
+   */
+  private _parseResponseContent(file: Record<string, unknown>): Partial<FeedbackResponseContent> {
+    const content: Partial<FeedbackResponseContent> = {};
+    if (typeof file.text === 'string') {
+      content.text = file.text;
+    }
+    if ((Object.values(FeedbackResolution) as unknown[]).includes(file.resolution)) {
+      content.resolution = file.resolution as FeedbackResolution;
+    }
+    const refund = file.refund as FeedbackResponseContent['refund'] | undefined;
+    if (refund && typeof refund === 'object' && typeof refund.amount === 'string') {
+      content.refund = refund;
+    }
+    if (Array.isArray(file.attachments)) {
+      content.attachments = file.attachments.filter(
+        (attachment) => attachment && typeof attachment === 'object' && typeof attachment.uri === 'string'
+      );
+    }
+    return content;
+  }
+
+  /**
+   * Accept a FeedbackId string ("agentId:clientAddress:feedbackIndex") or tuple
+   */
+  private _parseFeedbackIdInput(feedbackId: FeedbackId | FeedbackIdTuple): FeedbackIdTuple {
+    if (Array.isArray(feedbackId)) {
+      const [agentId, clientAddress, feedbackIndex] = feedbackId;
+      const parsed = parseFeedbackId(formatFeedbackId(agentId, clientAddress, feedbackIndex));
+      return [parsed.agentId, parsed.clientAddress, parsed.feedbackIndex];
+    }
+    const parsed = parseFeedbackId(feedbackId);
+    return [parsed.agentId, parsed.clientAddress, parsed.feedbackIndex];
+  }
+
+  /**
+   * Check a feedback's proofOfPayment against the payment transaction on the given provider's chain
+   * Verified when the transaction succeeded and the reviewer sent native value or an ERC-20 Transfer
+   * to agentWallet in it; failed checks return verified: false with a reason instead of throwing
+   */
+  async verifyProofOfPayment(
+    feedback: Feedback,
+    agentWallet: Address,
+    provider: ethers.Provider = this.web3Client.provider
+  ): Promise<PaymentVerification> {
+    const proof = feedback.proofOfPayment || {};
+    const txHash = typeof proof.txHash === 'string' ? proof.txHash : undefined;
+    const chainId = proof.chainId !== undefined && proof.chainId !== null ? Number(proof.chainId) : undefined;
+    const result: PaymentVerification = { verified: false, chainId, txHash };
+
+    if (!txHash || !ethers.isHexString(txHash, 32)) {
+      return { ...result, reason: 'proofOfPayment has no valid txHash' };
+    }
+    if (!ethers.isAddress(agentWallet)) {
+      return { ...result, reason: `Invalid agent wallet: ${agentWallet}` };
+    }
+
+    const reviewer = feedback.reviewer.toLowerCase();
+    const wallet = agentWallet.toLowerCase();
+    if (typeof proof.fromAddress === 'string' && proof.fromAddress.toLowerCase() !== reviewer) {
+      return { ...result, reason: 'proofOfPayment fromAddress is not the reviewer' };
+    }
+    if (typeof proof.toAddress === 'string' && proof.toAddress.toLowerCase() !== wallet) {
+      return { ...result, reason: "proofOfPayment toAddress is not the agent's wallet" };
+    }
+
+    let receipt: ethers.TransactionReceipt | null;
+    let tx: ethers.TransactionResponse | null;
+    try {
+      const network = await provider.getNetwork();
+      if (chainId !== undefined && network.chainId !== BigInt(chainId)) {
+        throw new Error(`Provider is on chain ${network.chainId}, proof is for chain ${chainId}`);
+      }
+      [receipt, tx] = await Promise.all([
+        provider.getTransactionReceipt(txHash),
+        provider.getTransaction(txHash),
+      ]);
+    } catch (error) {
+      throw withErrorContext(error, `Failed to fetch payment transaction ${txHash}`);
+    }
+
+    if (!receipt || !tx) {
+      return { ...result, reason: 'Payment transaction not found (or not yet mined)' };
+    }
+    result.blockNumber = receipt.blockNumber;
+    if (receipt.status !== 1) {
+      return { ...result, reason: 'Payment transaction reverted' };
+    }
+
+    if (tx.value > 0n && tx.from.toLowerCase() === reviewer && tx.to?.toLowerCase() === wallet) {
+      return { ...result, verified: true, from: tx.from, to: tx.to, amount: tx.value };
+    }
+
+    // ERC-20 transfers from the reviewer to the wallet, summed per token
+    const amounts = new Map<string, bigint>();
+    for (const log of receipt.logs) {
+      if (log.topics.length !== 3 || log.topics[0] !== ERC20_TRANSFER_TOPIC) {
+        continue;
+      }
+      const from = ethers.dataSlice(log.topics[1], 12).toLowerCase();
+      const to = ethers.dataSlice(log.topics[2], 12).toLowerCase();
+      if (from === reviewer && to === wallet) {
+        const token = ethers.getAddress(log.address);
+        amounts.set(token, (amounts.get(token) ?? 0n) + BigInt(log.data));
+      }
+    }
+    for (const [token, amount] of amounts) {
+      if (amount > 0n) {
+        return {
+          ...result,
+          verified: true,
+          from: ethers.getAddress(reviewer),
+          to: ethers.getAddress(wallet),
+          token,
+          amount,
+        };
+      }
+    }
+
+    return { ...result, reason: "No payment from the reviewer to the agent's wallet in this transaction" };
   }
 
   /**
    * Revoke feedback
    */
-  async revokeFeedback(agentId: AgentId, feedbackIndex: number): Promise<string> {
+  async revokeFeedback(
+    agentId: AgentId,
+    feedbackIndex: number,
+    options: TransactionOptions = {}
+  ): Promise<string> {
     if (!this.reputationRegistry) {
       throw new Error('Reputation registry not available');
     }
@@ -684,25 +1435,187 @@ export class FeedbackManager {
     // Get client address (the one revoking - must be the reviewer)
     const clientAddress = this.web3Client.address;
     if (!clientAddress) {
-      throw new Error('No signer available');
+      throw new SignerRequiredError('No signer available');
     }
 
     try {
       const txHash = await this.web3Client.transactContract(
         this.reputationRegistry,
         'revokeFeedback',
-        {},
+        options,
         BigInt(tokenId),
         BigInt(feedbackIndex)
       );
 
       return txHash;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(`Failed to revoke feedback: ${errorMessage}`);
+      throw withErrorContext(error, 'Failed to revoke feedback');
     }
   }
 
+  /**
+   * Dry run of giveFeedback: simulate the registry call without uploading the file or broadcasting
+   * The feedback hash is computed locally; the URI is a stand-in when an IPFS client is configured
+   */
+  async simulateGiveFeedback(
+    agentId: AgentId,
+    feedbackFile: Record<string, unknown>,
+    feedbackAuth?: string,
+    options: TransactionOptions = {}
+  ): Promise<TransactionPlan> {
+    if (!this.reputationRegistry) {
+      throw new Error('Reputation registry not available');
+    }
+
+    // Work on a copy so the caller's file is left untouched
+    const file = { ...feedbackFile };
+    const { tokenId, authBytes, score, tag1, tag2 } = await this._prepareFeedbackSubmission(
+      agentId,
+      file,
+      feedbackAuth
+    );
+
+    let feedbackUri = '';
+    let feedbackHash = '0x' + '00'.repeat(32);
+    if (this.ipfsClient) {
+      feedbackUri = DEFAULTS.DRY_RUN_URI;
+      feedbackHash = computeFeedbackHash(file);
+    } else if (file.context || file.capability || file.name) {
+      throw new Error('Rich feedback data requires IPFS client for storage');
+    }
+
+    const call = await this.web3Client.simulateContract(
+      this.reputationRegistry,
+      'giveFeedback',
+      options,
+      BigInt(tokenId),
+      score,
+      tag1,
+      tag2,
+      feedbackUri,
+      feedbackHash,
+      ethers.getBytes(authBytes.startsWith('0x') ? authBytes : '0x' + authBytes)
+    );
+    return this.web3Client.toTransactionPlan([call]);
+  }
+
+  /**
+   * Dry run of appendResponse
+   */
+  async simulateAppendResponse(
+    agentId: AgentId,
+    clientAddress: Address,
+    feedbackIndex: number,
+    responseUri: URI,
+    responseHash: string,
+    options: TransactionOptions = {}
+  ): Promise<TransactionPlan> {
+    if (!this.reputationRegistry) {
+      throw new Error('Reputation registry not available');
+    }
+
+    const { tokenId } = parseAgentId(agentId);
+    const call = await this.web3Client.simulateContract(
+      this.reputationRegistry,
+      'appendResponse',
+      options,
+      BigInt(tokenId),
+      clientAddress,
+      BigInt(feedbackIndex),
+      responseUri,
+      responseHash
+    );
+    return this.web3Client.toTransactionPlan([call]);
+  }
+
+  /**
+   * Dry run of revokeFeedback
+   */
+  async simulateRevokeFeedback(
+    agentId: AgentId,
+    feedbackIndex: number,
+    options: TransactionOptions = {}
+  ): Promise<TransactionPlan> {
+    if (!this.reputationRegistry) {
+      throw new Error('Reputation registry not available');
+    }
+
+    const { tokenId } = parseAgentId(agentId);
+    const call = await this.web3Client.simulateContract(
+      this.reputationRegistry,
+      'revokeFeedback',
+      options,
+      BigInt(tokenId),
+      BigInt(feedbackIndex)
+    );
+    return this.web3Client.toTransactionPlan([call]);
+  }
+
+  /**
+   * Resolve feedback index and auth for a giveFeedback call and derive its on-chain fields
+   * Writes the auth into feedbackFile
+   */
+  private async _prepareFeedbackSubmission(
+    agentId: AgentId,
+    feedbackFile: Record<string, unknown>,
+    feedbackAuth?: string
+  ): Promise<{
+    tokenId: number;
+    clientAddress: Address;
+    feedbackIndex: number;
+    authBytes: string;
+    score: number;
+    tag1: string;
+    tag2: string;
+  }> {
+    // Parse agent ID
+    const { tokenId } = parseAgentId(agentId);
+
+    // Get client address (the one giving feedback)
+    const clientAddress = this.web3Client.address;
+    if (!clientAddress) {
+      throw new SignerRequiredError('No signer available. Cannot give feedback without a wallet.');
+    }
+
+    // Get current feedback index for this client-agent pair
+    let feedbackIndex: number;
+    try {
+      if (!this.reputationRegistry) {
+        throw new Error('Reputation registry not available');
+      }
+      const lastIndex = await this.web3Client.callContract(
+        this.reputationRegistry,
+        'getLastIndex',
+        BigInt(tokenId),
+        clientAddress
+      );
+      feedbackIndex = Number(lastIndex) + 1;
+    } catch (error) {
+      throw withErrorContext(error, 'Failed to get feedback index');
+    }
+
+    // Prepare feedback auth (use provided auth or create new one)
+    let authBytes: string;
+    if (feedbackAuth) {
+      authBytes = feedbackAuth;
+    } else {
+      const authHex = await this.signFeedbackAuth(agentId, clientAddress, feedbackIndex, 24);
+      authBytes = authHex;
+    }
+
+    // Update feedback file with auth
+    feedbackFile.feedbackAuth = authBytes.startsWith('0x') ? authBytes : '0x' + authBytes;
+
+    // Prepare on-chain data (only basic fields, no capability/endpoint)
+    const score = feedbackFile.score !== undefined ? Number(feedbackFile.score) : 0;
+    const tag1Str = typeof feedbackFile.tag1 === 'string' ? feedbackFile.tag1 : '';
+    const tag2Str = typeof feedbackFile.tag2 === 'string' ? feedbackFile.tag2 : '';
+    const tag1 = this._stringToBytes32(tag1Str);
+    const tag2 = this._stringToBytes32(tag2Str);
+
+    return { tokenId, clientAddress, feedbackIndex, authBytes, score, tag1, tag2 };
+  }
+
   /**
    * Convert string to bytes32 for blockchain storage
    */
@@ -755,12 +1668,21 @@ export class FeedbackManager {
   /**
    * Get reputation summary
    * Supports chainId:agentId format
+   * With a reputation model, the summary also carries the model's score (requires a subgraph)
+   * excludeFlagged drops feedback FeedbackAnalyzer flags (any flag, or only the listed ones; requires a subgraph)
    */
   async getReputationSummary(
     agentId: AgentId,
     tag1?: string,
-    tag2?: string
-  ): Promise<{ count: number; averageScore: number }> {
+    tag2?: string,
+    model?: ReputationModel | ReputationModelName,
+    options: { excludeFlagged?: boolean | FeedbackFlag[] } = {}
+  ): Promise<ReputationSummary> {
+    const reputationModel = model !== undefined ? resolveReputationModel(model) : undefined;
+    const { excludeFlagged } = options;
+    // Both need per-feedback data, which only the subgraph provides
+    const needsFeedbackDetail = reputationModel !== undefined || !!excludeFlagged;
+
     // Parse chainId from agentId
     let chainId: number | undefined;
     let fullAgentId: string;
@@ -795,16 +1717,11 @@ export class FeedbackManager {
     if (subgraphClient) {
       try {
         // Use subgraph to calculate reputation
-        // Query feedback for this agent
-        const feedbacksData = await subgraphClient.searchFeedback(
-            {
-              agents: [fullAgentId],
-            },
-            1000, // first
-            0, // skip
-            'createdAt',
-            'desc'
-          );
+        // Query all feedback for this agent, page by page
+        const feedbacksData: SubgraphFeedbackRow[] = [];
+        for await (const fb of this._iterateSubgraphFeedback(subgraphClient, { agents: [fullAgentId] })) {
+          feedbacksData.push(fb);
+        }
 
           // Filter by tags if provided
           let filteredFeedbacks = feedbacksData;
@@ -824,8 +1741,24 @@ export class FeedbackManager {
           }
 
           // Filter out revoked feedback
-          const validFeedbacks = filteredFeedbacks.filter((fb: any) => !fb.isRevoked);
+          let validFeedbacks = filteredFeedbacks.filter((fb: any) => !fb.isRevoked);
+
+          let feedbacks: Feedback[] = [];
+          if (needsFeedbackDetail) {
+            feedbacks = validFeedbacks.map((fb) =>
+              this._mapSubgraphFeedbackToModel(fb, fullAgentId, fb.clientAddress || '', 0)
+            );
+          }
+          if (excludeFlagged) {
+            await this._analyzeFeedback(feedbacks, subgraphClient);
+            const keep = feedbacks.map((fb) =>
+              (fb.flags || []).every((flag) => Array.isArray(excludeFlagged) && !excludeFlagged.includes(flag))
+            );
+            validFeedbacks = validFeedbacks.filter((_fb, i) => keep[i]);
+            feedbacks = feedbacks.filter((_fb, i) => keep[i]);
+          }
 
+          let summary: ReputationSummary = { count: 0, averageScore: 0 };
           if (validFeedbacks.length > 0) {
             const scores = validFeedbacks
               .map((fb: any) => fb.score)
@@ -834,19 +1767,42 @@ export class FeedbackManager {
             if (scores.length > 0) {
               const sum = scores.reduce((a: number, b: number) => a + b, 0);
               const averageScore = sum / scores.length;
-              return {
+              summary = {
                 count: validFeedbacks.length,
                 averageScore: Math.round(averageScore * 100) / 100, // Round to 2 decimals
               };
             }
           }
 
-        return { count: 0, averageScore: 0 };
+        if (reputationModel) {
+          const context: ReputationModelContext = { now: Math.floor(Date.now() / 1000) };
+          if (reputationModel.needsReviewerHistory) {
+            context.reviewerHistory = await this._loadReviewerHistory(
+              subgraphClient,
+              feedbacks.map((fb) => fb.reviewer)
+            );
+          }
+          if (reputationModel.needsPaymentVerification) {
+            context.paymentVerification = await this._verifyPayments(fullAgentId, feedbacks);
+          }
+          summary.model = reputationModel.name;
+          summary.score = reputationModel.score(feedbacks, context);
+        }
+        return summary;
       } catch (error) {
+        if (needsFeedbackDetail) {
+          throw withErrorContext(error, 'Failed to load feedback details for reputation summary');
+        }
         // Fall through to blockchain query if subgraph fails
       }
     }
 
+    if (needsFeedbackDetail) {
+      throw new Error(
+        'Reputation models and excludeFlagged require a subgraph (per-feedback reviewers, timestamps and payments)'
+      );
+    }
+
     // Fallback to blockchain query (requires matching chain)
     if (!this.reputationRegistry) {
       throw new Error('Reputation registry not available');
@@ -891,9 +1847,53 @@ export class FeedbackManager {
         averageScore: Number(averageScore),
       };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(`Failed to get reputation summary: ${errorMessage}`);
+      throw withErrorContext(error, 'Failed to get reputation summary');
+    }
+  }
+
+  /**
+   * Verify the proofOfPayment of each feedback that has one
+   */
+  private async _verifyPayments(
+    agentId: AgentId,
+    feedbacks: Feedback[]
+  ): Promise<Map<Feedback, PaymentVerification>> {
+    const withProof = feedbacks.filter((fb) => fb.proofOfPayment?.txHash);
+    if (withProof.length === 0) {
+      return new Map();
+    }
+    if (!this.paymentVerifier) {
+      throw new Error('Payment-weighted reputation models need a payment verifier (setPaymentVerifier)');
+    }
+    const results = await this.paymentVerifier(agentId, withProof);
+    return new Map(withProof.map((fb, i) => [fb, results[i]]));
+  }
+
+  /**
+   * Feedback given by each reviewer across all agents
+   */
+  private async _loadReviewerHistory(
+    subgraphClient: SubgraphClient,
+    reviewers: Address[]
+  ): Promise<Map<string, ReviewerHistory>> {
+    const history = new Map<string, ReviewerHistory>();
+    const unique = [...new Set(reviewers.map((reviewer) => reviewer.toLowerCase()))];
+    if (unique.length === 0) {
+      return history;
+    }
+
+    const agentsByReviewer = new Map<string, Set<string>>();
+    for await (const fb of this._iterateSubgraphFeedback(subgraphClient, { reviewers: unique })) {
+      const reviewer = String(fb.clientAddress || '').toLowerCase();
+      const agents = agentsByReviewer.get(reviewer) || new Set<string>();
+      agents.add(fb.agent?.id ?? '');
+      agentsByReviewer.set(reviewer, agents);
+      const entry = history.get(reviewer) || { feedbackCount: 0, agentCount: 0 };
+      entry.feedbackCount += 1;
+      entry.agentCount = agents.size;
+      history.set(reviewer, entry);
     }
+    return history;
   }
 }
 
@@ -3,11 +3,21 @@
  * Simplified version focused on subgraph queries (no local ML indexing)
  */
 
-import type { AgentSummary, SearchParams, SearchResultMeta } from '../models/interfaces.js';
-import type { AgentId, ChainId } from '../models/types.js';
+import type {
+  AgentSummary,
+  SearchParams,
+  SearchResultMeta,
+  SearchValidationsParams,
+  ValidatedAgentParams,
+  ValidationStatus,
+} from '../models/interfaces.js';
+import type { Address, AgentId, ChainId } from '../models/types.js';
+import { TrustModel } from '../models/enums.js';
 import type { Web3Client } from './web3-client.js';
 import { SubgraphClient } from './subgraph-client.js';
 import { normalizeAddress } from '../utils/validation.js';
+import { formatAgentId, parseAgentId } from '../utils/id-format.js';
+import { DEFAULTS, TIMEOUTS } from '../utils/constants.js';
 import { DEFAULT_SUBGRAPH_URLS } from './contracts.js';
 
 /**
@@ -866,5 +876,236 @@ export class AgentIndexer {
       },
     };
   }
-}
 
+  /**
+   * Search validations
+   * Uses multi-chain search when chains are given, or when agents span chains other than the default
+   * Agent IDs without a chain prefix belong to the default chain, or to every queried chain without one
+   */
+  async searchValidations(
+    params: SearchValidationsParams = {},
+    pageSize: number = 50,
+    cursor?: string,
+    defaultChainId?: ChainId
+  ): Promise<{ items: ValidationStatus[]; nextCursor?: string; meta?: SearchResultMeta }> {
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize >= DEFAULTS.SUBGRAPH_PAGE_SIZE) {
+      throw new Error(`pageSize must be an integer between 1 and ${DEFAULTS.SUBGRAPH_PAGE_SIZE - 1}`);
+    }
+    const searchParams: SearchValidationsParams = { ...params };
+
+    // Handle "all" chains shorthand
+    let chainsToQuery: ChainId[] | undefined;
+    if (searchParams.chains === 'all') {
+      chainsToQuery = this._getAllConfiguredChains();
+    } else if (searchParams.chains && Array.isArray(searchParams.chains) && searchParams.chains.length > 0) {
+      chainsToQuery = searchParams.chains;
+    } else if (searchParams.agents && searchParams.agents.length > 0) {
+      // Derive chains from chainId:tokenId agent IDs; unprefixed IDs are on the default chain
+      if (defaultChainId !== undefined) {
+        searchParams.agents = searchParams.agents.map((aid) =>
+          aid.includes(':') ? aid : formatAgentId(defaultChainId, parseInt(aid, 10))
+        );
+      }
+      const agentChains = new Set(
+        searchParams.agents.filter((aid) => aid.includes(':')).map((aid) => parseAgentId(aid).chainId)
+      );
+      if (agentChains.size > 1 || (agentChains.size === 1 && !agentChains.has(defaultChainId ?? -1))) {
+        chainsToQuery = [...agentChains];
+      }
+    }
+
+    if (chainsToQuery && chainsToQuery.length > 0) {
+      return this._searchValidationsAcrossChains(searchParams, chainsToQuery, pageSize, cursor);
+    }
+
+    // Single-chain search
+    if (!this.subgraphClient) {
+      throw new Error('Subgraph client required for validation search');
+    }
+
+    const skip = cursor ? parseInt(cursor, 10) : 0;
+    delete searchParams.chains;
+
+    // Fetch one extra record to check if there's a next page
+    const validations = await this.subgraphClient.searchValidations(searchParams, pageSize + 1, skip);
+    const hasMore = validations.length > pageSize;
+
+    return {
+      items: hasMore ? validations.slice(0, pageSize) : validations,
+      nextCursor: hasMore ? String(skip + pageSize) : undefined,
+    };
+  }
+
+  /**
+   * Search agents whose validation-backed trust claims have at least one validator response
+   * Agents are searched with params, then kept if they claim one of the trust models and a matching
+   * validation was answered; filtering applies within the page. Each result gets extras.validatedBy,
+   * the validators among the responses scanned (newest first, one subgraph page per round; each
+   * round only asks for agents not seen yet, so there are at most one round per agent plus one)
+   */
+  async searchValidatedAgents(
+    params: SearchParams = {},
+    validation: ValidatedAgentParams = {},
+    pageSize: number = 50,
+    cursor?: string,
+    sort: string[] = [],
+    defaultChainId?: ChainId
+  ): Promise<{ items: AgentSummary[]; nextCursor?: string; meta?: SearchResultMeta }> {
+    const { trustModels = [TrustModel.CRYPTO_ECONOMIC, TrustModel.TEE_ATTESTATION], ...filters } = validation;
+
+    const page = await this.searchAgents(params, pageSize, cursor, sort);
+    const claimants = page.items.filter((agent) =>
+      trustModels.some((trust) => (agent.supportedTrusts || []).includes(trust))
+    );
+
+    const validatedBy = new Map<AgentId, Set<Address>>();
+    let unseen = claimants.map((agent) => agent.agentId);
+    while (unseen.length > 0) {
+      const { items, nextCursor } = await this.searchValidations(
+        { ...filters, agents: unseen, status: 'responded' },
+        DEFAULTS.SUBGRAPH_PAGE_SIZE - 1,
+        undefined,
+        defaultChainId
+      );
+      for (const item of items) {
+        if (!item.agentId || !item.validatorAddress) {
+          continue;
+        }
+        const validators = validatedBy.get(item.agentId) ?? new Set<Address>();
+        validators.add(item.validatorAddress);
+        validatedBy.set(item.agentId, validators);
+      }
+      // A short page means every remaining agent's responses were scanned
+      unseen = nextCursor ? unseen.filter((agentId) => !validatedBy.has(agentId)) : [];
+    }
+
+    return {
+      ...page,
+      items: claimants
+        .filter((agent) => validatedBy.has(agent.agentId))
+        .map((agent) => ({
+          ...agent,
+          extras: { ...agent.extras, validatedBy: [...validatedBy.get(agent.agentId)!] },
+        })),
+    };
+  }
+
+  /**
+   * Search validations across multiple chains in parallel and merge them newest first
+   * The cursor holds a position per chain (null once a chain is exhausted), so each page continues
+   * every chain where the previous page left off and asks no chain for more than one page
+   */
+  private async _searchValidationsAcrossChains(
+    params: SearchValidationsParams,
+    chains: ChainId[],
+    pageSize: number,
+    cursor?: string,
+    timeout: number = TIMEOUTS.MULTI_CHAIN_QUERY
+  ): Promise<{ items: ValidationStatus[]; nextCursor?: string; meta: SearchResultMeta }> {
+    const startTime = Date.now();
+    const positions = cursor ? this._decodeMultiChainValidationCursor(cursor) : {};
+
+    // Define async function for querying a single chain
+    const querySingleChain = async (chainId: ChainId): Promise<{
+      status: 'success' | 'error' | 'timeout' | 'unavailable';
+      validations: ValidationStatus[];
+    }> => {
+      const skip = positions[chainId];
+      if (skip === null) {
+        return { status: 'success', validations: [] };
+      }
+      const subgraphClient = this._getSubgraphClientForChain(chainId);
+      if (!subgraphClient) {
+        return { status: 'unavailable', validations: [] };
+      }
+
+      // Only pass the agents that live on this chain; unprefixed IDs are looked up on every chain
+      const chainParams: SearchValidationsParams = { ...params };
+      delete chainParams.chains;
+      if (params.agents && params.agents.length > 0) {
+        chainParams.agents = params.agents
+          .map((aid) => (aid.includes(':') ? aid : formatAgentId(chainId, parseInt(aid, 10))))
+          .filter((aid) => parseAgentId(aid).chainId === chainId);
+        if (chainParams.agents.length === 0) {
+          return { status: 'success', validations: [] };
+        }
+      }
+
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      try {
+        return await Promise.race([
+          subgraphClient.searchValidations(chainParams, pageSize, skip ?? 0).then((validations) => ({
+            status: 'success' as const,
+            validations,
+          })),
+          new Promise<{ status: 'timeout'; validations: ValidationStatus[] }>((resolve) => {
+            timer = setTimeout(() => resolve({ status: 'timeout', validations: [] }), timeout);
+          }),
+        ]);
+      } catch {
+        return { status: 'error', validations: [] };
+      } finally {
+        clearTimeout(timer);
+      }
+    };
+
+    const results = await Promise.all(chains.map(querySingleChain));
+    const successfulChains = chains.filter((_chainId, i) => results[i].status === 'success');
+    const failedChains = chains.filter((_chainId, i) => results[i].status !== 'success');
+
+    // Newest first across chains, then by chain and request hash for a stable order
+    const merged = results
+      .flatMap((result, i) => result.validations.map((validation) => ({ chainIndex: i, validation })))
+      .sort(
+        (a, b) =>
+          (b.validation.requestedAt ?? 0) - (a.validation.requestedAt ?? 0) ||
+          chains[a.chainIndex] - chains[b.chainIndex] ||
+          a.validation.requestHash.localeCompare(b.validation.requestHash)
+      );
+    const taken = merged.slice(0, pageSize);
+
+    // Advance each chain past the validations it contributed to this page
+    const nextPositions: Record<string, number | null> = {};
+    results.forEach((result, i) => {
+      const chainId = chains[i];
+      const consumed = taken.filter((entry) => entry.chainIndex === i).length;
+      const exhausted =
+        positions[chainId] === null ||
+        (result.status === 'success' && result.validations.length < pageSize && consumed === result.validations.length);
+      nextPositions[chainId] = exhausted ? null : (positions[chainId] ?? 0) + consumed;
+    });
+    const hasMore = taken.length > 0 && Object.values(nextPositions).some((position) => position !== null);
+
+    const queryTime = Date.now() - startTime;
+
+    return {
+      items: taken.map((entry) => entry.validation),
+      nextCursor: hasMore ? JSON.stringify({ chains: nextPositions }) : undefined,
+      meta: {
+        chains,
+        successfulChains,
+        failedChains,
+        totalResults: merged.length,
+        timing: {
+          totalMs: queryTime,
+          averagePerChainMs: chains.length > 0 ? Math.floor(queryTime / chains.length) : undefined,
+        },
+      },
+    };
+  }
+
+  private _decodeMultiChainValidationCursor(cursor: string): Record<string, number | null> {
+    try {
+      const chains = JSON.parse(cursor)?.chains;
+      if (
+        chains && typeof chains === 'object' &&
+        Object.values(chains).every((position) => position === null || Number.isInteger(position))
+      ) {
+        return chains as Record<string, number | null>;
+      }
+    } catch {
+      // Reported below
+    }
+    throw new Error(`Invalid validation cursor: ${cursor}`);
+  }
+}
@@ -8,6 +8,10 @@
 import type { IPFSHTTPClient } from 'ipfs-http-client';
 import type { RegistrationFile } from '../models/interfaces.js';
 import { IPFS_GATEWAYS, TIMEOUTS } from '../utils/constants.js';
+import { canonicalize } from '../utils/canonical-json.js';
+import { InvalidRegistrationFileError, IpfsUploadError } from './errors.js';
+import { formatRegistrationIssues, validateRegistrationFile } from './registration-schema.js';
+import { decodeRegistrationFile, encodeRegistrationFile } from './registration-codec.js';
 
 export interface IPFSClientConfig {
   url?: string; // IPFS node URL (e.g., "http://localhost:5001")
@@ -154,10 +158,12 @@ export class IPFSClient {
       return cid;
     } catch (error: unknown) {
       if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error(`Pinata upload timed out after ${TIMEOUTS.PINATA_UPLOAD / 1000} seconds`);
+        throw new IpfsUploadError(`Pinata upload timed out after ${TIMEOUTS.PINATA_UPLOAD / 1000} seconds`, {
+          cause: error,
+        });
       }
       const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(`Failed to pin to Pinata: ${errorMessage}`);
+      throw new IpfsUploadError(`Failed to pin to Pinata: ${errorMessage}`, { cause: error });
     }
   }
 
@@ -201,7 +207,11 @@ export class IPFSClient {
         return await this._pinToLocalIpfs(data);
       }
     } catch (error) {
-      throw error;
+      if (error instanceof IpfsUploadError) {
+        throw error;
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new IpfsUploadError(`Failed to add data to IPFS: ${errorMessage}`, { cause: error });
     }
   }
 
@@ -342,73 +352,30 @@ export class IPFSClient {
 
   /**
    * Add JSON data to IPFS and return CID
+   * Stored as canonical JSON (RFC 8785), so the same document always gets the same CID and the
+   * stored bytes are exactly what feedback / validation hashes commit to
    */
   async addJson(data: Record<string, unknown>): Promise<string> {
-    const jsonStr = JSON.stringify(data, null, 2);
-    return this.add(jsonStr);
+    return this.add(canonicalize(data));
   }
 
   /**
    * Add registration file to IPFS and return CID
+   * The file is validated against the registration-v1 schema first; errors abort the upload
    */
   async addRegistrationFile(
     registrationFile: RegistrationFile,
     chainId?: number,
     identityRegistryAddress?: string
   ): Promise<string> {
-    // Convert from internal format { type, value, meta } to ERC-8004 format { name, endpoint, version }
-    const endpoints: Array<Record<string, unknown>> = [];
-    for (const ep of registrationFile.endpoints) {
-      const endpointDict: Record<string, unknown> = {
-        name: ep.type, // EndpointType enum value (e.g., "MCP", "A2A")
-        endpoint: ep.value,
-      };
-      
-      // Spread meta fields (version, mcpTools, mcpPrompts, etc.) into the endpoint dict
-      if (ep.meta) {
-        Object.assign(endpointDict, ep.meta);
-      }
-      
-      endpoints.push(endpointDict);
-    }
-    
-    // Add walletAddress as an endpoint if present
-    if (registrationFile.walletAddress) {
-      const walletChainId = registrationFile.walletChainId || chainId || 1;
-      endpoints.push({
-        name: 'agentWallet',
-        endpoint: `eip155:${walletChainId}:${registrationFile.walletAddress}`,
-      });
-    }
-    
-    // Build registrations array
-    const registrations: Array<Record<string, unknown>> = [];
-    if (registrationFile.agentId) {
-      const [, , tokenId] = registrationFile.agentId.split(':');
-      const agentRegistry = chainId && identityRegistryAddress
-        ? `eip155:${chainId}:${identityRegistryAddress}`
-        : `eip155:1:{identityRegistry}`;
-      registrations.push({
-        agentId: parseInt(tokenId, 10),
-        agentRegistry,
-      });
+    const data = encodeRegistrationFile(registrationFile, chainId, identityRegistryAddress);
+    const validation = validateRegistrationFile(data);
+    if (!validation.valid) {
+      throw new InvalidRegistrationFileError(
+        `Registration file does not match the registration-v1 schema:\n${formatRegistrationIssues(validation.errors)}`,
+        { issues: validation.errors }
+      );
     }
-    
-    // Build ERC-8004 compliant registration file
-    const data = {
-      type: 'https://eips.ethereum.org/EIPS/eip-8004#registration-v1',
-      name: registrationFile.name,
-      description: registrationFile.description,
-      ...(registrationFile.image && { image: registrationFile.image }),
-      endpoints,
-      ...(registrations.length > 0 && { registrations }),
-      ...(registrationFile.trustModels.length > 0 && {
-        supportedTrusts: registrationFile.trustModels,
-      }),
-      active: registrationFile.active,
-      x402support: registrationFile.x402support,
-    };
-    
     return this.addJson(data);
   }
 
@@ -416,8 +383,7 @@ export class IPFSClient {
    * Get registration file from IPFS by CID
    */
   async getRegistrationFile(cid: string): Promise<RegistrationFile> {
-    const data = await this.getJson<RegistrationFile>(cid);
-    return data;
+    return decodeRegistrationFile(await this.getJson(cid));
   }
 
   /**
@@ -431,4 +397,3 @@ export class IPFSClient {
     }
   }
 }
-
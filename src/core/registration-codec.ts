@@ -0,0 +1,171 @@
+/**
+ * Conversion between RegistrationFile and the ERC-8004 registration file JSON
+ * Both directions live here so that loading and republishing an agent keeps everything in the file,
+ * including fields written by other tools
+ */
+
+import type { Endpoint, RegistrationFile } from '../models/interfaces.js';
+import type { TrustModel } from '../models/enums.js';
+import { EndpointType } from '../models/enums.js';
+import { parseAgentId } from '../utils/id-format.js';
+import { parseCaip10Account } from '../utils/metadata.js';
+import { REGISTRATION_FILE_TYPE } from './registration-schema.js';
+
+// Endpoint names mapped to EndpointType regardless of case
+const ENDPOINT_TYPES: Record<string, EndpointType> = {
+  mcp: EndpointType.MCP,
+  a2a: EndpointType.A2A,
+  ens: EndpointType.ENS,
+  did: EndpointType.DID,
+  oasf: EndpointType.OASF,
+  agentwallet: EndpointType.WALLET,
+  wallet: EndpointType.WALLET,
+};
+
+// Top-level keys decoded into RegistrationFile fields; everything else is kept in extras.
+// supportedTrusts / trustModels and walletAddress / walletChainId are older spellings, rewritten on encode.
+// metadata and updatedAt are decoded only when set (non-empty object / positive number)
+const DECODED_KEYS = new Set([
+  'type',
+  'name',
+  'description',
+  'image',
+  'endpoints',
+  'supportedTrust',
+  'supportedTrusts',
+  'trustModels',
+  'active',
+  'x402support',
+  'previousVersion',
+  'walletAddress',
+  'walletChainId',
+]);
+
+/**
+ * Build the ERC-8004 registration file JSON published for an agent
+ * Registrations for other registries and extras are written back unchanged
+ */
+export function encodeRegistrationFile(
+  registrationFile: RegistrationFile,
+  chainId?: number,
+  identityRegistryAddress?: string
+): Record<string, unknown> {
+  const { registrations: keptRegistrations, ...extras } = registrationFile.extras ?? {};
+
+  // Internal { type, value, meta } to ERC-8004 { name, endpoint, ...meta } (version, skills, mcpTools, ...)
+  const endpoints: Array<Record<string, unknown>> = registrationFile.endpoints.map((ep) => ({
+    ...ep.meta,
+    name: ep.type,
+    endpoint: ep.value,
+  }));
+  if (registrationFile.walletAddress) {
+    const walletChainId = registrationFile.walletChainId || chainId || 1;
+    endpoints.push({
+      name: 'agentWallet',
+      endpoint: `eip155:${walletChainId}:${registrationFile.walletAddress}`,
+    });
+  }
+
+  // This agent's entry replaces any entry for the same registry; other chains' entries are kept in place
+  let registrations: unknown[] = Array.isArray(keptRegistrations) ? keptRegistrations : [];
+  if (registrationFile.agentId) {
+    const { tokenId } = parseAgentId(registrationFile.agentId);
+    const agentRegistry = chainId && identityRegistryAddress
+      ? `eip155:${chainId}:${identityRegistryAddress}`
+      : `eip155:1:{identityRegistry}`;
+    const isOwnRegistry = (entry: unknown) =>
+      String((entry as Record<string, unknown> | null)?.agentRegistry).toLowerCase() === agentRegistry.toLowerCase();
+    const position = registrations.findIndex(isOwnRegistry);
+    registrations = registrations.filter((entry) => !isOwnRegistry(entry));
+    registrations.splice(Math.max(position, 0), 0, { agentId: tokenId, agentRegistry });
+  }
+
+  return {
+    ...extras,
+    type: REGISTRATION_FILE_TYPE,
+    name: registrationFile.name,
+    description: registrationFile.description,
+    ...(registrationFile.image && { image: registrationFile.image }),
+    endpoints,
+    ...((registrations.length > 0 || Array.isArray(keptRegistrations)) && { registrations }),
+    ...(registrationFile.trustModels.length > 0 && { supportedTrust: registrationFile.trustModels }),
+    active: registrationFile.active,
+    x402support: registrationFile.x402support,
+    ...(registrationFile.previousVersion && { previousVersion: registrationFile.previousVersion }),
+    ...(Object.keys(registrationFile.metadata).length > 0 && { metadata: registrationFile.metadata }),
+    ...(registrationFile.updatedAt > 0 && { updatedAt: registrationFile.updatedAt }),
+  };
+}
+
+/**
+ * Read a registration file JSON (as published) into a RegistrationFile
+ * Also accepts older SDK output: supportedTrusts / trustModels, top-level walletAddress / walletChainId
+ * and endpoints already in { type, value, meta } form
+ * agentId, agentURI, owners and operators come from the chain and are left for the caller
+ * updatedAt is 0 when the file does not record it
+ */
+export function decodeRegistrationFile(json: Record<string, unknown>): RegistrationFile {
+  const endpoints: Endpoint[] = [];
+  let wallet: { chainId: number; address: string } | undefined;
+
+  for (const raw of Array.isArray(json.endpoints) ? json.endpoints : []) {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      continue;
+    }
+    if (typeof raw.type === 'string' && raw.value !== undefined) {
+      endpoints.push({ type: raw.type as EndpointType, value: String(raw.value), meta: raw.meta });
+      continue;
+    }
+
+    const { name, endpoint, ...meta } = raw as Record<string, unknown>;
+    const rawName = typeof name === 'string' ? name : '';
+    const value = typeof endpoint === 'string' ? endpoint : '';
+    const type = ENDPOINT_TYPES[rawName.toLowerCase()];
+
+    // The first parsable agentWallet becomes walletAddress / walletChainId (and is re-encoded last)
+    const account = type === EndpointType.WALLET && !wallet ? parseCaip10Account(value) : null;
+    if (account && Object.keys(meta).length === 0) {
+      wallet = account;
+      continue;
+    }
+    endpoints.push({
+      type: (type && type !== EndpointType.WALLET ? type : rawName) as EndpointType,
+      value,
+      ...(Object.keys(meta).length > 0 && { meta }),
+    });
+  }
+  if (!wallet && typeof json.walletAddress === 'string' && typeof json.walletChainId === 'number') {
+    wallet = { chainId: json.walletChainId, address: json.walletAddress };
+  }
+
+  const trusts = [json.supportedTrust, json.supportedTrusts, json.trustModels].find(Array.isArray) ?? [];
+  const metadata =
+    typeof json.metadata === 'object' && json.metadata !== null && !Array.isArray(json.metadata)
+      ? (json.metadata as Record<string, unknown>)
+      : {};
+  const updatedAt = typeof json.updatedAt === 'number' && json.updatedAt > 0 ? json.updatedAt : 0;
+  const decodedKeys = new Set([
+    ...DECODED_KEYS,
+    ...(Object.keys(metadata).length > 0 ? ['metadata'] : []),
+    ...(updatedAt > 0 ? ['updatedAt'] : []),
+  ]);
+  const extras = Object.fromEntries(Object.entries(json).filter(([key]) => !decodedKeys.has(key)));
+
+  return {
+    name: typeof json.name === 'string' ? json.name : '',
+    description: typeof json.description === 'string' ? json.description : '',
+    image: typeof json.image === 'string' ? json.image : undefined,
+    walletAddress: wallet?.address,
+    walletChainId: wallet?.chainId,
+    endpoints,
+    trustModels: trusts.filter((trust): trust is TrustModel | string => typeof trust === 'string'),
+    owners: [],
+    operators: [],
+    active: typeof json.active === 'boolean' ? json.active : false,
+    x402support: typeof json.x402support === 'boolean' ? json.x402support : false,
+    metadata: { ...metadata },
+    updatedAt,
+    ...(typeof json.previousVersion === 'string' && { previousVersion: json.previousVersion }),
+    ...(Object.keys(extras).length > 0 && { extras }),
+  };
+}
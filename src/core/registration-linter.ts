@@ -0,0 +1,262 @@
+/**
+ * Best-practice lint rules for ERC-8004 registration files
+ * Complements registration-schema.ts: a file can be schema-valid and still be a poor registration
+ */
+
+import type { AgentId } from '../models/types.js';
+import { TrustModel } from '../models/enums.js';
+import { IPFS_GATEWAYS, TIMEOUTS } from '../utils/constants.js';
+import { parseAgentId } from '../utils/id-format.js';
+import { validateSkill, validateDomain } from './oasf-validator.js';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export interface LintIssue {
+  ruleId: string;
+  severity: LintSeverity;
+  path: string; // JSON Pointer into the file, e.g. /endpoints/0/endpoint
+  message: string;
+}
+
+/**
+ * Where the file is published; rules that need a missing field are skipped
+ */
+export interface LintContext {
+  agentId?: AgentId; // Token the file belongs to ("chainId:tokenId"); enables registration-mismatch
+  identityRegistry?: string; // Identity registry address on the agent's chain
+  hasValidation?: (agentId: AgentId) => Promise<boolean>; // Enables tee-without-validation
+  timeout: number; // Milliseconds per network check
+}
+
+export interface LintRule {
+  id: string;
+  description: string;
+  defaultSeverity: LintSeverity;
+  network?: boolean; // Makes HTTP requests (skipped with offline)
+  check(file: Record<string, unknown>, context: LintContext): Promise<Array<{ path: string; message: string }>>;
+}
+
+export interface LintOptions extends Partial<LintContext> {
+  rules?: Record<string, LintSeverity | 'off'>; // Severity override or 'off', by rule ID
+  offline?: boolean; // Skip rules that make network requests
+}
+
+const endpointRule = (
+  id: string,
+  description: string,
+  defaultSeverity: LintSeverity,
+  network: boolean,
+  check: (endpoint: Record<string, unknown>, path: string, context: LintContext) => Promise<string | undefined>
+): LintRule => ({
+  id,
+  description,
+  defaultSeverity,
+  network,
+  async check(file, context) {
+    const findings = await Promise.all(
+      endpointsOf(file).map(async ({ endpoint, path }) => {
+        const message = await check(endpoint, path, context);
+        return message ? { path: `${path}/endpoint`, message } : undefined;
+      })
+    );
+    return findings.filter((finding): finding is { path: string; message: string } => finding !== undefined);
+  },
+});
+
+/**
+ * Built-in rules, in reporting order
+ */
+export const LINT_RULES: LintRule[] = [
+  endpointRule('endpoint-insecure', 'MCP / A2A endpoints should use HTTPS', 'warning', false, async (ep) =>
+    isServiceEndpoint(ep) && !String(ep.endpoint).startsWith('https://')
+      ? `${ep.name} endpoint ${ep.endpoint} does not use HTTPS`
+      : undefined
+  ),
+  endpointRule(
+    'endpoint-unreachable',
+    'MCP / A2A endpoints should answer HTTP requests',
+    'warning',
+    true,
+    async (ep, _path, context) => {
+      if (!isServiceEndpoint(ep) || !/^https?:\/\//.test(String(ep.endpoint))) {
+        return undefined;
+      }
+      // Servers often reject a plain GET with 4xx, which still proves they are up
+      const reason = await probe(String(ep.endpoint), context.timeout, 'GET', false);
+      return reason ? `${ep.name} endpoint ${ep.endpoint} is unreachable (${reason})` : undefined;
+    }
+  ),
+  {
+    id: 'image-unresolvable',
+    description: 'The image URI should resolve',
+    defaultSeverity: 'warning',
+    network: true,
+    async check(file, context) {
+      const url = typeof file.image === 'string' ? resolvableUrl(file.image) : undefined;
+      if (!url) {
+        return [];
+      }
+      let reason = await probe(url, context.timeout, 'HEAD', true);
+      if (reason === 'HTTP 405') {
+        reason = await probe(url, context.timeout, 'GET', true);
+      }
+      return reason ? [{ path: '/image', message: `Image ${file.image} does not resolve (${reason})` }] : [];
+    },
+  },
+  {
+    id: 'registration-mismatch',
+    description: 'registrations[] should include the token the file is published for',
+    defaultSeverity: 'error',
+    async check(file, context) {
+      if (!context.agentId || !context.identityRegistry || !Array.isArray(file.registrations)) {
+        return [];
+      }
+      const { chainId, tokenId } = parseAgentId(context.agentId);
+      const expected = `eip155:${chainId}:${context.identityRegistry}`.toLowerCase();
+      const entries = file.registrations.map((entry, i) => ({ entry: asRecord(entry), path: `/registrations/${i}` }));
+      const matches = (entry: Record<string, unknown>) =>
+        String(entry.agentRegistry).toLowerCase() === expected && Number(entry.agentId) === tokenId;
+      if (entries.some(({ entry }) => matches(entry))) {
+        // Other registries are fine (the same agent on other chains), another token on ours is not
+        return entries
+          .filter(({ entry }) => String(entry.agentRegistry).toLowerCase() === expected && !matches(entry))
+          .map(({ path, entry }) => ({
+            path,
+            message: `Lists agent ${String(entry.agentId)}, but this file belongs to agent ${tokenId}`,
+          }));
+      }
+      return entries.map(({ path, entry }) => ({
+        path,
+        message:
+          `Points to ${String(entry.agentRegistry)} #${String(entry.agentId)}, ` +
+          `but the token lives at ${expected} #${tokenId}`,
+      }));
+    },
+  },
+  {
+    id: 'oasf-unknown-slug',
+    description: 'OASF skills and domains should exist in the OASF taxonomy',
+    defaultSeverity: 'warning',
+    async check(file) {
+      const findings: Array<{ path: string; message: string }> = [];
+      for (const { endpoint, path } of endpointsOf(file)) {
+        if (endpoint.name !== 'OASF') {
+          continue;
+        }
+        for (const [key, isKnown] of [['skills', validateSkill], ['domains', validateDomain]] as const) {
+          const slugs = Array.isArray(endpoint[key]) ? (endpoint[key] as unknown[]) : [];
+          slugs.forEach((slug, i) => {
+            if (typeof slug !== 'string' || !isKnown(slug)) {
+              const kind = key === 'skills' ? 'skill' : 'domain';
+              findings.push({ path: `${path}/${key}/${i}`, message: `Unknown OASF ${kind} ${String(slug)}` });
+            }
+          });
+        }
+      }
+      return findings;
+    },
+  },
+  {
+    id: 'x402-without-wallet',
+    description: 'x402support requires a wallet (agentWallet endpoint) to receive payments',
+    defaultSeverity: 'warning',
+    async check(file) {
+      // The codec also reads the older top-level walletAddress / walletChainId
+      const hasWallet =
+        endpointsOf(file).some(({ endpoint }) => endpoint.name === 'agentWallet') ||
+        (typeof file.walletAddress === 'string' && typeof file.walletChainId === 'number');
+      return file.x402support === true && !hasWallet
+        ? [{ path: '/x402support', message: 'x402support is true, but there is no agentWallet endpoint' }]
+        : [];
+    },
+  },
+  {
+    id: 'tee-without-validation',
+    description: 'Declaring tee-attestation trust should be backed by a validation on record',
+    defaultSeverity: 'warning',
+    async check(file, context) {
+      // Same precedence as the codec: registration-v1 key first, then older spellings
+      const key = ['supportedTrust', 'supportedTrusts', 'trustModels'].find((name) => Array.isArray(file[name]));
+      const index = key ? (file[key] as unknown[]).indexOf(TrustModel.TEE_ATTESTATION) : -1;
+      if (index === -1 || !context.agentId || !context.hasValidation) {
+        return [];
+      }
+      let validated: boolean;
+      try {
+        validated = await context.hasValidation(context.agentId);
+      } catch {
+        return []; // Unknown - do not report
+      }
+      const message = `tee-attestation is declared, but ${context.agentId} has no validations`;
+      return validated ? [] : [{ path: `/${key}/${index}`, message }];
+    },
+  },
+];
+
+/**
+ * Run the lint rules over a registration file (parsed JSON, as published)
+ * Rules run in parallel; issues are returned in LINT_RULES order
+ */
+export async function lintRegistrationFile(json: unknown, options: LintOptions = {}): Promise<LintIssue[]> {
+  const file = asRecord(json);
+  const context: LintContext = {
+    agentId: options.agentId,
+    identityRegistry: options.identityRegistry,
+    hasValidation: options.hasValidation,
+    timeout: options.timeout ?? TIMEOUTS.ENDPOINT_CRAWLER_DEFAULT,
+  };
+
+  const results = await Promise.all(
+    LINT_RULES.map(async (rule) => {
+      const severity = options.rules?.[rule.id] ?? rule.defaultSeverity;
+      if (severity === 'off' || (rule.network && options.offline)) {
+        return [];
+      }
+      const findings = await rule.check(file, context);
+      return findings.map((finding): LintIssue => ({ ruleId: rule.id, severity, ...finding }));
+    })
+  );
+  return results.flat();
+}
+
+function endpointsOf(file: Record<string, unknown>): Array<{ endpoint: Record<string, unknown>; path: string }> {
+  const endpoints = Array.isArray(file.endpoints) ? file.endpoints : [];
+  return endpoints.map((endpoint, i) => ({ endpoint: asRecord(endpoint), path: `/endpoints/${i}` }));
+}
+
+function isServiceEndpoint(endpoint: Record<string, unknown>): boolean {
+  return (endpoint.name === 'MCP' || endpoint.name === 'A2A') && typeof endpoint.endpoint === 'string';
+}
+
+// HTTP(S) URL for a URI, going through the first public gateway for ipfs://
+function resolvableUrl(uri: string): string | undefined {
+  if (uri.startsWith('ipfs://')) {
+    return `${IPFS_GATEWAYS[0]}${uri.slice('ipfs://'.length)}`;
+  }
+  return /^https?:\/\//.test(uri) ? uri : undefined;
+}
+
+/**
+ * Reason the URL failed (network error, timeout, HTTP 5xx, or any non-2xx with requireOk), or undefined
+ */
+async function probe(
+  url: string,
+  timeout: number,
+  method: 'GET' | 'HEAD',
+  requireOk: boolean
+): Promise<string | undefined> {
+  try {
+    const response = await fetch(url, { method, signal: AbortSignal.timeout(timeout), redirect: 'follow' });
+    return response.status >= 500 || (requireOk && !response.ok) ? `HTTP ${response.status}` : undefined;
+  } catch (error) {
+    return error instanceof Error && error.name === 'TimeoutError'
+      ? `no response within ${timeout}ms`
+      : 'request failed';
+  }
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
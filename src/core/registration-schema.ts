@@ -0,0 +1,242 @@
+/**
+ * ERC-8004 registration file schema and validation
+ */
+
+import { EndpointType } from '../models/enums.js';
+
+export const REGISTRATION_FILE_TYPE = 'https://eips.ethereum.org/EIPS/eip-8004#registration-v1';
+
+/**
+ * Subset of JSON Schema used by REGISTRATION_FILE_SCHEMA
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  description?: string;
+  type?: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  const?: unknown;
+  enum?: unknown[];
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  minLength?: number;
+  minimum?: number;
+  pattern?: string;
+  format?: 'uri';
+}
+
+/**
+ * JSON Schema (draft 2020-12) for registration-v1 files
+ * Unknown properties are allowed by the standard; validateRegistrationFile reports them as warnings
+ */
+export const REGISTRATION_FILE_SCHEMA: JsonSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: REGISTRATION_FILE_TYPE,
+  type: 'object',
+  required: ['type', 'name', 'description', 'endpoints'],
+  properties: {
+    type: { const: REGISTRATION_FILE_TYPE },
+    name: { type: 'string', minLength: 1 },
+    description: { type: 'string', minLength: 1 },
+    image: { type: 'string', format: 'uri' },
+    endpoints: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name', 'endpoint'],
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          endpoint: { type: 'string', minLength: 1 },
+          version: { type: 'string' },
+        },
+      },
+    },
+    registrations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['agentId', 'agentRegistry'],
+        properties: {
+          agentId: { type: 'integer', minimum: 0 },
+          agentRegistry: { type: 'string', pattern: '^eip155:[0-9]+:0x[0-9a-fA-F]{40}$' },
+        },
+      },
+    },
+    supportedTrust: { type: 'array', items: { type: 'string', minLength: 1 } },
+    active: { type: 'boolean' },
+    x402support: { type: 'boolean' },
+    previousVersion: { type: 'string', format: 'uri' }, // SDK extension: URI of the file this one replaced
+  },
+};
+
+export interface RegistrationValidationIssue {
+  path: string; // JSON Pointer into the file ('' for the root), e.g. /endpoints/0/endpoint
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+export interface RegistrationValidationResult {
+  valid: boolean; // No errors (warnings do not make a file invalid)
+  errors: RegistrationValidationIssue[];
+  warnings: RegistrationValidationIssue[];
+}
+
+// Endpoint names the SDK understands; others are kept but cannot be interpreted
+const KNOWN_ENDPOINT_NAMES = new Set(['MCP', 'A2A', 'ENS', 'DID', 'OASF', 'agentWallet', EndpointType.WALLET]);
+
+/**
+ * Validate a registration file (parsed JSON, as published) against REGISTRATION_FILE_SCHEMA
+ * Errors are schema violations or values the SDK cannot read back; warnings are legal but likely mistakes
+ */
+export function validateRegistrationFile(json: unknown): RegistrationValidationResult {
+  const issues: RegistrationValidationIssue[] = [];
+  checkSchema(json, REGISTRATION_FILE_SCHEMA, '', issues);
+
+  if (isObject(json)) {
+    for (const key of Object.keys(json)) {
+      if (!(key in REGISTRATION_FILE_SCHEMA.properties!)) {
+        issues.push(
+          warning(
+            `/${escapePointer(key)}`,
+            key === 'supportedTrusts'
+              ? 'Non-standard key supportedTrusts; registration-v1 uses supportedTrust'
+              : `Unknown property ${key} (not part of registration-v1)`
+          )
+        );
+      }
+    }
+    if (json.image === undefined) {
+      issues.push(warning('/image', 'No image; explorers will show a placeholder'));
+    }
+    if (Array.isArray(json.endpoints)) {
+      checkEndpoints(json.endpoints, issues);
+    }
+    if (Array.isArray(json.registrations)) {
+      const seen = new Set<string>();
+      json.registrations.forEach((registration, i) => {
+        if (isObject(registration)) {
+          const key = `${String(registration.agentRegistry).toLowerCase()}#${String(registration.agentId)}`;
+          if (seen.has(key)) {
+            issues.push(warning(`/registrations/${i}`, 'Duplicate registration'));
+          }
+          seen.add(key);
+        }
+      });
+    }
+  }
+
+  const errors = issues.filter((issue) => issue.severity === 'error');
+  return { valid: errors.length === 0, errors, warnings: issues.filter((issue) => issue.severity === 'warning') };
+}
+
+/**
+ * One line per issue ("/path: message"), for error messages and CI logs
+ */
+export function formatRegistrationIssues(issues: RegistrationValidationIssue[]): string {
+  return issues.map((issue) => `${issue.path || '/'}: ${issue.message}`).join('\n');
+}
+
+function checkEndpoints(endpoints: unknown[], issues: RegistrationValidationIssue[]): void {
+  endpoints.forEach((endpoint, i) => {
+    if (!isObject(endpoint) || typeof endpoint.name !== 'string' || typeof endpoint.endpoint !== 'string') {
+      return; // Reported by the schema
+    }
+    const path = `/endpoints/${i}`;
+    if (!KNOWN_ENDPOINT_NAMES.has(endpoint.name)) {
+      issues.push(warning(`${path}/name`, `Unknown endpoint name ${endpoint.name}`));
+    }
+    if (endpoint.name === 'agentWallet' && !/^eip155:[0-9]+:0x[0-9a-fA-F]{40}$/.test(endpoint.endpoint)) {
+      issues.push(error(`${path}/endpoint`, 'agentWallet endpoint must be eip155:<chainId>:<address>'));
+    }
+    if ((endpoint.name === 'MCP' || endpoint.name === 'A2A') && !/^https?:\/\//.test(endpoint.endpoint)) {
+      issues.push(warning(`${path}/endpoint`, `${endpoint.name} endpoint is not an HTTP(S) URL`));
+    }
+  });
+}
+
+function checkSchema(value: unknown, schema: JsonSchema, path: string, issues: RegistrationValidationIssue[]): void {
+  if (schema.const !== undefined && value !== schema.const) {
+    issues.push(error(path, `Must be ${JSON.stringify(schema.const)}`));
+    return;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push(error(path, `Must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}`));
+    return;
+  }
+  if (schema.type && !hasType(value, schema.type)) {
+    const article = schema.type === 'array' || schema.type === 'object' || schema.type === 'integer' ? 'an' : 'a';
+    issues.push(error(path, `Must be ${article} ${schema.type}`));
+    return;
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      const message = schema.minLength === 1 ? 'Must not be empty' : `Must be at least ${schema.minLength} characters`;
+      issues.push(error(path, message));
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      issues.push(error(path, `Must match ${schema.pattern}`));
+    }
+    if (schema.format === 'uri' && !isUri(value)) {
+      issues.push(error(path, 'Must be a URI'));
+    }
+  }
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+    issues.push(error(path, `Must be at least ${schema.minimum}`));
+  }
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => checkSchema(item, schema.items!, `${path}/${i}`, issues));
+  }
+  if (isObject(value)) {
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        issues.push(error(`${path}/${escapePointer(key)}`, 'Required'));
+      }
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+      if (value[key] !== undefined) {
+        checkSchema(value[key], propertySchema, `${path}/${escapePointer(key)}`, issues);
+      }
+    }
+  }
+}
+
+function hasType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  switch (type) {
+    case 'object':
+      return isObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+// Absolute URI with a scheme (https:, ipfs:, ar:, data: ...)
+function isUri(value: string): boolean {
+  try {
+    return /^[a-z][a-z0-9+.-]*:/i.test(value) && new URL(value).protocol.length > 1;
+  } catch {
+    return false;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function error(path: string, message: string): RegistrationValidationIssue {
+  return { path, message, severity: 'error' };
+}
+
+function warning(path: string, message: string): RegistrationValidationIssue {
+  return { path, message, severity: 'warning' };
+}
@@ -0,0 +1,183 @@
+/**
+ * Reputation scoring models for getReputationSummary and searchAgentsByReputation
+ */
+
+import type { Feedback, PaymentVerification } from '../models/interfaces.js';
+import type { AgentId } from '../models/types.js';
+import { DEFAULTS } from '../utils/constants.js';
+
+/**
+ * A reviewer's feedback across all agents (used by reviewer-weighted scoring)
+ */
+export interface ReviewerHistory {
+  feedbackCount: number;
+  agentCount: number; // Distinct agents reviewed
+}
+
+export interface ReputationModelContext {
+  now: number; // Unix seconds
+  reviewerHistory?: Map<string, ReviewerHistory>; // Lowercase reviewer address -> history
+  paymentVerification?: Map<Feedback, PaymentVerification>; // Entry for each feedback with a proofOfPayment
+}
+
+/**
+ * Checks the proofOfPayment of an agent's feedback, one result per entry in order
+ */
+export type PaymentVerifier = (agentId: AgentId, feedback: Feedback[]) => Promise<PaymentVerification[]>;
+
+/**
+ * Turns an agent's (non-revoked) feedback into a single 0-100 score
+ */
+export interface ReputationModel {
+  readonly name: string;
+  readonly needsReviewerHistory?: boolean; // Load ReputationModelContext.reviewerHistory before scoring
+  readonly needsPaymentVerification?: boolean; // Load ReputationModelContext.paymentVerification before scoring
+  score(feedback: Feedback[], context: ReputationModelContext): number; // 0 when nothing can be scored
+}
+
+export type ReputationModelName = 'mean' | 'time-decay' | 'bayesian' | 'reviewer-weighted' | 'payment-weighted';
+
+/**
+ * Flat mean of scored feedback (the summary's averageScore)
+ */
+export class MeanReputationModel implements ReputationModel {
+  readonly name = 'mean';
+
+  score(feedback: Feedback[]): number {
+    return weightedMean(scored(feedback).map((fb) => [fb.score!, 1]));
+  }
+}
+
+/**
+ * Average where feedback weight halves every halfLifeDays, so recent behaviour dominates
+ */
+export class TimeDecayReputationModel implements ReputationModel {
+  readonly name = 'time-decay';
+
+  constructor(private readonly halfLifeDays: number = DEFAULTS.REPUTATION_HALF_LIFE_DAYS) {
+    if (!(halfLifeDays > 0)) {
+      throw new Error('halfLifeDays must be positive');
+    }
+  }
+
+  score(feedback: Feedback[], context: ReputationModelContext): number {
+    const halfLife = this.halfLifeDays * 86400;
+    return weightedMean(
+      scored(feedback).map((fb) => {
+        const age = Math.max(0, context.now - fb.createdAt);
+        return [fb.score!, Math.pow(0.5, age / halfLife)];
+      })
+    );
+  }
+}
+
+/**
+ * Average shrunk towards priorMean as if priorWeight extra entries had that score,
+ * so a handful of reviews cannot push a new agent to either extreme
+ */
+export class BayesianReputationModel implements ReputationModel {
+  readonly name = 'bayesian';
+
+  constructor(
+    private readonly priorMean: number = DEFAULTS.REPUTATION_PRIOR_MEAN,
+    private readonly priorWeight: number = DEFAULTS.REPUTATION_PRIOR_WEIGHT
+  ) {
+    if (priorWeight < 0) {
+      throw new Error('priorWeight must not be negative');
+    }
+  }
+
+  score(feedback: Feedback[]): number {
+    const entries = scored(feedback).map((fb): [number, number] => [fb.score!, 1]);
+    if (entries.length === 0) {
+      return 0;
+    }
+    return weightedMean([...entries, [this.priorMean, this.priorWeight]]);
+  }
+}
+
+/**
+ * One vote per reviewer (their entries are averaged), weighted by log2(1 + agents they reviewed)
+ * A reviewer who only ever reviewed this agent counts once, however many entries they left
+ */
+export class ReviewerWeightedReputationModel implements ReputationModel {
+  readonly name = 'reviewer-weighted';
+  readonly needsReviewerHistory = true;
+
+  score(feedback: Feedback[], context: ReputationModelContext): number {
+    const byReviewer = new Map<string, number[]>();
+    for (const fb of scored(feedback)) {
+      const key = fb.reviewer.toLowerCase();
+      byReviewer.set(key, [...(byReviewer.get(key) || []), fb.score!]);
+    }
+
+    const entries: Array<[number, number]> = [];
+    for (const [reviewer, scores] of byReviewer) {
+      const agentCount = Math.max(1, context.reviewerHistory?.get(reviewer)?.agentCount ?? 1);
+      entries.push([scores.reduce((a, b) => a + b, 0) / scores.length, Math.log2(1 + agentCount)]);
+    }
+    return weightedMean(entries);
+  }
+}
+
+/**
+ * Average where feedback whose proofOfPayment verifies on-chain gets full weight and the rest unpaidWeight
+ * A txHash is only a claim by the reviewer, so one that was not verified counts as unpaid
+ */
+export class PaymentWeightedReputationModel implements ReputationModel {
+  readonly name = 'payment-weighted';
+  readonly needsPaymentVerification = true;
+
+  constructor(private readonly unpaidWeight: number = DEFAULTS.REPUTATION_UNPAID_WEIGHT) {
+    if (unpaidWeight < 0 || unpaidWeight > 1) {
+      throw new Error('unpaidWeight must be between 0 and 1');
+    }
+  }
+
+  score(feedback: Feedback[], context: ReputationModelContext): number {
+    return weightedMean(
+      scored(feedback).map((fb) => [
+        fb.score!,
+        context.paymentVerification?.get(fb)?.verified ? 1 : this.unpaidWeight,
+      ])
+    );
+  }
+}
+
+/**
+ * Resolve a model name to a built-in model with default parameters (model instances pass through)
+ */
+export function resolveReputationModel(model: ReputationModel | ReputationModelName): ReputationModel {
+  if (typeof model !== 'string') {
+    return model;
+  }
+  switch (model) {
+    case 'mean':
+      return new MeanReputationModel();
+    case 'time-decay':
+      return new TimeDecayReputationModel();
+    case 'bayesian':
+      return new BayesianReputationModel();
+    case 'reviewer-weighted':
+      return new ReviewerWeightedReputationModel();
+    case 'payment-weighted':
+      return new PaymentWeightedReputationModel();
+    default:
+      throw new Error(`Unknown reputation model: ${model}`);
+  }
+}
+
+// Same rule as the flat summary: revoked entries and entries without a positive score are ignored
+function scored(feedback: Feedback[]): Feedback[] {
+  return feedback.filter((fb) => !fb.isRevoked && fb.score !== undefined && fb.score > 0);
+}
+
+function weightedMean(entries: Array<[number, number]>): number {
+  let sum = 0;
+  let weight = 0;
+  for (const [value, w] of entries) {
+    sum += value * w;
+    weight += w;
+  }
+  return weight > 0 ? Math.round((sum / weight) * 100) / 100 : 0;
+}
@@ -0,0 +1,334 @@
+/**
+ * JSON-RPC provider with failover across several RPC endpoints
+ */
+
+import {
+  ethers,
+  FetchRequest,
+  type JsonRpcApiProviderOptions,
+  type JsonRpcError,
+  type JsonRpcPayload,
+  type JsonRpcResult,
+  type Networkish,
+} from 'ethers';
+import { DEFAULTS, TIMEOUTS } from '../utils/constants.js';
+import { RpcUnavailableError } from './errors.js';
+
+export interface RpcEndpointConfig {
+  url: string;
+  timeout?: number; // ms, overrides RpcFailoverOptions.timeout for this endpoint
+}
+
+export interface RpcFailoverOptions {
+  timeout?: number; // Per-endpoint request timeout in ms
+  maxAttempts?: number; // Attempts per request, across all endpoints
+  backoffBase?: number; // ms, doubled per consecutive failure of an endpoint
+  backoffMax?: number; // ms
+  quorum?: number; // Matching responses required by quorum reads (capped at endpoint count)
+  healthCheckInterval?: number; // ms between background health checks; 0 disables
+}
+
+export interface RpcEndpointStatus {
+  url: string;
+  healthy: boolean;
+  consecutiveFailures: number;
+  cooldownUntil: number; // Epoch ms; skipped until then while other endpoints are available
+  latencyMs?: number;
+  lastError?: string;
+}
+
+interface RpcEndpoint extends RpcEndpointStatus {
+  timeout: number;
+}
+
+/**
+ * Transport-level failure of a single endpoint (timeout, HTTP error, rate limit)
+ */
+class EndpointError extends Error {
+  constructor(
+    message: string,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+  }
+}
+
+// JSON-RPC error codes / messages providers use for throttling
+// -32005 is left out: Infura and Alchemy also use it when eth_getLogs exceeds a range or result size,
+// so it only counts as throttling when the message says so
+const RATE_LIMIT_CODES = new Set([429, -32029]);
+const RATE_LIMIT_MESSAGE = /rate limit|too many requests|request limit|exceeded [^.]*(capacity|limit)/i;
+
+// Messages nodes use when rejecting a transaction they already have
+const ALREADY_KNOWN_MESSAGE = /already known|known transaction|already imported|already in (the )?(mempool|pool)/i;
+
+/**
+ * JsonRpcProvider that spreads requests over several endpoints
+ * - Endpoints are tried in configured order, skipping ones that recently failed
+ * - Failed or rate-limited endpoints cool down with exponential backoff (Retry-After is honored)
+ * - JSON-RPC errors such as reverts are returned as-is; only transport failures trigger failover
+ * - A raw transaction re-sent after a failover that the node already has resolves to its hash
+ * - quorumSend() asks several endpoints and requires matching answers
+ */
+export class FailoverJsonRpcProvider extends ethers.JsonRpcProvider {
+  private readonly endpoints: RpcEndpoint[];
+  private readonly maxAttempts: number;
+  private readonly backoffBase: number;
+  private readonly backoffMax: number;
+  private readonly quorum: number;
+  private healthCheckTimer?: ReturnType<typeof setInterval>;
+
+  constructor(
+    urls: Array<string | RpcEndpointConfig>,
+    options: RpcFailoverOptions = {},
+    network?: Networkish,
+    providerOptions?: JsonRpcApiProviderOptions
+  ) {
+    if (urls.length === 0) {
+      throw new Error('At least one RPC URL is required');
+    }
+    const configs = urls.map((entry) => (typeof entry === 'string' ? { url: entry } : entry));
+    super(configs[0].url, network, providerOptions);
+
+    this.endpoints = configs.map((config) => ({
+      url: config.url,
+      timeout: config.timeout ?? options.timeout ?? TIMEOUTS.RPC_REQUEST,
+      healthy: true,
+      consecutiveFailures: 0,
+      cooldownUntil: 0,
+    }));
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULTS.RPC_MAX_ATTEMPTS);
+    this.backoffBase = options.backoffBase ?? TIMEOUTS.RPC_BACKOFF_BASE;
+    this.backoffMax = options.backoffMax ?? TIMEOUTS.RPC_BACKOFF_MAX;
+    this.quorum = options.quorum ?? DEFAULTS.RPC_QUORUM;
+
+    if (options.healthCheckInterval && options.healthCheckInterval > 0) {
+      this.healthCheckTimer = setInterval(() => {
+        this.checkHealth().catch(() => {
+          // Health state is recorded per endpoint
+        });
+      }, options.healthCheckInterval);
+      // Background checks must not keep the process alive
+      this.healthCheckTimer.unref?.();
+    }
+  }
+
+  /**
+   * Send a JSON-RPC payload, failing over between endpoints on transport errors
+   */
+  async _send(payload: JsonRpcPayload | Array<JsonRpcPayload>): Promise<Array<JsonRpcResult>> {
+    const failures: string[] = [];
+
+    for (let attempt = 0; attempt < this.maxAttempts; attempt++) {
+      const endpoint = this._selectEndpoint();
+
+      // Every endpoint is cooling down - wait for the first one to become available
+      const waitMs = endpoint.cooldownUntil - Date.now();
+      if (waitMs > 0) {
+        await sleep(Math.min(waitMs, this.backoffMax));
+      }
+
+      try {
+        const results = await this._sendToEndpoint(endpoint, payload);
+        // An earlier attempt may have broadcast a raw transaction before its endpoint failed
+        return attempt > 0 ? await this._resolveRebroadcasts(endpoint, payload, results) : results;
+      } catch (error) {
+        failures.push(`${endpoint.url}: ${errorMessage(error)}`);
+      }
+    }
+
+    throw new RpcUnavailableError(
+      `All RPC endpoints failed after ${this.maxAttempts} attempts (${failures.join('; ')})`
+    );
+  }
+
+  /**
+   * Send the same request to several endpoints and return the answer at least `quorum` of them agree on
+   * JSON-RPC errors (e.g. reverts) count as answers and are thrown if they win the quorum
+   */
+  async quorumSend(method: string, params: unknown[], quorum: number = this.quorum): Promise<unknown> {
+    const required = Math.max(1, Math.min(quorum, this.endpoints.length));
+    const payload: JsonRpcPayload = { method, params, id: 1, jsonrpc: '2.0' };
+
+    const responses = await Promise.allSettled(
+      this._orderedEndpoints().map((endpoint) => this._sendToEndpoint(endpoint, payload))
+    );
+
+    const tallies = new Map<string, { count: number; response: JsonRpcResult | JsonRpcError }>();
+    const failures: string[] = [];
+    for (const settled of responses) {
+      if (settled.status === 'rejected') {
+        failures.push(errorMessage(settled.reason));
+        continue;
+      }
+      const response = settled.value[0] as JsonRpcResult | JsonRpcError;
+      // Clients word revert messages differently - compare errors by revert data (or code) only
+      const key = JSON.stringify(
+        'error' in response
+          ? { error: response.error.data ?? response.error.code }
+          : { result: response.result }
+      );
+      const tally = tallies.get(key) || { count: 0, response };
+      tally.count++;
+      tallies.set(key, tally);
+    }
+
+    const winner = Array.from(tallies.values()).sort((a, b) => b.count - a.count)[0];
+    if (!winner || winner.count < required) {
+      throw new RpcUnavailableError(
+        `RPC quorum not reached for ${method}: needed ${required} matching responses, ` +
+          `got ${winner?.count ?? 0} (${tallies.size} distinct answers, ${failures.length} failures)`
+      );
+    }
+
+    if ('error' in winner.response) {
+      throw this.getRpcError(payload, winner.response);
+    }
+    return winner.response.result;
+  }
+
+  /**
+   * Probe every endpoint with eth_blockNumber and update its health
+   */
+  async checkHealth(): Promise<RpcEndpointStatus[]> {
+    const payload: JsonRpcPayload = { method: 'eth_blockNumber', params: [], id: 1, jsonrpc: '2.0' };
+    await Promise.allSettled(this.endpoints.map((endpoint) => this._sendToEndpoint(endpoint, payload)));
+    return this.getEndpointStatus();
+  }
+
+  /**
+   * Current health of each endpoint, in configured order
+   */
+  getEndpointStatus(): RpcEndpointStatus[] {
+    return this.endpoints.map((endpoint) => ({
+      url: endpoint.url,
+      healthy: endpoint.healthy,
+      consecutiveFailures: endpoint.consecutiveFailures,
+      cooldownUntil: endpoint.cooldownUntil,
+      latencyMs: endpoint.latencyMs,
+      lastError: endpoint.lastError,
+    }));
+  }
+
+  destroy(): void {
+    if (this.healthCheckTimer) {
+      clearInterval(this.healthCheckTimer);
+      this.healthCheckTimer = undefined;
+    }
+    super.destroy();
+  }
+
+  /**
+   * Available endpoints first (healthy before recovering), then cooling-down ones by earliest availability
+   */
+  private _orderedEndpoints(): RpcEndpoint[] {
+    const now = Date.now();
+    const available = this.endpoints.filter((endpoint) => endpoint.cooldownUntil <= now);
+    const cooling = this.endpoints
+      .filter((endpoint) => endpoint.cooldownUntil > now)
+      .sort((a, b) => a.cooldownUntil - b.cooldownUntil);
+    return [...available.filter((e) => e.healthy), ...available.filter((e) => !e.healthy), ...cooling];
+  }
+
+  private _selectEndpoint(): RpcEndpoint {
+    return this._orderedEndpoints()[0];
+  }
+
+  /**
+   * Answer eth_sendRawTransaction errors with the transaction hash when the endpoint already has
+   * the transaction ("already known", or "nonce too low" once it is mined)
+   */
+  private async _resolveRebroadcasts(
+    endpoint: RpcEndpoint,
+    payload: JsonRpcPayload | Array<JsonRpcPayload>,
+    results: Array<JsonRpcResult>
+  ): Promise<Array<JsonRpcResult>> {
+    const requests = Array.isArray(payload) ? payload : [payload];
+    return Promise.all(
+      (results as Array<JsonRpcResult | JsonRpcError>).map(async (response) => {
+        const request = requests.find((entry) => entry.id === response.id);
+        if (!('error' in response) || request?.method !== 'eth_sendRawTransaction') {
+          return response as JsonRpcResult;
+        }
+        const txHash = ethers.keccak256((request.params as string[])[0]);
+        const known =
+          ALREADY_KNOWN_MESSAGE.test(response.error.message || '') ||
+          (await this._hasTransaction(endpoint, txHash));
+        return (known ? { id: response.id, result: txHash } : response) as JsonRpcResult;
+      })
+    );
+  }
+
+  private async _hasTransaction(endpoint: RpcEndpoint, txHash: string): Promise<boolean> {
+    const payload: JsonRpcPayload = { method: 'eth_getTransactionByHash', params: [txHash], id: 1, jsonrpc: '2.0' };
+    try {
+      const [response] = await this._sendToEndpoint(endpoint, payload);
+      return response.result != null;
+    } catch {
+      return false;
+    }
+  }
+
+  private async _sendToEndpoint(
+    endpoint: RpcEndpoint,
+    payload: JsonRpcPayload | Array<JsonRpcPayload>
+  ): Promise<Array<JsonRpcResult>> {
+    const request = new FetchRequest(endpoint.url);
+    request.timeout = endpoint.timeout;
+    request.body = JSON.stringify(payload);
+    request.setHeader('content-type', 'application/json');
+    // Throttling is handled here across endpoints rather than by retrying one endpoint
+    request.setThrottleParams({ maxAttempts: 1 });
+
+    const startedAt = Date.now();
+    try {
+      const response = await request.send();
+
+      if (response.statusCode === 429) {
+        const retryAfter = Number(response.getHeader('retry-after'));
+        throw new EndpointError(
+          'Rate limited (HTTP 429)',
+          Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined
+        );
+      }
+      response.assertOk();
+
+      const body = response.bodyJson;
+      const results: Array<JsonRpcResult | JsonRpcError> = Array.isArray(body) ? body : [body];
+      const throttled = results.find(
+        (result) =>
+          'error' in result &&
+          (RATE_LIMIT_CODES.has(result.error.code) || RATE_LIMIT_MESSAGE.test(result.error.message || ''))
+      ) as JsonRpcError | undefined;
+      if (throttled) {
+        throw new EndpointError(`Rate limited (${throttled.error.message})`);
+      }
+
+      endpoint.healthy = true;
+      endpoint.consecutiveFailures = 0;
+      endpoint.cooldownUntil = 0;
+      endpoint.latencyMs = Date.now() - startedAt;
+      endpoint.lastError = undefined;
+      return results as Array<JsonRpcResult>;
+    } catch (error) {
+      endpoint.healthy = false;
+      endpoint.consecutiveFailures++;
+      endpoint.lastError = errorMessage(error);
+      const backoff = Math.min(this.backoffMax, this.backoffBase * 2 ** (endpoint.consecutiveFailures - 1));
+      const retryAfter = error instanceof EndpointError ? error.retryAfterMs : undefined;
+      endpoint.cooldownUntil = Date.now() + Math.max(backoff, retryAfter ?? 0);
+      throw error;
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    return (error as { shortMessage?: string }).shortMessage || error.message;
+  }
+  return String(error);
+}
@@ -6,23 +6,46 @@ import { ethers } from 'ethers';
 import type {
   AgentSummary,
   Feedback,
+  FeedbackId,
+  FeedbackIdTuple,
+  FeedbackResponse,
+  FeedbackResponseContent,
+  PaymentVerification,
+  ReputationSummary,
   SearchParams,
   SearchFeedbackParams,
+  SearchValidationsParams,
+  ValidatedAgentParams,
   SearchResultMeta,
   RegistrationFile,
-  Endpoint,
+  RegistrationVersion,
+  ValidationRequest,
+  ValidationResponse,
+  ValidationStatus,
+  TransactionPlan,
 } from '../models/interfaces.js';
 import type { AgentRegistrationFile as SubgraphRegistrationFile } from '../models/generated/subgraph-types.js';
 import type { AgentId, ChainId, Address, URI } from '../models/types.js';
-import { EndpointType, TrustModel } from '../models/enums.js';
+import { EndpointType, type FeedbackFlag } from '../models/enums.js';
 import { formatAgentId, parseAgentId } from '../utils/id-format.js';
-import { IPFS_GATEWAYS, TIMEOUTS } from '../utils/constants.js';
+import { DEFAULTS, IPFS_GATEWAYS, TIMEOUTS } from '../utils/constants.js';
+import { METADATA_KEYS, decodeMetadataValue } from '../utils/metadata.js';
 import { Web3Client, type TransactionOptions } from './web3-client.js';
 import { IPFSClient, type IPFSClientConfig } from './ipfs-client.js';
+import type { RpcFailoverOptions } from './rpc-provider.js';
 import { SubgraphClient } from './subgraph-client.js';
-import { FeedbackManager } from './feedback-manager.js';
+import { FeedbackManager, type FeedbackAuth } from './feedback-manager.js';
+import { FeedbackAnalyzer, type FeedbackAnalyzerOptions } from './feedback-analyzer.js';
+import {
+  resolveReputationModel,
+  type ReputationModel,
+  type ReputationModelName,
+} from './reputation-models.js';
+import { ValidationManager } from './validation-manager.js';
 import { AgentIndexer } from './indexer.js';
 import { Agent } from './agent.js';
+import { decodeRegistrationFile } from './registration-codec.js';
+import { SubgraphUnavailableError, withErrorContext } from './errors.js';
 import {
   IDENTITY_REGISTRY_ABI,
   REPUTATION_REGISTRY_ABI,
@@ -33,7 +56,8 @@ import {
 
 export interface SDKConfig {
   chainId: ChainId;
-  rpcUrl: string;
+  rpcUrl: string | string[]; // Several URLs enable failover between them (in priority order)
+  rpcOptions?: RpcFailoverOptions; // Per-endpoint timeouts, backoff and quorum size
   signer?: string | ethers.Wallet | ethers.Signer; // Private key string OR ethers Wallet/Signer (optional for read-only operations)
   registryOverrides?: Record<ChainId, Record<string, Address>>;
   // IPFS configuration
@@ -44,6 +68,10 @@ export interface SDKConfig {
   // Subgraph configuration
   subgraphUrl?: string;
   subgraphOverrides?: Record<ChainId, string>;
+  // Thresholds for flagging suspicious feedback (searchFeedback flagSuspicious, excludeFlagged summaries)
+  feedbackAnalysis?: FeedbackAnalyzerOptions;
+  // RPC URLs for other chains, used to verify proofOfPayment transactions made there
+  chainRpcUrls?: Record<ChainId, string | string[]>;
 }
 
 /**
@@ -54,6 +82,7 @@ export class SDK {
   private _ipfsClient?: IPFSClient;
   private _subgraphClient?: SubgraphClient;
   private readonly _feedbackManager: FeedbackManager;
+  private readonly _validationManager: ValidationManager;
   private readonly _indexer: AgentIndexer;
   private _identityRegistry?: ethers.Contract;
   private _reputationRegistry?: ethers.Contract;
@@ -61,13 +90,18 @@ export class SDK {
   private readonly _registries: Record<string, Address>;
   private readonly _chainId: ChainId;
   private readonly _subgraphUrls: Record<ChainId, string> = {};
+  private readonly _chainRpcUrls: Record<ChainId, string | string[]>;
+  private readonly _rpcOptions?: RpcFailoverOptions;
+  private readonly _chainClients = new Map<ChainId, Web3Client>();
 
   constructor(config: SDKConfig) {
     this._chainId = config.chainId;
 
     // Initialize Web3 client
-    this._web3Client = new Web3Client(config.rpcUrl, config.signer);
+    this._web3Client = new Web3Client(config.rpcUrl, config.signer, config.rpcOptions);
     // Note: chainId will be fetched asynchronously on first use
+    this._chainRpcUrls = config.chainRpcUrls || {};
+    this._rpcOptions = config.rpcOptions;
 
     // Resolve registry addresses
     const registryOverrides = config.registryOverrides || {};
@@ -115,6 +149,13 @@ export class SDK {
       (chainId) => this.getSubgraphClient(chainId),
       this._chainId
     );
+    if (config.feedbackAnalysis) {
+      this._feedbackManager.setFeedbackAnalyzer(new FeedbackAnalyzer(this._web3Client, config.feedbackAnalysis));
+    }
+    this._feedbackManager.setPaymentVerifier((agentId, feedback) => this._verifyPayments(agentId, feedback));
+
+    // Initialize validation manager (will set registries after they're created)
+    this._validationManager = new ValidationManager(this._web3Client, this._ipfsClient);
   }
 
   /**
@@ -234,6 +275,9 @@ export class SDK {
         throw new Error(`No validation registry address for chain ${this._chainId}`);
       }
       this._validationRegistry = this._web3Client.getContract(address, VALIDATION_REGISTRY_ABI);
+
+      // Update validation manager
+      this._validationManager.setValidationRegistry(this._validationRegistry);
     }
     return this._validationRegistry;
   }
@@ -269,8 +313,10 @@ export class SDK {
 
   /**
    * Load an existing agent (hydrates from registration file if registered)
+   * On-chain metadata is read for the SDK's own keys; set scanMetadataLogs to also read every
+   * key found in MetadataSet events (an eth_getLogs scan from block 0)
    */
-  async loadAgent(agentId: AgentId): Promise<Agent> {
+  async loadAgent(agentId: AgentId, options: { scanMetadataLogs?: boolean } = {}): Promise<Agent> {
     // Parse agent ID
     const { chainId, tokenId } = parseAgentId(agentId);
 
@@ -283,10 +329,9 @@ export class SDK {
     let tokenUri: string;
     try {
       const identityRegistry = this.getIdentityRegistry();
-      tokenUri = await this._web3Client.callContract(identityRegistry, 'tokenURI', BigInt(tokenId));
+      tokenUri = await this._web3Client.callContractWithQuorum(identityRegistry, 'tokenURI', BigInt(tokenId));
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(`Failed to load agent ${agentId}: ${errorMessage}`);
+      throw withErrorContext(error, `Failed to load agent ${agentId}`);
     }
 
     // Load registration file - handle empty URI (agent registered without URI yet)
@@ -301,7 +346,121 @@ export class SDK {
     registrationFile.agentId = agentId;
     registrationFile.agentURI = tokenUri || undefined;
 
-    return new Agent(this, registrationFile);
+    // On-chain metadata is what the registry enforces, so it takes precedence over the file
+    let onChainMetadata: Record<string, unknown> = {};
+    try {
+      onChainMetadata = await this.getOnChainMetadata(agentId, undefined, { scanLogs: options.scanMetadataLogs });
+      this._applyOnChainMetadata(registrationFile, onChainMetadata);
+    } catch {
+      // Metadata is supplementary - keep the registration file as loaded
+    }
+
+    return new Agent(this, registrationFile, Object.keys(onChainMetadata));
+  }
+
+  /**
+   * Read an agent's on-chain metadata (IdentityRegistry.getMetadata)
+   * Without keys, reads the SDK's own keys (agentWallet, agentName); with scanLogs, also every key
+   * set in MetadataSet events
+   * Unset keys are omitted; values are decoded with decodeMetadataValue
+   */
+  async getOnChainMetadata(
+    agentId: AgentId,
+    keys?: string[],
+    options: { scanLogs?: boolean } = {}
+  ): Promise<Record<string, unknown>> {
+    const { chainId, tokenId } = parseAgentId(agentId);
+
+    const currentChainId = await this.chainId();
+    if (chainId !== currentChainId) {
+      throw new Error(`Agent ${agentId} is not on current chain ${currentChainId}`);
+    }
+
+    const identityRegistry = this.getIdentityRegistry();
+    const metadataKeys =
+      keys ??
+      (options.scanLogs
+        ? await this._getMetadataKeys(identityRegistry, BigInt(tokenId))
+        : Object.values(METADATA_KEYS));
+
+    try {
+      const values: string[] = await Promise.all(
+        metadataKeys.map((key) =>
+          this._web3Client.callContract(identityRegistry, 'getMetadata', BigInt(tokenId), key)
+        )
+      );
+
+      const metadata: Record<string, unknown> = {};
+      metadataKeys.forEach((key, i) => {
+        const value = decodeMetadataValue(key, values[i]);
+        if (value !== undefined) {
+          metadata[key] = value;
+        }
+      });
+      return metadata;
+    } catch (error) {
+      throw withErrorContext(error, `Failed to read on-chain metadata for agent ${agentId}`);
+    }
+  }
+
+  /**
+   * Every URI an agent has been registered with, oldest first, each with its registration file
+   * URIs come from Registered / UriUpdated events. When the RPC rejects the log query, the
+   * previousVersion links are followed back from the current file instead
+   * A file that cannot be fetched is reported in `error` rather than failing the whole history
+   */
+  async getRegistrationHistory(agentId: AgentId): Promise<RegistrationVersion[]> {
+    const { chainId, tokenId } = parseAgentId(agentId);
+
+    const currentChainId = await this.chainId();
+    if (chainId !== currentChainId) {
+      throw new Error(`Agent ${agentId} is not on current chain ${currentChainId}`);
+    }
+
+    const identityRegistry = this.getIdentityRegistry();
+    let currentUri: string;
+    try {
+      currentUri = await this._web3Client.callContractWithQuorum(identityRegistry, 'tokenURI', BigInt(tokenId));
+    } catch (error) {
+      throw withErrorContext(error, `Failed to load registration history for agent ${agentId}`);
+    }
+
+    // Each URI is fetched once, however often the agent was pointed back at it
+    const files = new Map<string, Promise<Pick<RegistrationVersion, 'registrationFile' | 'error'>>>();
+    const load = (agentURI: string) => {
+      if (!files.has(agentURI)) {
+        files.set(
+          agentURI,
+          this.fetchRegistrationJson(agentURI)
+            .then((json) => ({ registrationFile: { ...decodeRegistrationFile(json), agentId, agentURI } }))
+            .catch((error) => ({ error: error instanceof Error ? error.message : String(error) }))
+        );
+      }
+      return files.get(agentURI)!;
+    };
+
+    let versions: Array<Omit<RegistrationVersion, 'version'>>;
+    try {
+      versions = await this._getUriEvents(identityRegistry, BigInt(tokenId));
+      // Registries that do not emit UriUpdated still report the current URI through tokenURI
+      if (currentUri && versions[versions.length - 1]?.agentURI !== currentUri) {
+        versions.push({ agentURI: currentUri });
+      }
+      versions = await Promise.all(versions.map(async (entry) => ({ ...entry, ...(await load(entry.agentURI)) })));
+    } catch {
+      // Many RPCs cap eth_getLogs block ranges - follow previousVersion links instead
+      versions = [];
+      const seen = new Set<string>();
+      let agentURI: string | undefined = currentUri || undefined;
+      while (agentURI && !seen.has(agentURI) && seen.size < DEFAULTS.REGISTRATION_HISTORY_MAX_LINKS) {
+        seen.add(agentURI);
+        const entry: Omit<RegistrationVersion, 'version'> = { agentURI, ...(await load(agentURI)) };
+        versions.unshift(entry);
+        agentURI = entry.registrationFile?.previousVersion;
+      }
+    }
+
+    return versions.map((entry, i) => ({ version: i + 1, ...entry }));
   }
 
   /**
@@ -333,7 +492,9 @@ export class SDK {
       : this._subgraphClient;
     
     if (!subgraphClient) {
-      throw new Error(`Subgraph client required for getAgent on chain ${targetChainId || this._chainId}`);
+      throw new SubgraphUnavailableError(
+        `Subgraph client required for getAgent on chain ${targetChainId || this._chainId}`
+      );
     }
     
     return subgraphClient.getAgentById(formattedAgentId);
@@ -356,6 +517,8 @@ export class SDK {
   /**
    * Search agents by reputation
    * Supports multi-chain search when chains parameter is provided
+   * With a reputation model, each result gets extras.reputationScore (one reputation summary per result)
+   * The model runs client-side, so results cannot be sorted by reputationScore; paging follows sort as usual
    */
   async searchAgentsByReputation(
     agents?: AgentId[],
@@ -370,7 +533,8 @@ export class SDK {
     pageSize: number = 50,
     cursor?: string,
     sort?: string[],
-    chains?: ChainId[] | 'all'
+    chains?: ChainId[] | 'all',
+    model?: ReputationModel | ReputationModelName
   ): Promise<{ items: AgentSummary[]; nextCursor?: string; meta?: SearchResultMeta }> {
     // Parse cursor to skip value
     let skip = 0;
@@ -387,7 +551,11 @@ export class SDK {
       sort = ['createdAt:desc'];
     }
 
-    return this._indexer.searchAgentsByReputation(
+    if (sort.some((field) => field.split(':')[0] === 'reputationScore')) {
+      throw new Error('Cannot sort by reputationScore: it is computed client-side for the returned page only');
+    }
+
+    const result = await this._indexer.searchAgentsByReputation(
       agents,
       tags,
       reviewers,
@@ -402,19 +570,40 @@ export class SDK {
       sort,
       chains
     );
+    if (!model) {
+      return result;
+    }
+
+    const reputationModel = resolveReputationModel(model);
+    // An agent whose feedback cannot be loaded keeps reputationScore undefined
+    const summaries = await Promise.all(
+      result.items.map((item) =>
+        this._feedbackManager
+          .getReputationSummary(item.agentId, undefined, undefined, reputationModel)
+          .catch(() => undefined)
+      )
+    );
+    result.items.forEach((item, i) => {
+      item.extras = {
+        ...item.extras,
+        reputationModel: reputationModel.name,
+        reputationScore: summaries[i]?.score,
+      };
+    });
+    return result;
   }
 
   /**
    * Transfer agent ownership
    */
-  async transferAgent(agentId: AgentId, newOwner: Address): Promise<{
+  async transferAgent(agentId: AgentId, newOwner: Address, options?: TransactionOptions): Promise<{
     txHash: string;
     from: Address;
     to: Address;
     agentId: AgentId;
   }> {
     const agent = await this.loadAgent(agentId);
-    return agent.transfer(newOwner);
+    return agent.transfer(newOwner, options);
   }
 
   /**
@@ -423,7 +612,7 @@ export class SDK {
   async isAgentOwner(agentId: AgentId, address: Address): Promise<boolean> {
     const { tokenId } = parseAgentId(agentId);
     const identityRegistry = this.getIdentityRegistry();
-    const owner = await this._web3Client.callContract(identityRegistry, 'ownerOf', BigInt(tokenId));
+    const owner = await this._web3Client.callContractWithQuorum(identityRegistry, 'ownerOf', BigInt(tokenId));
     return owner.toLowerCase() === address.toLowerCase();
   }
 
@@ -433,7 +622,7 @@ export class SDK {
   async getAgentOwner(agentId: AgentId): Promise<Address> {
     const { tokenId } = parseAgentId(agentId);
     const identityRegistry = this.getIdentityRegistry();
-    return await this._web3Client.callContract(identityRegistry, 'ownerOf', BigInt(tokenId));
+    return await this._web3Client.callContractWithQuorum(identityRegistry, 'ownerOf', BigInt(tokenId));
   }
 
   // Feedback methods
@@ -454,6 +643,27 @@ export class SDK {
     return this._feedbackManager.signFeedbackAuth(agentId, clientAddress, indexLimit, expiryHours);
   }
 
+  /**
+   * Decode a feedbackAuth into its fields and signature
+   */
+  decodeFeedbackAuth(feedbackAuth: string): FeedbackAuth {
+    return this._feedbackManager.decodeFeedbackAuth(feedbackAuth);
+  }
+
+  /**
+   * Check a feedbackAuth against the chain before submitting feedback with it
+   */
+  async verifyFeedbackAuth(
+    feedbackAuth: string | FeedbackAuth,
+    expected: { agentId: AgentId; clientAddress: Address }
+  ): Promise<FeedbackAuth> {
+    // Update feedback manager with registries
+    this._feedbackManager.setReputationRegistry(this.getReputationRegistry());
+    this._feedbackManager.setIdentityRegistry(this.getIdentityRegistry());
+
+    return this._feedbackManager.verifyFeedbackAuth(feedbackAuth, expected);
+  }
+
   /**
    * Prepare feedback file
    */
@@ -491,13 +701,14 @@ export class SDK {
   async giveFeedback(
     agentId: AgentId,
     feedbackFile: Record<string, unknown>,
-    feedbackAuth?: string
+    feedbackAuth?: string,
+    options?: TransactionOptions
   ): Promise<Feedback> {
     // Update feedback manager with registries
     this._feedbackManager.setReputationRegistry(this.getReputationRegistry());
     this._feedbackManager.setIdentityRegistry(this.getIdentityRegistry());
 
-    return this._feedbackManager.giveFeedback(agentId, feedbackFile, undefined, feedbackAuth);
+    return this._feedbackManager.giveFeedback(agentId, feedbackFile, undefined, feedbackAuth, options);
   }
 
   /**
@@ -509,6 +720,7 @@ export class SDK {
 
   /**
    * Search feedback
+   * flagSuspicious runs the feedback analyzer and sets Feedback.flags
    */
   async searchFeedback(
     agentId: AgentId,
@@ -516,7 +728,8 @@ export class SDK {
     capabilities?: string[],
     skills?: string[],
     minScore?: number,
-    maxScore?: number
+    maxScore?: number,
+    flagSuspicious?: boolean
   ): Promise<Feedback[]> {
     const params: SearchFeedbackParams = {
       agents: [agentId],
@@ -525,10 +738,117 @@ export class SDK {
       skills,
       minScore,
       maxScore,
+      flagSuspicious,
     };
     return this._feedbackManager.searchFeedback(params);
   }
 
+  /**
+   * One page of matching feedback, newest first; pass nextCursor back to get the following page
+   * Agents on different chains are searched on each chain's subgraph and merged (meta is then set)
+   */
+  async searchFeedbackPage(
+    params: SearchFeedbackParams,
+    pageSize?: number,
+    cursor?: string
+  ): Promise<{ items: Feedback[]; nextCursor?: string; meta?: SearchResultMeta }> {
+    return this._feedbackManager.searchFeedbackPage(params, pageSize, cursor);
+  }
+
+  /**
+   * Iterate over all matching feedback, newest first, fetching pages as needed
+   */
+  iterateFeedback(params: SearchFeedbackParams, pageSize?: number): AsyncGenerator<Feedback> {
+    return this._feedbackManager.iterateFeedback(params, pageSize);
+  }
+
+  /**
+   * Verify a feedback's proofOfPayment: the reviewer must have paid the agent's wallet in the stated transaction
+   * The wallet is read from on-chain metadata (agentWallet) or the subgraph unless given; payments on other
+   * chains need SDKConfig.chainRpcUrls
+   */
+  async verifyProofOfPayment(
+    feedback: Feedback,
+    options: { agentWallet?: Address } = {}
+  ): Promise<PaymentVerification> {
+    const proofChainId = feedback.proofOfPayment?.chainId;
+    const chainId = proofChainId !== undefined && proofChainId !== null ? Number(proofChainId) : this._chainId;
+
+    const agentWallet = options.agentWallet ?? (await this._getAgentWallet(feedback.agentId));
+    if (!agentWallet) {
+      return {
+        verified: false,
+        chainId,
+        txHash: feedback.proofOfPayment?.txHash,
+        reason: `Agent ${feedback.agentId} has no wallet address`,
+      };
+    }
+
+    return this._feedbackManager.verifyProofOfPayment(feedback, agentWallet, this._getChainProvider(chainId));
+  }
+
+  /**
+   * verifyProofOfPayment for each of an agent's feedback, looking the wallet up once
+   * A proof that cannot be checked (e.g. no RPC URL for its chain) comes back unverified
+   */
+  private async _verifyPayments(agentId: AgentId, feedback: Feedback[]): Promise<PaymentVerification[]> {
+    const agentWallet = await this._getAgentWallet(agentId);
+    return Promise.all(
+      feedback.map(async (fb): Promise<PaymentVerification> => {
+        const txHash = fb.proofOfPayment?.txHash;
+        if (!agentWallet) {
+          return { verified: false, txHash, reason: `Agent ${agentId} has no wallet address` };
+        }
+        try {
+          return await this.verifyProofOfPayment(fb, { agentWallet });
+        } catch (error) {
+          return { verified: false, txHash, reason: error instanceof Error ? error.message : String(error) };
+        }
+      })
+    );
+  }
+
+  /**
+   * Agent wallet from on-chain metadata (current chain), falling back to the subgraph
+   */
+  private async _getAgentWallet(agentId: AgentId): Promise<Address | undefined> {
+    const fullAgentId = agentId.includes(':') ? agentId : formatAgentId(this._chainId, parseInt(agentId, 10));
+    if (parseAgentId(fullAgentId).chainId === this._chainId) {
+      try {
+        const metadata = await this.getOnChainMetadata(fullAgentId, [METADATA_KEYS.AGENT_WALLET]);
+        const wallet = metadata[METADATA_KEYS.AGENT_WALLET] as { address?: string } | string | undefined;
+        const address = typeof wallet === 'string' ? wallet : wallet?.address;
+        if (address && ethers.isAddress(address)) {
+          return address;
+        }
+      } catch {
+        // Fall back to the subgraph
+      }
+    }
+
+    try {
+      return (await this.getAgent(fullAgentId))?.walletAddress;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private _getChainProvider(chainId: ChainId): ethers.Provider {
+    if (chainId === this._chainId) {
+      return this._web3Client.provider;
+    }
+    const rpcUrl = this._chainRpcUrls[chainId];
+    if (!rpcUrl) {
+      throw new Error(`No RPC URL configured for chain ${chainId} (set SDKConfig.chainRpcUrls)`);
+    }
+    let client = this._chainClients.get(chainId);
+    if (!client) {
+      client = new Web3Client(rpcUrl, undefined, this._rpcOptions);
+      this._chainClients.set(chainId, client);
+    }
+    return client.provider;
+  }
+
   /**
    * Append response to feedback
    */
@@ -536,36 +856,303 @@ export class SDK {
     agentId: AgentId,
     clientAddress: Address,
     feedbackIndex: number,
-    response: { uri: URI; hash: string }
+    response: { uri: URI; hash: string },
+    options?: TransactionOptions
   ): Promise<string> {
     // Update feedback manager with registries
     this._feedbackManager.setReputationRegistry(this.getReputationRegistry());
 
-    return this._feedbackManager.appendResponse(agentId, clientAddress, feedbackIndex, response.uri, response.hash);
+    return this._feedbackManager.appendResponse(
+      agentId,
+      clientAddress,
+      feedbackIndex,
+      response.uri,
+      response.hash,
+      options
+    );
+  }
+
+  /**
+   * Respond to feedback with text, a resolution, refund details and attachments
+   * Builds the response file, stores it on IPFS and commits it with appendResponse
+   */
+  async respondToFeedback(
+    feedbackId: FeedbackId | FeedbackIdTuple,
+    response: FeedbackResponseContent,
+    options?: TransactionOptions
+  ): Promise<FeedbackResponse> {
+    // Update feedback manager with registries
+    this._feedbackManager.setReputationRegistry(this.getReputationRegistry());
+    this._feedbackManager.setIdentityRegistry(this.getIdentityRegistry());
+
+    return this._feedbackManager.respondToFeedback(feedbackId, response, options);
+  }
+
+  /**
+   * Resolve a feedback's answers into typed responses (downloads and hash-checks each response file)
+   */
+  async getFeedbackResponses(feedback: Feedback): Promise<FeedbackResponse[]> {
+    return this._feedbackManager.getFeedbackResponses(feedback);
   }
 
   /**
    * Revoke feedback
    */
-  async revokeFeedback(agentId: AgentId, feedbackIndex: number): Promise<string> {
+  async revokeFeedback(agentId: AgentId, feedbackIndex: number, options?: TransactionOptions): Promise<string> {
     // Update feedback manager with registries
     this._feedbackManager.setReputationRegistry(this.getReputationRegistry());
 
-    return this._feedbackManager.revokeFeedback(agentId, feedbackIndex);
+    return this._feedbackManager.revokeFeedback(agentId, feedbackIndex, options);
   }
 
   /**
    * Get reputation summary
+   * Pass a reputation model (or its name) to also get the model's score; averageScore stays the flat mean
+   * excludeFlagged leaves out feedback the analyzer flags (true for any flag, or a list of flags)
    */
   async getReputationSummary(
     agentId: AgentId,
     tag1?: string,
-    tag2?: string
-  ): Promise<{ count: number; averageScore: number }> {
+    tag2?: string,
+    model?: ReputationModel | ReputationModelName,
+    options?: { excludeFlagged?: boolean | FeedbackFlag[] }
+  ): Promise<ReputationSummary> {
     // Update feedback manager with registries
     this._feedbackManager.setReputationRegistry(this.getReputationRegistry());
 
-    return this._feedbackManager.getReputationSummary(agentId, tag1, tag2);
+    return this._feedbackManager.getReputationSummary(agentId, tag1, tag2, model, options);
+  }
+
+  // Validation methods
+
+  /**
+   * Prepare validation request file (resolves the chain and identity registry it refers to)
+   */
+  async prepareValidationRequest(
+    agentId: AgentId,
+    validatorAddress: Address,
+    data?: Record<string, unknown>
+  ): Promise<Record<string, unknown>> {
+    await this.chainId();
+    this._validationManager.setIdentityRegistry(this.getIdentityRegistry());
+
+    return this._validationManager.prepareValidationRequest(agentId, validatorAddress, data);
+  }
+
+  /**
+   * Request validation of an agent from a validator
+   */
+  async requestValidation(
+    agentId: AgentId,
+    validatorAddress: Address,
+    requestFile: Record<string, unknown>,
+    expiryHours?: number,
+    options?: TransactionOptions
+  ): Promise<ValidationRequest> {
+    // Update validation manager with registries
+    this._validationManager.setValidationRegistry(this.getValidationRegistry());
+    this._validationManager.setIdentityRegistry(this.getIdentityRegistry());
+
+    return this._validationManager.requestValidation(
+      agentId,
+      validatorAddress,
+      requestFile,
+      expiryHours,
+      options
+    );
+  }
+
+  /**
+   * Prepare validation response file (resolves the chain it refers to)
+   */
+  async prepareValidationResponse(
+    requestHash: string,
+    response: number,
+    data?: Record<string, unknown>
+  ): Promise<Record<string, unknown>> {
+    await this.chainId();
+
+    return this._validationManager.prepareValidationResponse(requestHash, response, data);
+  }
+
+  /**
+   * Respond to a validation request (signer must be the designated validator)
+   */
+  async respondToValidation(
+    requestHash: string,
+    response: number,
+    responseFile?: Record<string, unknown>,
+    tag?: string,
+    options?: TransactionOptions
+  ): Promise<ValidationResponse> {
+    // Update validation manager with registries
+    this._validationManager.setValidationRegistry(this.getValidationRegistry());
+
+    return this._validationManager.respondToValidation(requestHash, response, responseFile, tag, options);
+  }
+
+  /**
+   * Get validation request status (pending, responded or expired)
+   */
+  async getValidationStatus(requestHash: string, expiryHours?: number): Promise<ValidationStatus> {
+    // Update validation manager with registries
+    this._validationManager.setValidationRegistry(this.getValidationRegistry());
+
+    return this._validationManager.getValidationStatus(requestHash, expiryHours);
+  }
+
+  /**
+   * Wait for a validator to respond to a validation request
+   */
+  async waitForValidationResponse(
+    requestHash: string,
+    timeout?: number,
+    pollInterval?: number
+  ): Promise<ValidationStatus> {
+    // Update validation manager with registries
+    this._validationManager.setValidationRegistry(this.getValidationRegistry());
+
+    return this._validationManager.waitForValidationResponse(requestHash, timeout, pollInterval);
+  }
+
+  /**
+   * Search validations
+   * Supports multi-chain search when chains parameter is provided or agents span several chains
+   */
+  async searchValidations(
+    params?: SearchValidationsParams,
+    pageSize: number = 50,
+    cursor?: string
+  ): Promise<{ items: ValidationStatus[]; nextCursor?: string; meta?: SearchResultMeta }> {
+    const searchParams: SearchValidationsParams = { ...(params || {}) };
+
+    // Format agentIds without chainId prefix with the default chain
+    if (searchParams.agents) {
+      searchParams.agents = searchParams.agents.map((agentId) =>
+        agentId.includes(':') ? agentId : formatAgentId(this._chainId, parseInt(agentId, 10))
+      );
+    }
+
+    return this._indexer.searchValidations(searchParams, pageSize, cursor, this._chainId);
+  }
+
+  /**
+   * Search agents whose crypto-economic / TEE trust claims are backed by a validator response
+   * Results carry extras.validatedBy for "validated by" badges; filtering applies within the page
+   */
+  async searchValidatedAgents(
+    params?: SearchParams,
+    validation?: ValidatedAgentParams,
+    sort?: string[],
+    pageSize: number = 50,
+    cursor?: string
+  ): Promise<{ items: AgentSummary[]; nextCursor?: string; meta?: SearchResultMeta }> {
+    return this._indexer.searchValidatedAgents(params || {}, validation, pageSize, cursor, sort || [], this._chainId);
+  }
+
+  // Dry-run methods (simulate writes without broadcasting)
+
+  /**
+   * Simulate transferAgent
+   */
+  async simulateTransferAgent(
+    agentId: AgentId,
+    newOwner: Address,
+    options?: TransactionOptions
+  ): Promise<TransactionPlan> {
+    const agent = await this.loadAgent(agentId);
+    return agent.simulateTransfer(newOwner, options);
+  }
+
+  /**
+   * Simulate giveFeedback (no IPFS upload)
+   */
+  async simulateGiveFeedback(
+    agentId: AgentId,
+    feedbackFile: Record<string, unknown>,
+    feedbackAuth?: string,
+    options?: TransactionOptions
+  ): Promise<TransactionPlan> {
+    // Update feedback manager with registries
+    this._feedbackManager.setReputationRegistry(this.getReputationRegistry());
+    this._feedbackManager.setIdentityRegistry(this.getIdentityRegistry());
+
+    return this._feedbackManager.simulateGiveFeedback(agentId, feedbackFile, feedbackAuth, options);
+  }
+
+  /**
+   * Simulate appendResponse
+   */
+  async simulateAppendResponse(
+    agentId: AgentId,
+    clientAddress: Address,
+    feedbackIndex: number,
+    response: { uri: URI; hash: string },
+    options?: TransactionOptions
+  ): Promise<TransactionPlan> {
+    // Update feedback manager with registries
+    this._feedbackManager.setReputationRegistry(this.getReputationRegistry());
+
+    return this._feedbackManager.simulateAppendResponse(
+      agentId,
+      clientAddress,
+      feedbackIndex,
+      response.uri,
+      response.hash,
+      options
+    );
+  }
+
+  /**
+   * Simulate revokeFeedback
+   */
+  async simulateRevokeFeedback(
+    agentId: AgentId,
+    feedbackIndex: number,
+    options?: TransactionOptions
+  ): Promise<TransactionPlan> {
+    // Update feedback manager with registries
+    this._feedbackManager.setReputationRegistry(this.getReputationRegistry());
+
+    return this._feedbackManager.simulateRevokeFeedback(agentId, feedbackIndex, options);
+  }
+
+  /**
+   * Simulate requestValidation (no IPFS upload)
+   */
+  async simulateRequestValidation(
+    agentId: AgentId,
+    validatorAddress: Address,
+    requestFile: Record<string, unknown>,
+    options?: TransactionOptions
+  ): Promise<TransactionPlan> {
+    // Update validation manager with registries
+    this._validationManager.setValidationRegistry(this.getValidationRegistry());
+    this._validationManager.setIdentityRegistry(this.getIdentityRegistry());
+
+    return this._validationManager.simulateRequestValidation(agentId, validatorAddress, requestFile, options);
+  }
+
+  /**
+   * Simulate respondToValidation (no IPFS upload)
+   */
+  async simulateRespondToValidation(
+    requestHash: string,
+    response: number,
+    responseFile?: Record<string, unknown>,
+    tag?: string,
+    options?: TransactionOptions
+  ): Promise<TransactionPlan> {
+    // Update validation manager with registries
+    this._validationManager.setValidationRegistry(this.getValidationRegistry());
+
+    return this._validationManager.simulateRespondToValidation(
+      requestHash,
+      response,
+      responseFile,
+      tag,
+      options
+    );
   }
 
   /**
@@ -587,196 +1174,145 @@ export class SDK {
   }
 
   /**
-   * Private helper methods
+   * Fetch the registration file JSON at an agent URI (ipfs:// or http(s)://), exactly as published
    */
-  private async _loadRegistrationFile(tokenUri: string): Promise<RegistrationFile> {
-    try {
-      // Fetch from IPFS or HTTP
-      let rawData: unknown;
-      if (tokenUri.startsWith('ipfs://')) {
-        const cid = tokenUri.slice(7);
-        if (this._ipfsClient) {
-          // Use IPFS client if available
-          rawData = await this._ipfsClient.getJson(cid);
-        } else {
-          // Fallback to HTTP gateways if no IPFS client configured
-          const gateways = IPFS_GATEWAYS.map(gateway => `${gateway}${cid}`);
-          
-          let fetched = false;
-          for (const gateway of gateways) {
-            try {
-              const response = await fetch(gateway, {
-                signal: AbortSignal.timeout(TIMEOUTS.IPFS_GATEWAY),
-              });
-              if (response.ok) {
-                rawData = await response.json();
-                fetched = true;
-                break;
-              }
-            } catch {
-              continue;
+  async fetchRegistrationJson(agentUri: URI): Promise<Record<string, unknown>> {
+    // Fetch from IPFS or HTTP
+    let rawData: unknown;
+    if (agentUri.startsWith('ipfs://')) {
+      const cid = agentUri.slice(7);
+      if (this._ipfsClient) {
+        // Use IPFS client if available
+        rawData = await this._ipfsClient.getJson(cid);
+      } else {
+        // Fallback to HTTP gateways if no IPFS client configured
+        const gateways = IPFS_GATEWAYS.map(gateway => `${gateway}${cid}`);
+        
+        let fetched = false;
+        for (const gateway of gateways) {
+          try {
+            const response = await fetch(gateway, {
+              signal: AbortSignal.timeout(TIMEOUTS.IPFS_GATEWAY),
+            });
+            if (response.ok) {
+              rawData = await response.json();
+              fetched = true;
+              break;
             }
-          }
-          
-          if (!fetched) {
-            throw new Error('Failed to retrieve data from all IPFS gateways');
+          } catch {
+            continue;
           }
         }
-      } else if (tokenUri.startsWith('http://') || tokenUri.startsWith('https://')) {
-        const response = await fetch(tokenUri);
-        if (!response.ok) {
-          throw new Error(`Failed to fetch registration file: HTTP ${response.status}`);
+        
+        if (!fetched) {
+          throw new Error('Failed to retrieve data from all IPFS gateways');
         }
-        rawData = await response.json();
-      } else if (tokenUri.startsWith('data:')) {
-        // Data URIs are not supported
-        throw new Error(`Data URIs are not supported. Expected HTTP(S) or IPFS URI, got: ${tokenUri}`);
-      } else if (!tokenUri || tokenUri.trim() === '') {
-        // Empty URI - return empty registration file (agent registered without URI)
-        return this._createEmptyRegistrationFile();
-      } else {
-        throw new Error(`Unsupported URI scheme: ${tokenUri}`);
       }
-
-      // Validate rawData is an object before transformation
-      if (typeof rawData !== 'object' || rawData === null || Array.isArray(rawData)) {
-        throw new Error('Invalid registration file format: expected an object');
+    } else if (agentUri.startsWith('http://') || agentUri.startsWith('https://')) {
+      const response = await fetch(agentUri);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch registration file: HTTP ${response.status}`);
       }
+      rawData = await response.json();
+    } else if (agentUri.startsWith('data:')) {
+      // Data URIs are not supported
+      throw new Error(`Data URIs are not supported. Expected HTTP(S) or IPFS URI, got: ${agentUri}`);
+    } else {
+      throw new Error(`Unsupported URI scheme: ${agentUri}`);
+    }
 
-      // Transform IPFS/HTTP file format to RegistrationFile format
-      return this._transformRegistrationFile(rawData as Record<string, unknown>);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(`Failed to load registration file: ${errorMessage}`);
+    if (typeof rawData !== 'object' || rawData === null || Array.isArray(rawData)) {
+      throw new Error('Invalid registration file format: expected an object');
     }
+    return rawData as Record<string, unknown>;
   }
 
   /**
-   * Transform raw registration file (from IPFS/HTTP) to RegistrationFile format
-   * Accepts raw JSON data which may have legacy format or new format
+   * Private helper methods
    */
-  private _transformRegistrationFile(rawData: Record<string, unknown>): RegistrationFile {
-    const endpoints = this._transformEndpoints(rawData);
-    const { walletAddress, walletChainId } = this._extractWalletInfo(rawData);
-    
-    // Extract trust models with proper type checking
-    const trustModels: (TrustModel | string)[] = Array.isArray(rawData.supportedTrust)
-      ? rawData.supportedTrust
-      : Array.isArray(rawData.trustModels)
-      ? rawData.trustModels
-      : [];
+  private async _loadRegistrationFile(tokenUri: string): Promise<RegistrationFile> {
+    if (!tokenUri || tokenUri.trim() === '') {
+      // Empty URI - return empty registration file (agent registered without URI)
+      return this._createEmptyRegistrationFile();
+    }
 
-    return {
-      name: typeof rawData.name === 'string' ? rawData.name : '',
-      description: typeof rawData.description === 'string' ? rawData.description : '',
-      image: typeof rawData.image === 'string' ? rawData.image : undefined,
-      endpoints,
-      trustModels,
-      owners: Array.isArray(rawData.owners) ? rawData.owners.filter((o): o is Address => typeof o === 'string') : [],
-      operators: Array.isArray(rawData.operators) ? rawData.operators.filter((o): o is Address => typeof o === 'string') : [],
-      active: typeof rawData.active === 'boolean' ? rawData.active : false,
-      x402support: typeof rawData.x402support === 'boolean' ? rawData.x402support : false,
-      metadata: typeof rawData.metadata === 'object' && rawData.metadata !== null && !Array.isArray(rawData.metadata) 
-        ? rawData.metadata as Record<string, unknown>
-        : {},
-      updatedAt: typeof rawData.updatedAt === 'number' ? rawData.updatedAt : Math.floor(Date.now() / 1000),
-      walletAddress,
-      walletChainId,
-    };
+    try {
+      return decodeRegistrationFile(await this.fetchRegistrationJson(tokenUri));
+    } catch (error) {
+      throw withErrorContext(error, 'Failed to load registration file');
+    }
   }
 
   /**
-   * Transform endpoints from old format { name, endpoint, version } to new format { type, value, meta }
+   * Metadata keys ever set for an agent, from MetadataSet events
    */
-  private _transformEndpoints(rawData: Record<string, unknown>): Endpoint[] {
-    const endpoints: Endpoint[] = [];
-    
-    if (!rawData.endpoints || !Array.isArray(rawData.endpoints)) {
-      return endpoints;
-    }
-    
-    for (const ep of rawData.endpoints) {
-      // Check if it's already in the new format
-      if (ep.type && ep.value !== undefined) {
-        endpoints.push({
-          type: ep.type as EndpointType,
-          value: ep.value,
-          meta: ep.meta,
-        } as Endpoint);
-      } else {
-        // Transform from old format
-        const transformed = this._transformEndpointLegacy(ep, rawData);
-        if (transformed) {
-          endpoints.push(transformed);
+  private async _getMetadataKeys(identityRegistry: ethers.Contract, tokenId: bigint): Promise<string[]> {
+    const keys = new Set<string>(Object.values(METADATA_KEYS));
+    try {
+      const logs = await this._web3Client.getEvents(identityRegistry, 'MetadataSet', 0, undefined, tokenId);
+      for (const log of logs) {
+        const key = (log as ethers.EventLog).args?.key;
+        if (typeof key === 'string') {
+          keys.add(key);
         }
       }
+    } catch {
+      // Many RPCs cap eth_getLogs block ranges - fall back to the SDK's own keys
     }
-    
-    return endpoints;
+    return Array.from(keys);
   }
 
   /**
-   * Transform a single endpoint from legacy format
+   * Non-empty URIs an agent was registered with, from Registered and UriUpdated events, oldest first
    */
-  private _transformEndpointLegacy(ep: Record<string, unknown>, rawData: Record<string, unknown>): Endpoint | null {
-    const name = typeof ep.name === 'string' ? ep.name : '';
-    const value = typeof ep.endpoint === 'string' ? ep.endpoint : '';
-    const version = typeof ep.version === 'string' ? ep.version : undefined;
-
-    // Map endpoint names to types using case-insensitive lookup
-    const nameLower = name.toLowerCase();
-    const ENDPOINT_TYPE_MAP: Record<string, EndpointType> = {
-      'mcp': EndpointType.MCP,
-      'a2a': EndpointType.A2A,
-      'ens': EndpointType.ENS,
-      'did': EndpointType.DID,
-      'agentwallet': EndpointType.WALLET,
-      'wallet': EndpointType.WALLET,
-    };
-
-    let type: string;
-    if (ENDPOINT_TYPE_MAP[nameLower]) {
-      type = ENDPOINT_TYPE_MAP[nameLower];
-      
-      // Special handling for wallet endpoints - parse eip155 format
-      if (type === EndpointType.WALLET) {
-        const walletMatch = value.match(/eip155:(\d+):(0x[a-fA-F0-9]{40})/);
-        if (walletMatch) {
-          rawData._walletAddress = walletMatch[2];
-          rawData._walletChainId = parseInt(walletMatch[1], 10);
-        }
-      }
-    } else {
-      type = name; // Fallback to name as type
-    }
-
-    return {
-      type: type as EndpointType,
-      value,
-      meta: version ? { version } : undefined,
-    } as Endpoint;
+  private async _getUriEvents(
+    identityRegistry: ethers.Contract,
+    tokenId: bigint
+  ): Promise<Array<Pick<RegistrationVersion, 'agentURI' | 'blockNumber' | 'txHash'>>> {
+    const [registered, updated] = await Promise.all([
+      this._web3Client.getEvents(identityRegistry, 'Registered', 0, undefined, tokenId),
+      this._web3Client.getEvents(identityRegistry, 'UriUpdated', 0, undefined, tokenId),
+    ]);
+    return [...registered, ...updated]
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index)
+      .map((log) => {
+        const event = log as ethers.EventLog;
+        const agentURI = event.eventName === 'Registered' ? event.args?.tokenURI : event.args?.newUri;
+        return { agentURI, blockNumber: log.blockNumber, txHash: log.transactionHash };
+      })
+      .filter((entry): entry is { agentURI: string; blockNumber: number; txHash: string } =>
+        typeof entry.agentURI === 'string' && entry.agentURI !== ''
+      );
   }
 
   /**
-   * Extract wallet address and chain ID from raw data
+   * Overlay on-chain metadata onto a loaded registration file
+   * agentWallet maps to walletAddress / walletChainId, agentName to the ENS endpoint, other keys to metadata
    */
-  private _extractWalletInfo(rawData: Record<string, unknown>): { walletAddress?: string; walletChainId?: number } {
-    // Priority: extracted from endpoints > direct fields
-    if (typeof rawData._walletAddress === 'string' && typeof rawData._walletChainId === 'number') {
-      return {
-        walletAddress: rawData._walletAddress,
-        walletChainId: rawData._walletChainId,
-      };
-    }
-    
-    if (typeof rawData.walletAddress === 'string' && typeof rawData.walletChainId === 'number') {
-      return {
-        walletAddress: rawData.walletAddress,
-        walletChainId: rawData.walletChainId,
-      };
+  private _applyOnChainMetadata(registrationFile: RegistrationFile, metadata: Record<string, unknown>): void {
+    for (const [key, value] of Object.entries(metadata)) {
+      if (key === METADATA_KEYS.AGENT_WALLET) {
+        if (typeof value === 'object' && value !== null) {
+          const wallet = value as { chainId: number; address: string };
+          registrationFile.walletAddress = wallet.address;
+          registrationFile.walletChainId = wallet.chainId;
+        }
+      } else if (key === METADATA_KEYS.AGENT_NAME) {
+        if (typeof value === 'string') {
+          const ensEndpoint = registrationFile.endpoints.find((ep) => ep.type === EndpointType.ENS);
+          if (ensEndpoint?.value !== value) {
+            registrationFile.endpoints = registrationFile.endpoints.filter((ep) => ep.type !== EndpointType.ENS);
+            registrationFile.endpoints.push({
+              type: EndpointType.ENS,
+              value,
+              meta: { version: ensEndpoint?.meta?.version ?? '1.0' },
+            });
+          }
+        }
+      } else {
+        registrationFile.metadata[key] = value;
+      }
     }
-    
-    return {};
   }
 
   // Expose clients for advanced usage
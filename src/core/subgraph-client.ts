@@ -3,8 +3,15 @@
  */
 
 import { GraphQLClient } from 'graphql-request';
-import type { AgentSummary, SearchParams } from '../models/interfaces.js';
+import type {
+  AgentSummary,
+  SearchParams,
+  SearchValidationsParams,
+  ValidationStatus,
+  ValidationState,
+} from '../models/interfaces.js';
 import { normalizeAddress } from '../utils/validation.js';
+import { SubgraphUnavailableError, withErrorContext } from './errors.js';
 import type { Agent, AgentRegistrationFile } from '../models/generated/subgraph-types.js';
 
 export interface SubgraphQueryOptions {
@@ -22,6 +29,29 @@ export type QueryAgent = Pick<Agent, 'id' | 'chainId' | 'agentId' | 'owner' | 'o
   registrationFile?: AgentRegistrationFile | null;
 };
 
+// Type representing the validation data returned from our queries
+export interface QueryValidation {
+  id: string;
+  agent?: { id: string } | null;
+  validatorAddress: string;
+  requestUri?: string | null;
+  requestHash: string;
+  response?: number | null;
+  responseUri?: string | null;
+  responseHash?: string | null;
+  tag?: string | null;
+  status: 'PENDING' | 'COMPLETED' | 'EXPIRED';
+  createdAt: string;
+  updatedAt?: string | null;
+}
+
+// Map SDK validation states to subgraph ValidationStatus enum values
+const VALIDATION_STATUS_MAP: Record<ValidationState, QueryValidation['status']> = {
+  pending: 'PENDING',
+  responded: 'COMPLETED',
+  expired: 'EXPIRED',
+};
+
 /**
  * Client for querying the subgraph GraphQL API
  */
@@ -44,7 +74,8 @@ export class SubgraphClient {
       const data = await this.client.request<T>(query, variables || {});
       return data;
     } catch (error) {
-      throw new Error(`Failed to query subgraph: ${error}`);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new SubgraphUnavailableError(`Failed to query subgraph: ${errorMessage}`, { cause: error });
     }
   }
 
@@ -185,7 +216,7 @@ export class SubgraphClient {
       const data = await this.query<{ agents: QueryAgent[] }>(query, variables);
       return (data.agents || []).map((agent) => this._transformAgent(agent)) as AgentSummary[];
     } catch (error) {
-      throw new Error(`Failed to get agents from subgraph: ${error}`);
+      throw withErrorContext(error, 'Failed to get agents from subgraph');
     }
   }
 
@@ -237,7 +268,7 @@ export class SubgraphClient {
       }
       return this._transformAgent(data.agent) as AgentSummary;
     } catch (error) {
-      throw new Error(`Failed to get agent from subgraph: ${error}`);
+      throw withErrorContext(error, 'Failed to get agent from subgraph');
     }
   }
 
@@ -391,6 +422,7 @@ export class SubgraphClient {
       minScore?: number;
       maxScore?: number;
       includeRevoked?: boolean;
+      after?: { createdAt: string; id: string }; // Keyset: entries after this one in (createdAt, id) order
     },
     first: number = 100,
     skip: number = 0,
@@ -471,13 +503,23 @@ export class SubgraphClient {
     }
 
     // Use tag_filter_condition if tags were provided, otherwise use standard where clause
-    let whereClause = '';
+    let baseWhere = '';
     if (tagFilterCondition) {
       // tagFilterCondition already contains properly formatted items
-      whereClause = `where: { or: [${tagFilterCondition}] }`;
+      baseWhere = `{ or: [${tagFilterCondition}] }`;
     } else if (whereConditions.length > 0) {
-      whereClause = `where: { ${whereConditions.join(', ')} }`;
+      baseWhere = `{ ${whereConditions.join(', ')} }`;
+    }
+
+    // Keyset pagination: ties on createdAt are broken by id (the subgraph's secondary sort key)
+    if (params.after) {
+      const op = orderDirection === 'desc' ? 'lt' : 'gt';
+      const createdAt = JSON.stringify(String(params.after.createdAt));
+      const id = JSON.stringify(String(params.after.id));
+      const keyset = `{ or: [{ createdAt_${op}: ${createdAt} }, { createdAt: ${createdAt}, id_${op}: ${id} }] }`;
+      baseWhere = baseWhere ? `{ and: [${baseWhere}, ${keyset}] }` : keyset;
     }
+    const whereClause = baseWhere ? `where: ${baseWhere}` : '';
 
     const query = `
       {
@@ -532,6 +574,103 @@ export class SubgraphClient {
     return result.feedbacks || [];
   }
 
+  /**
+   * Search validations with filters
+   * @param params Search parameters (chains is ignored - one client per chain)
+   * @param first Maximum number of results to return (default: 100)
+   * @param skip Number of results to skip for pagination (default: 0)
+   */
+  async searchValidations(
+    params: SearchValidationsParams,
+    first: number = 100,
+    skip: number = 0,
+    orderBy: string = 'createdAt',
+    orderDirection: 'asc' | 'desc' = 'desc'
+  ): Promise<ValidationStatus[]> {
+    const whereConditions: string[] = [];
+
+    if (params.agents && params.agents.length > 0) {
+      const agentIds = params.agents.map((aid) => `"${aid}"`).join(', ');
+      whereConditions.push(`agent_in: [${agentIds}]`);
+    }
+
+    if (params.validators && params.validators.length > 0) {
+      const validators = params.validators.map((addr) => `"${normalizeAddress(addr)}"`).join(', ');
+      whereConditions.push(`validatorAddress_in: [${validators}]`);
+    }
+
+    if (params.tags && params.tags.length > 0) {
+      const tags = params.tags.map((tag) => `"${tag}"`).join(', ');
+      whereConditions.push(`tag_in: [${tags}]`);
+    }
+
+    if (params.minResponse !== undefined) {
+      whereConditions.push(`response_gte: ${params.minResponse}`);
+    }
+
+    if (params.status !== undefined) {
+      const states = Array.isArray(params.status) ? params.status : [params.status];
+      const statuses = states.map((state) => VALIDATION_STATUS_MAP[state]).join(', ');
+      whereConditions.push(`status_in: [${statuses}]`);
+    }
+
+    const whereClause = whereConditions.length > 0 ? `where: { ${whereConditions.join(', ')} }` : '';
+
+    const query = `
+      {
+        validations(
+          ${whereClause}
+          first: ${first}
+          skip: ${skip}
+          orderBy: ${orderBy}
+          orderDirection: ${orderDirection}
+        ) {
+          id
+          agent { id }
+          validatorAddress
+          requestUri
+          requestHash
+          response
+          responseUri
+          responseHash
+          tag
+          status
+          createdAt
+          updatedAt
+        }
+      }
+    `;
+
+    try {
+      const result = await this.query<{ validations: QueryValidation[] }>(query);
+      return (result.validations || []).map((validation) => this._transformValidation(validation));
+    } catch (error) {
+      throw withErrorContext(error, 'Failed to search validations from subgraph');
+    }
+  }
+
+  /**
+   * Transform raw subgraph validation data to ValidationStatus
+   */
+  private _transformValidation(validation: QueryValidation): ValidationStatus {
+    const responded = validation.status === 'COMPLETED';
+    const updatedAt = validation.updatedAt ? parseInt(validation.updatedAt, 10) : undefined;
+
+    return {
+      requestHash: validation.requestHash || validation.id,
+      status: responded ? 'responded' : validation.status === 'EXPIRED' ? 'expired' : 'pending',
+      agentId: validation.agent?.id,
+      validatorAddress: validation.validatorAddress ? normalizeAddress(validation.validatorAddress) : undefined,
+      requestUri: validation.requestUri || undefined,
+      requestedAt: parseInt(validation.createdAt, 10),
+      response: responded && validation.response !== null ? validation.response : undefined,
+      tag: validation.tag || undefined,
+      responseUri: validation.responseUri || undefined,
+      responseHash: validation.responseHash || undefined,
+      respondedAt: responded ? updatedAt : undefined,
+    };
+  }
+
   /**
    * Search agents filtered by reputation criteria
    */
@@ -762,7 +901,7 @@ export class SubgraphClient {
 
       return filteredAgents;
     } catch (error) {
-      throw new Error(`Subgraph reputation search failed: ${error}`);
+      throw withErrorContext(error, 'Subgraph reputation search failed');
     }
   }
 }
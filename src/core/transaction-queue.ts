@@ -0,0 +1,348 @@
+/**
+ * Nonce-managed transaction queue for a single signer
+ */
+
+import type {
+  Provider,
+  Signer,
+  TransactionReceipt,
+  TransactionRequest,
+  TransactionResponse,
+} from 'ethers';
+import { DEFAULTS, TIMEOUTS } from '../utils/constants.js';
+import { TransactionDroppedError, TransactionTimeoutError } from './errors.js';
+
+export type TransactionEventType = 'sent' | 'replaced' | 'mined' | 'dropped';
+
+export interface TransactionEvent {
+  type: TransactionEventType;
+  hash: string; // Hash this event is about (the replacement for 'replaced', the mined one for 'mined')
+  nonce: number;
+  originalHash: string; // Hash returned by the first send; stable across replacements
+  replacedHash?: string; // 'replaced': hash that was superseded
+  cancelled?: boolean; // 'replaced': replacement is a 0-value self-transfer
+  blockNumber?: number; // 'mined'
+  success?: boolean; // 'mined': receipt status
+}
+
+export type TransactionListener = (event: TransactionEvent) => void;
+
+/**
+ * A broadcast transaction and every replacement sent for its nonce
+ */
+interface QueuedTransaction {
+  nonce: number;
+  hashes: string[]; // Broadcast order; last is the current replacement
+  latest: TransactionResponse;
+  status: 'pending' | 'mined' | 'dropped';
+}
+
+// Nodes reject replacements that bump fees by less than 10%
+const MIN_FEE_BUMP_PERCENT = 10;
+
+/**
+ * Serializes sends from one signer and assigns nonces locally, so concurrent writes do not collide
+ * Nonces are synced from the chain ('pending') on first use and after a failed send
+ */
+export class TransactionQueue {
+  private nextNonce?: number;
+  private tail: Promise<unknown> = Promise.resolve();
+  private readonly transactions = new Map<string, QueuedTransaction>(); // Keyed by every hash sent
+  private readonly listeners = new Map<TransactionEventType, Set<TransactionListener>>();
+
+  constructor(
+    private readonly signer: Signer,
+    private readonly provider: Provider,
+    private readonly pollInterval: number = TIMEOUTS.TRANSACTION_POLL_INTERVAL
+  ) {}
+
+  /**
+   * Subscribe to lifecycle events
+   * 'mined' and 'dropped' are detected while a transaction is being waited on, or by the next send
+   */
+  on(type: TransactionEventType, listener: TransactionListener): this {
+    if (!this.listeners.has(type)) {
+      this.listeners.set(type, new Set());
+    }
+    this.listeners.get(type)!.add(listener);
+    return this;
+  }
+
+  off(type: TransactionEventType, listener: TransactionListener): this {
+    this.listeners.get(type)?.delete(listener);
+    return this;
+  }
+
+  /**
+   * Queue a transaction; resolves once it has been broadcast
+   * An explicit nonce in the request is used as-is (and advances the local counter past it)
+   */
+  async send(request: TransactionRequest): Promise<TransactionResponse> {
+    return this._enqueue(async () => {
+      await this._settle();
+      const explicitNonce = request.nonce ?? undefined;
+      const nonce = explicitNonce ?? (await this._reserveNonce());
+
+      let response: TransactionResponse;
+      try {
+        response = await this.signer.sendTransaction({ ...request, nonce });
+      } catch (error) {
+        // Nothing was broadcast - resync from chain before the next send
+        if (explicitNonce === undefined) {
+          this.nextNonce = undefined;
+        }
+        throw error;
+      }
+
+      this.nextNonce = Math.max(this.nextNonce ?? 0, nonce + 1);
+      const queued: QueuedTransaction = {
+        nonce,
+        hashes: [response.hash],
+        latest: response,
+        status: 'pending',
+      };
+      this.transactions.set(response.hash, queued);
+      this._emit({ type: 'sent', hash: response.hash, nonce, originalHash: response.hash });
+      return response;
+    });
+  }
+
+  /**
+   * Re-broadcast a pending transaction with the same nonce and bumped fees
+   * Returns the replacement hash; waiting on any earlier hash follows the replacement
+   */
+  async speedUp(txHash: string, bumpPercent: number = DEFAULTS.TX_FEE_BUMP_PERCENT): Promise<string> {
+    const queued = this._getPending(txHash);
+    const latest = queued.latest;
+    const fees = await this._bumpedFees(latest, bumpPercent);
+    return this._replace(
+      queued,
+      { to: latest.to, data: latest.data, value: latest.value, gasLimit: latest.gasLimit, ...fees },
+      false
+    );
+  }
+
+  /**
+   * Replace a pending transaction with a 0-value transfer to self (same nonce, bumped fees)
+   */
+  async cancel(txHash: string, bumpPercent: number = DEFAULTS.TX_FEE_BUMP_PERCENT): Promise<string> {
+    const queued = this._getPending(txHash);
+    const fees = await this._bumpedFees(queued.latest, bumpPercent);
+    return this._replace(
+      queued,
+      { to: await this.signer.getAddress(), data: '0x', value: 0n, gasLimit: 21000n, ...fees },
+      true
+    );
+  }
+
+  /**
+   * Wait until the transaction (or one of its replacements) is mined
+   * Throws TransactionDroppedError if its nonce is consumed by a transaction this queue did not send
+   * Only tracked (unsettled) hashes can be waited on
+   */
+  async wait(txHash: string, timeout: number = TIMEOUTS.TRANSACTION_WAIT): Promise<TransactionReceipt> {
+    const queued = this.transactions.get(txHash);
+    if (!queued) {
+      throw new Error(`Transaction ${txHash} was not sent through this queue`);
+    }
+
+    const deadline = Date.now() + timeout;
+    const from = await this.signer.getAddress();
+    for (;;) {
+      const found = await this._findReceipt(queued);
+      if (found) {
+        this._settleMined(queued, found);
+        return found.receipt;
+      }
+
+      // Nonce used up but none of our versions landed (re-check to rule out a receipt racing the count)
+      const minedNonce = await this.provider.getTransactionCount(from, 'latest');
+      if (minedNonce > queued.nonce && !(await this._findReceipt(queued))) {
+        this._settleDropped(queued);
+        throw new TransactionDroppedError(
+          `Transaction ${queued.hashes[0]} was dropped: nonce ${queued.nonce} was used by another transaction`
+        );
+      }
+
+      if (Date.now() >= deadline) {
+        throw new TransactionTimeoutError(`Timed out after ${timeout}ms waiting for transaction ${txHash}`);
+      }
+      const delay = Math.min(this.pollInterval, deadline - Date.now());
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  /**
+   * Whether a hash was sent through this queue (including replacements)
+   */
+  has(txHash: string): boolean {
+    return this.transactions.has(txHash);
+  }
+
+  /**
+   * Forget the locally tracked nonce; the next send re-reads it from the chain
+   */
+  resetNonce(): void {
+    this.nextNonce = undefined;
+  }
+
+  /**
+   * Receipt of whichever version of the transaction was mined, newest first
+   */
+  private async _findReceipt(
+    queued: QueuedTransaction
+  ): Promise<{ hash: string; receipt: TransactionReceipt } | null> {
+    for (const hash of [...queued.hashes].reverse()) {
+      const receipt = await this.provider.getTransactionReceipt(hash);
+      if (receipt) {
+        return { hash, receipt };
+      }
+    }
+    return null;
+  }
+
+  private async _reserveNonce(): Promise<number> {
+    if (this.nextNonce === undefined) {
+      this.nextNonce = await this.provider.getTransactionCount(await this.signer.getAddress(), 'pending');
+    }
+    return this.nextNonce;
+  }
+
+  private async _replace(
+    queued: QueuedTransaction,
+    request: TransactionRequest,
+    cancelled: boolean
+  ): Promise<string> {
+    return this._enqueue(async () => {
+      const replacedHash = queued.hashes[queued.hashes.length - 1];
+      const response = await this.signer.sendTransaction({ ...request, nonce: queued.nonce });
+
+      queued.hashes.push(response.hash);
+      queued.latest = response;
+      this.transactions.set(response.hash, queued);
+      this._emit({
+        type: 'replaced',
+        hash: response.hash,
+        nonce: queued.nonce,
+        originalHash: queued.hashes[0],
+        replacedHash,
+        cancelled,
+      });
+      return response.hash;
+    });
+  }
+
+  /**
+   * Fees for a replacement: previous fees bumped by bumpPercent, or current network fees if higher
+   */
+  private async _bumpedFees(
+    previous: TransactionResponse,
+    bumpPercent: number
+  ): Promise<Pick<TransactionRequest, 'gasPrice' | 'maxFeePerGas' | 'maxPriorityFeePerGas'>> {
+    const percent = BigInt(Math.ceil(Math.max(bumpPercent, MIN_FEE_BUMP_PERCENT) * 100));
+    const bump = (value: bigint) => (value * (10000n + percent) + 9999n) / 10000n;
+    const max = (a: bigint, b: bigint | null) => (b !== null && b > a ? b : a);
+    const feeData = await this.provider.getFeeData();
+
+    if (previous.maxFeePerGas !== null && previous.maxPriorityFeePerGas !== null) {
+      return {
+        maxFeePerGas: max(bump(previous.maxFeePerGas), feeData.maxFeePerGas),
+        maxPriorityFeePerGas: max(bump(previous.maxPriorityFeePerGas), feeData.maxPriorityFeePerGas),
+      };
+    }
+    return { gasPrice: max(bump(previous.gasPrice ?? 0n), feeData.gasPrice) };
+  }
+
+  private _getPending(txHash: string): QueuedTransaction {
+    const queued = this.transactions.get(txHash);
+    if (!queued || queued.status !== 'pending') {
+      throw new Error(`Transaction ${txHash} is not pending in this queue`);
+    }
+    return queued;
+  }
+
+  /**
+   * Settle pending transactions whose nonce the chain has used, so ones nobody waits on are not tracked forever
+   * Bookkeeping only: a failed lookup is retried on the next send instead of failing this one
+   */
+  private async _settle(): Promise<void> {
+    const pending = new Set(Array.from(this.transactions.values()).filter((queued) => queued.status === 'pending'));
+    if (pending.size === 0) {
+      return;
+    }
+    try {
+      const minedNonce = await this.provider.getTransactionCount(await this.signer.getAddress(), 'latest');
+      for (const queued of pending) {
+        if (queued.nonce >= minedNonce) {
+          continue;
+        }
+        const found = await this._findReceipt(queued);
+        if (found) {
+          this._settleMined(queued, found);
+        } else {
+          this._settleDropped(queued);
+        }
+      }
+    } catch {
+      // Left pending
+    }
+  }
+
+  private _settleMined(queued: QueuedTransaction, found: { hash: string; receipt: TransactionReceipt }): void {
+    if (queued.status !== 'pending') {
+      return;
+    }
+    queued.status = 'mined';
+    this._forget(queued);
+    this._emit({
+      type: 'mined',
+      hash: found.hash,
+      nonce: queued.nonce,
+      originalHash: queued.hashes[0],
+      blockNumber: found.receipt.blockNumber,
+      success: found.receipt.status === 1,
+    });
+  }
+
+  private _settleDropped(queued: QueuedTransaction): void {
+    if (queued.status !== 'pending') {
+      return;
+    }
+    queued.status = 'dropped';
+    this._forget(queued);
+    this._emit({
+      type: 'dropped',
+      hash: queued.hashes[queued.hashes.length - 1],
+      nonce: queued.nonce,
+      originalHash: queued.hashes[0],
+    });
+  }
+
+  /**
+   * Stop tracking a settled transaction so long-running signers do not accumulate history
+   */
+  private _forget(queued: QueuedTransaction): void {
+    for (const hash of queued.hashes) {
+      this.transactions.delete(hash);
+    }
+  }
+
+  /**
+   * Run a send after all previously queued sends have settled
+   */
+  private _enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.tail.then(task, task);
+    this.tail = run.catch(() => undefined);
+    return run;
+  }
+
+  private _emit(event: TransactionEvent): void {
+    for (const listener of this.listeners.get(event.type) || []) {
+      try {
+        listener(event);
+      } catch {
+        // Listener errors must not break the send path
+      }
+    }
+  }
+}
@@ -0,0 +1,471 @@
+/**
+ * Validation management system for Agent0 SDK
+ */
+
+import { ethers } from 'ethers';
+import type {
+  ValidationRequest,
+  ValidationResponse,
+  ValidationStatus,
+  TransactionPlan,
+} from '../models/interfaces.js';
+import type { AgentId, Address, URI, Timestamp } from '../models/types.js';
+import type { Web3Client, TransactionOptions } from './web3-client.js';
+import type { IPFSClient } from './ipfs-client.js';
+import { parseAgentId, formatAgentId } from '../utils/id-format.js';
+import { isValidAddress, isValidScore, normalizeAddress } from '../utils/validation.js';
+import { DEFAULTS, TIMEOUTS } from '../utils/constants.js';
+import { computeFileHash } from '../utils/canonical-json.js';
+import { IpfsUploadError, withErrorContext } from './errors.js';
+
+/**
+ * Request submitted through this manager, kept so status can be resolved without a log scan
+ */
+interface TrackedRequest {
+  agentId: AgentId;
+  validatorAddress: Address;
+  requestUri: URI;
+  requestedAt: Timestamp;
+  expiresAt: Timestamp;
+}
+
+/**
+ * Manages validation operations for the Agent0 SDK
+ */
+export class ValidationManager {
+  private trackedRequests = new Map<string, TrackedRequest>();
+
+  constructor(
+    private web3Client: Web3Client,
+    private ipfsClient?: IPFSClient,
+    private validationRegistry?: ethers.Contract,
+    private identityRegistry?: ethers.Contract
+  ) {}
+
+  /**
+   * Set validation registry contract (for lazy initialization)
+   */
+  setValidationRegistry(registry: ethers.Contract): void {
+    this.validationRegistry = registry;
+  }
+
+  /**
+   * Set identity registry contract (for lazy initialization)
+   */
+  setIdentityRegistry(registry: ethers.Contract): void {
+    this.identityRegistry = registry;
+  }
+
+  /**
+   * Prepare validation request file (local file/object) according to spec
+   * Needs the chain ID resolved and the identity registry set (SDK.prepareValidationRequest does both)
+   */
+  prepareValidationRequest(
+    agentId: AgentId,
+    validatorAddress: Address,
+    data?: Record<string, unknown>
+  ): Record<string, unknown> {
+    const { tokenId } = parseAgentId(agentId);
+
+    const chainId = this._resolvedChainId();
+    if (!this.identityRegistry) {
+      throw new Error('Identity registry not available');
+    }
+    const identityRegistryAddress = this.identityRegistry.target as string;
+    const requesterAddress = this.web3Client.address || '0x0';
+
+    const requestData: Record<string, unknown> = {
+      agentRegistry: `eip155:${chainId}:${identityRegistryAddress}`,
+      agentId: tokenId,
+      validatorAddress: `eip155:${chainId}:${validatorAddress}`,
+      requesterAddress: `eip155:${chainId}:${requesterAddress}`,
+      createdAt: new Date().toISOString(),
+    };
+
+    if (data) {
+      Object.assign(requestData, data);
+    }
+
+    return requestData;
+  }
+
+  /**
+   * Request validation of an agent from a validator (maps 8004 validationRequest)
+   * The request file is stored on IPFS and its hash becomes the on-chain requestHash
+   */
+  async requestValidation(
+    agentId: AgentId,
+    validatorAddress: Address,
+    requestFile: Record<string, unknown>,
+    expiryHours: number = DEFAULTS.VALIDATION_EXPIRY_HOURS,
+    options: TransactionOptions = {}
+  ): Promise<ValidationRequest> {
+    if (!this.validationRegistry) {
+      throw new Error('Validation registry not available');
+    }
+    if (!isValidAddress(validatorAddress)) {
+      throw new Error(`Invalid validator address: ${validatorAddress}`);
+    }
+    if (!this.ipfsClient) {
+      throw new Error('Validation requests require IPFS client for storage');
+    }
+
+    const { tokenId } = parseAgentId(agentId);
+
+    // Store request file on IPFS
+    let requestUri: URI;
+    let requestHash: string;
+    try {
+      const cid = await this.ipfsClient.addJson(requestFile);
+      requestUri = `ipfs://${cid}`;
+      requestHash = computeFileHash(requestFile);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new IpfsUploadError(`Failed to store validation request on IPFS: ${errorMessage}`, { cause: error });
+    }
+
+    try {
+      const txHash = await this.web3Client.transactContract(
+        this.validationRegistry,
+        'validationRequest',
+        options,
+        validatorAddress,
+        BigInt(tokenId),
+        requestUri,
+        requestHash
+      );
+
+      // Wait for transaction confirmation
+      await this.web3Client.waitForTransaction(txHash);
+
+      // Track request so its lifecycle can be followed until the validator responds
+      const requestedAt = Math.floor(Date.now() / 1000);
+      this.trackedRequests.set(requestHash.toLowerCase(), {
+        agentId,
+        validatorAddress,
+        requestUri,
+        requestedAt,
+        expiresAt: requestedAt + expiryHours * 3600,
+      });
+
+      return {
+        requestHash,
+        agentId,
+        validatorAddress,
+        requestUri,
+        txHash,
+      };
+    } catch (error) {
+      throw withErrorContext(error, 'Failed to submit validation request to blockchain');
+    }
+  }
+
+  /**
+   * Prepare validation response file (local file/object) according to spec
+   * Needs the chain ID resolved (SDK.prepareValidationResponse does this)
+   */
+  prepareValidationResponse(
+    requestHash: string,
+    response: number,
+    data?: Record<string, unknown>
+  ): Record<string, unknown> {
+    const chainId = this._resolvedChainId();
+    const validatorAddress = this.web3Client.address || '0x0';
+
+    const responseData: Record<string, unknown> = {
+      requestHash,
+      response: Math.round(response),
+      validatorAddress: `eip155:${chainId}:${validatorAddress}`,
+      createdAt: new Date().toISOString(),
+    };
+
+    if (data) {
+      Object.assign(responseData, data);
+    }
+
+    return responseData;
+  }
+
+  /**
+   * Respond to a validation request as the designated validator (maps 8004 validationResponse)
+   * The response file is optional; when provided it is stored on IPFS and hashed
+   */
+  async respondToValidation(
+    requestHash: string,
+    response: number,
+    responseFile?: Record<string, unknown>,
+    tag?: string,
+    options: TransactionOptions = {}
+  ): Promise<ValidationResponse> {
+    if (!this.validationRegistry) {
+      throw new Error('Validation registry not available');
+    }
+    if (!isValidScore(response)) {
+      throw new Error(`Invalid validation response: ${response}. Expected an integer between 0 and 100`);
+    }
+    if (!ethers.isHexString(requestHash, 32)) {
+      throw new Error(`Invalid request hash: ${requestHash}. Expected a 32-byte hex string`);
+    }
+
+    // Handle off-chain file storage
+    let responseUri = '';
+    let responseHash = '0x' + '00'.repeat(32);
+
+    if (responseFile) {
+      if (!this.ipfsClient) {
+        throw new Error('Validation response files require IPFS client for storage');
+      }
+      try {
+        const cid = await this.ipfsClient.addJson(responseFile);
+        responseUri = `ipfs://${cid}`;
+        responseHash = computeFileHash(responseFile);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new IpfsUploadError(`Failed to store validation response on IPFS: ${errorMessage}`, { cause: error });
+      }
+    }
+
+    try {
+      const txHash = await this.web3Client.transactContract(
+        this.validationRegistry,
+        'validationResponse',
+        options,
+        requestHash,
+        response,
+        responseUri,
+        responseHash,
+        this._stringToBytes32(tag || '')
+      );
+
+      // Wait for transaction confirmation
+      await this.web3Client.waitForTransaction(txHash);
+
+      return {
+        requestHash,
+        response,
+        responseUri: responseUri || undefined,
+        responseHash: responseFile ? responseHash : undefined,
+        tag: tag || undefined,
+        txHash,
+      };
+    } catch (error) {
+      throw withErrorContext(error, 'Failed to submit validation response to blockchain');
+    }
+  }
+
+  /**
+   * Dry run of requestValidation: simulate the registry call without uploading the file or broadcasting
+   */
+  async simulateRequestValidation(
+    agentId: AgentId,
+    validatorAddress: Address,
+    requestFile: Record<string, unknown>,
+    options: TransactionOptions = {}
+  ): Promise<TransactionPlan> {
+    if (!this.validationRegistry) {
+      throw new Error('Validation registry not available');
+    }
+    if (!isValidAddress(validatorAddress)) {
+      throw new Error(`Invalid validator address: ${validatorAddress}`);
+    }
+
+    const { tokenId } = parseAgentId(agentId);
+    const call = await this.web3Client.simulateContract(
+      this.validationRegistry,
+      'validationRequest',
+      options,
+      validatorAddress,
+      BigInt(tokenId),
+      DEFAULTS.DRY_RUN_URI,
+      computeFileHash(requestFile)
+    );
+    return this.web3Client.toTransactionPlan([call]);
+  }
+
+  /**
+   * Dry run of respondToValidation
+   */
+  async simulateRespondToValidation(
+    requestHash: string,
+    response: number,
+    responseFile?: Record<string, unknown>,
+    tag?: string,
+    options: TransactionOptions = {}
+  ): Promise<TransactionPlan> {
+    if (!this.validationRegistry) {
+      throw new Error('Validation registry not available');
+    }
+    if (!isValidScore(response)) {
+      throw new Error(`Invalid validation response: ${response}. Expected an integer between 0 and 100`);
+    }
+    if (!ethers.isHexString(requestHash, 32)) {
+      throw new Error(`Invalid request hash: ${requestHash}. Expected a 32-byte hex string`);
+    }
+
+    const call = await this.web3Client.simulateContract(
+      this.validationRegistry,
+      'validationResponse',
+      options,
+      requestHash,
+      response,
+      responseFile ? DEFAULTS.DRY_RUN_URI : '',
+      responseFile ? computeFileHash(responseFile) : '0x' + '00'.repeat(32),
+      this._stringToBytes32(tag || '')
+    );
+    return this.web3Client.toTransactionPlan([call]);
+  }
+
+  /**
+   * Get the lifecycle status of a validation request
+   * Resolved from ValidationRequest/ValidationResponse events; the latest response wins
+   * expiryHours defaults to the one given to requestValidation for requests made through this manager
+   */
+  async getValidationStatus(
+    requestHash: string,
+    expiryHours?: number,
+    fromBlock: number = 0
+  ): Promise<ValidationStatus> {
+    if (!this.validationRegistry) {
+      throw new Error('Validation registry not available');
+    }
+    if (!ethers.isHexString(requestHash, 32)) {
+      throw new Error(`Invalid request hash: ${requestHash}. Expected a 32-byte hex string`);
+    }
+
+    if (this.web3Client.chainId === 0n) {
+      await this.web3Client.initialize();
+    }
+    const chainId = Number(this.web3Client.chainId);
+    const tracked = this.trackedRequests.get(requestHash.toLowerCase());
+
+    let requestLogs: ethers.EventLog[];
+    let responseLogs: ethers.EventLog[];
+    try {
+      requestLogs = (await this.web3Client.getEvents(
+        this.validationRegistry,
+        'ValidationRequest',
+        fromBlock,
+        undefined,
+        null,
+        null,
+        null,
+        requestHash
+      )) as ethers.EventLog[];
+      responseLogs = (await this.web3Client.getEvents(
+        this.validationRegistry,
+        'ValidationResponse',
+        fromBlock,
+        undefined,
+        null,
+        null,
+        requestHash
+      )) as ethers.EventLog[];
+    } catch (error) {
+      throw withErrorContext(error, 'Failed to read validation events');
+    }
+
+    const status: ValidationStatus = { requestHash, status: 'pending' };
+
+    const requestLog = requestLogs[0];
+    if (requestLog) {
+      status.agentId = formatAgentId(chainId, Number(requestLog.args.agentId));
+      status.validatorAddress = normalizeAddress(requestLog.args.validatorAddress);
+      status.requestUri = requestLog.args.requestUri || undefined;
+      const block = await requestLog.getBlock();
+      status.requestedAt = block.timestamp;
+      status.expiresAt =
+        expiryHours === undefined && tracked
+          ? tracked.expiresAt
+          : block.timestamp + (expiryHours ?? DEFAULTS.VALIDATION_EXPIRY_HOURS) * 3600;
+    } else if (tracked) {
+      status.agentId = tracked.agentId;
+      status.validatorAddress = normalizeAddress(tracked.validatorAddress);
+      status.requestUri = tracked.requestUri;
+      status.requestedAt = tracked.requestedAt;
+      status.expiresAt =
+        expiryHours === undefined ? tracked.expiresAt : tracked.requestedAt + expiryHours * 3600;
+    } else {
+      throw new Error(`Validation request ${requestHash} not found`);
+    }
+
+    const responseLog = responseLogs[responseLogs.length - 1];
+    if (responseLog) {
+      const block = await responseLog.getBlock();
+      status.status = 'responded';
+      status.response = Number(responseLog.args.response);
+      status.tag = this._bytes32ToString(responseLog.args.tag);
+      status.responseUri = responseLog.args.responseUri || undefined;
+      status.responseHash =
+        responseLog.args.responseHash !== ethers.ZeroHash ? responseLog.args.responseHash : undefined;
+      status.respondedAt = block.timestamp;
+      this.trackedRequests.delete(requestHash.toLowerCase());
+    } else if (status.expiresAt !== undefined && Math.floor(Date.now() / 1000) > status.expiresAt) {
+      status.status = 'expired';
+    }
+
+    return status;
+  }
+
+  /**
+   * Poll a validation request until the validator responds, it expires, or the timeout elapses
+   * Returns the last observed status (still 'pending' if the timeout elapsed first)
+   */
+  async waitForValidationResponse(
+    requestHash: string,
+    timeout: number = TIMEOUTS.VALIDATION_WAIT,
+    pollInterval: number = TIMEOUTS.VALIDATION_POLL_INTERVAL,
+    expiryHours?: number
+  ): Promise<ValidationStatus> {
+    const deadline = Date.now() + timeout;
+
+    for (;;) {
+      const status = await this.getValidationStatus(requestHash, expiryHours);
+      if (status.status !== 'pending' || Date.now() + pollInterval > deadline) {
+        return status;
+      }
+      await new Promise((resolve) => setTimeout(resolve, pollInterval));
+    }
+  }
+
+  /**
+   * Chain ID for CAIP-10 fields in prepared files; refuses to write "eip155:0:..."
+   */
+  private _resolvedChainId(): bigint {
+    if (this.web3Client.chainId === 0n) {
+      throw new Error('Chain ID not resolved yet (call web3Client.initialize() or use the SDK wrapper)');
+    }
+    return this.web3Client.chainId;
+  }
+
+  /**
+   * Convert string to bytes32 for blockchain storage
+   */
+  private _stringToBytes32(text: string): string {
+    if (!text) {
+      return '0x' + '00'.repeat(32);
+    }
+
+    // Encode as UTF-8 and pad/truncate to 32 bytes
+    const encoded = new TextEncoder().encode(text);
+    const padded = new Uint8Array(32);
+    padded.set(encoded.slice(0, 32), 0);
+
+    return ethers.hexlify(padded);
+  }
+
+  /**
+   * Convert bytes32 back to string
+   */
+  private _bytes32ToString(value: string): string | undefined {
+    if (!value || value === ethers.ZeroHash) {
+      return undefined;
+    }
+    try {
+      const text = ethers.toUtf8String(value).replace(/\0/g, '').trim();
+      return text || undefined;
+    } catch {
+      // If UTF-8 decode fails, skip this value
+      return undefined;
+    }
+  }
+}
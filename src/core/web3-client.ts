@@ -10,12 +10,53 @@ import {
   type JsonRpcProvider,
   type InterfaceAbi,
 } from 'ethers';
+import type { SimulatedCall, TransactionPlan } from '../models/interfaces.js';
+import {
+  ContractRevertError,
+  SignerRequiredError,
+  TransactionTimeoutError,
+  decodeContractError,
+  formatRevert,
+  toContractError,
+} from './errors.js';
+import { MULTICALL_ABI } from './contracts.js';
+import { FailoverJsonRpcProvider, type RpcEndpointConfig, type RpcFailoverOptions } from './rpc-provider.js';
+import { TransactionQueue } from './transaction-queue.js';
+import { TIMEOUTS } from '../utils/constants.js';
 
 export interface TransactionOptions {
   gasLimit?: bigint;
   gasPrice?: bigint;
   maxFeePerGas?: bigint;
   maxPriorityFeePerGas?: bigint;
+  nonce?: number;
+  value?: bigint;
+}
+
+// abi.encode layout of the ReputationRegistry FeedbackAuth struct
+const FEEDBACK_AUTH_TYPES = ['uint256', 'address', 'uint64', 'uint256', 'uint256', 'address', 'address'];
+
+/**
+ * A contract write to include in a batch
+ */
+export interface ContractCall {
+  contract: Contract;
+  methodName: string;
+  args: any[];
+}
+
+/**
+ * How a batch of calls was sent
+ * - 'wallet': one EIP-5792 wallet_sendCalls batch (the wallet picks nonce and fees)
+ * - 'multicall': one transaction to the target contract's own multicall(bytes[])
+ * - 'sequential': one transaction per call, sent back-to-back with consecutive nonces
+ */
+export type BatchMode = 'wallet' | 'multicall' | 'sequential';
+
+export interface BatchResult {
+  mode: BatchMode;
+  txHashes: string[]; // Empty for 'wallet' until waitForCalls resolves
+  batchId?: string; // 'wallet': id returned by wallet_sendCalls
 }
 
 /**
@@ -24,15 +65,28 @@ export interface TransactionOptions {
 export class Web3Client {
   public readonly provider: JsonRpcProvider;
   public readonly signer?: Wallet | Signer;
+  // Serializes sends and assigns nonces for the signer (undefined in read-only mode)
+  public readonly transactionQueue?: TransactionQueue;
   public chainId: bigint;
+  private _walletBatching?: Promise<boolean>;
+  private readonly _multicallSupport = new Map<string, Promise<boolean>>();
 
   /**
    * Initialize Web3 client
-   * @param rpcUrl - RPC endpoint URL
+   * @param rpcUrl - RPC endpoint URL, or several URLs to fail over between (in priority order)
    * @param signerOrKey - Optional private key string OR ethers Wallet/Signer for signing transactions
+   * @param rpcOptions - Optional failover settings (timeouts, backoff, quorum); implies failover for a single URL too
    */
-  constructor(rpcUrl: string, signerOrKey?: string | Wallet | Signer) {
-    this.provider = new ethers.JsonRpcProvider(rpcUrl);
+  constructor(
+    rpcUrl: string | Array<string | RpcEndpointConfig>,
+    signerOrKey?: string | Wallet | Signer,
+    rpcOptions?: RpcFailoverOptions
+  ) {
+    if (typeof rpcUrl === 'string' && !rpcOptions) {
+      this.provider = new ethers.JsonRpcProvider(rpcUrl);
+    } else {
+      this.provider = new FailoverJsonRpcProvider(typeof rpcUrl === 'string' ? [rpcUrl] : rpcUrl, rpcOptions);
+    }
     
     if (signerOrKey) {
       if (typeof signerOrKey === 'string') {
@@ -62,6 +116,10 @@ export class Web3Client {
       }
     }
 
+    if (this.signer) {
+      this.transactionQueue = new TransactionQueue(this.signer, this.provider);
+    }
+
     // Get chain ID asynchronously (will be set in async initialization)
     // For now, we'll fetch it when needed
     this.chainId = 0n;
@@ -98,6 +156,37 @@ export class Web3Client {
     return await method(...args);
   }
 
+  /**
+   * Call a contract method and require matching answers from several RPC endpoints
+   * Use for reads where a single lagging or faulty endpoint must not decide the result (ownerOf, tokenURI)
+   * Falls back to callContract when only one RPC endpoint is configured
+   */
+  async callContractWithQuorum(
+    contract: Contract,
+    methodName: string,
+    ...args: any[]
+  ): Promise<any> {
+    if (!(this.provider instanceof FailoverJsonRpcProvider)) {
+      return this.callContract(contract, methodName, ...args);
+    }
+
+    const functionFragment = contract.interface.getFunction(methodName);
+    if (!functionFragment) {
+      throw new Error(`Method ${methodName} not found on contract`);
+    }
+
+    try {
+      const raw = await this.provider.quorumSend('eth_call', [
+        { to: await contract.getAddress(), data: contract.interface.encodeFunctionData(functionFragment, args) },
+        'latest',
+      ]);
+      const decoded = contract.interface.decodeFunctionResult(functionFragment, raw as string);
+      return decoded.length === 1 ? decoded[0] : decoded;
+    } catch (error) {
+      throw toContractError(error, `Call ${methodName} failed`, contract);
+    }
+  }
+
   /**
    * Execute a contract transaction
    * For overloaded functions like register(), use registerAgent() wrapper instead
@@ -109,7 +198,7 @@ export class Web3Client {
     ...args: any[]
   ): Promise<string> {
     if (!this.signer) {
-      throw new Error(
+      throw new SignerRequiredError(
         'Cannot execute transaction: SDK is in read-only mode. Provide a private key to enable write operations.'
       );
     }
@@ -124,23 +213,289 @@ export class Web3Client {
       throw new Error(`Method ${methodName} not found on contract`);
     }
 
-    // Build transaction options - filter out undefined values
-    const txOptions = Object.fromEntries(
-      Object.entries(options).filter(([_, value]) => value !== undefined)
-    ) as Partial<TransactionOptions>;
+    // Build the transaction with overrides as the trailing argument, then send through the nonce queue
+    // Reverts during gas estimation surface here and are decoded against the contract ABI
+    try {
+      const txRequest = await method.populateTransaction(...args, this._buildTxOverrides(options));
+      const txResponse = await this.transactionQueue!.send(txRequest);
+      return txResponse.hash;
+    } catch (error) {
+      throw toContractError(error, `Transaction ${methodName} failed`, contract);
+    }
+  }
+
+  /**
+   * Send several contract writes, batched into one transaction where possible
+   * Prefers an atomic EIP-5792 wallet batch, then the target's own multicall(bytes[]), then sequential sends.
+   * Multicall3 is not used: it calls the target as msg.sender, so owner-gated writes would revert.
+   * Options apply to the multicall transaction, or to each sequential one (an explicit nonce is advanced per call);
+   * wallet batches ignore them.
+   */
+  async sendCalls(calls: ContractCall[], options: TransactionOptions = {}): Promise<BatchResult> {
+    if (!this.signer) {
+      throw new SignerRequiredError(
+        'Cannot execute transaction: SDK is in read-only mode. Provide a private key to enable write operations.'
+      );
+    }
+    if (calls.length === 0) {
+      throw new Error('At least one call is required');
+    }
 
-    // Send transaction
-    const tx = await method(...args);
-    const txResponse = await tx;
-    return txResponse.hash;
+    const mode = await this.getBatchMode(calls);
+    const encoded = calls.map((call) => this.describeContractCall(call.contract, call.methodName, ...call.args));
+
+    if (mode === 'wallet') {
+      try {
+        const from = await this.signer.getAddress();
+        const chainId = ethers.toQuantity(await this._getChainId());
+        const response = await this._walletSend('wallet_sendCalls', [
+          {
+            version: '2.0.0',
+            chainId,
+            from,
+            atomicRequired: true,
+            calls: encoded.map((call) => ({ to: call.to, data: call.data })),
+          },
+        ]);
+        // EIP-5792 v1 wallets return the id directly
+        const batchId = typeof response === 'string' ? response : response.id;
+        return { mode, txHashes: [], batchId };
+      } catch (error) {
+        throw toContractError(error, 'Batch transaction failed', calls[0].contract);
+      }
+    }
+
+    if (mode === 'multicall') {
+      const multicall = new ethers.Interface(MULTICALL_ABI);
+      try {
+        const txResponse = await this.transactionQueue!.send({
+          ...this._buildTxOverrides(options),
+          to: encoded[0].to,
+          data: multicall.encodeFunctionData('multicall', [encoded.map((call) => call.data)]),
+        });
+        return { mode, txHashes: [txResponse.hash] };
+      } catch (error) {
+        // multicall bubbles up the inner revert, so decode against the target contract
+        throw toContractError(error, 'Transaction multicall failed', calls[0].contract);
+      }
+    }
+
+    // Sequential: the transaction queue assigns consecutive nonces, so nothing waits between sends
+    const txHashes: string[] = [];
+    for (const [i, call] of calls.entries()) {
+      const txOptions = options.nonce !== undefined ? { ...options, nonce: options.nonce + i } : options;
+      txHashes.push(await this.transactContract(call.contract, call.methodName, txOptions, ...call.args));
+    }
+    return { mode, txHashes };
+  }
+
+  /**
+   * Wait for every transaction of a batch sent with sendCalls
+   * For wallet batches, polls wallet_getCallsStatus and fills in txHashes once confirmed
+   */
+  async waitForCalls(
+    batch: BatchResult,
+    timeout: number = TIMEOUTS.TRANSACTION_WAIT
+  ): Promise<ethers.ContractTransactionReceipt[]> {
+    if (batch.mode !== 'wallet') {
+      return Promise.all(batch.txHashes.map((txHash) => this.waitForTransaction(txHash, timeout)));
+    }
+
+    const deadline = Date.now() + timeout;
+    for (;;) {
+      const status = await this._walletSend('wallet_getCallsStatus', [batch.batchId]);
+      // v2 uses numeric codes (1xx pending, 2xx confirmed, 4xx/5xx failed); v1 used strings
+      const code = typeof status.status === 'number' ? status.status : status.status === 'CONFIRMED' ? 200 : 100;
+      if (code >= 200 && code < 300) {
+        batch.txHashes = Array.from(
+          new Set<string>((status.receipts || []).map((receipt: { transactionHash: string }) => receipt.transactionHash))
+        );
+        return Promise.all(batch.txHashes.map((txHash) => this.waitForTransaction(txHash, timeout)));
+      }
+      if (code >= 400) {
+        throw new ContractRevertError(`Batch ${batch.batchId} failed with status ${code}`);
+      }
+      if (Date.now() >= deadline) {
+        throw new TransactionTimeoutError(`Timed out after ${timeout}ms waiting for batch ${batch.batchId}`);
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, Math.min(TIMEOUTS.TRANSACTION_POLL_INTERVAL, deadline - Date.now()))
+      );
+    }
+  }
+
+  /**
+   * Pick how sendCalls would send these calls (single calls are always sent as-is)
+   */
+  async getBatchMode(calls: ContractCall[]): Promise<BatchMode> {
+    if (calls.length < 2) {
+      return 'sequential';
+    }
+    if (await this._supportsWalletBatching()) {
+      return 'wallet';
+    }
+    const target = calls[0].contract.target as string;
+    const sameTarget = calls.every((call) => call.contract.target === target);
+    if (sameTarget && (await this._supportsMulticall(target))) {
+      return 'multicall';
+    }
+    return 'sequential';
+  }
+
+  /**
+   * Whether the signer's wallet reports atomic EIP-5792 batching for this chain (cached)
+   */
+  private _supportsWalletBatching(): Promise<boolean> {
+    if (!this._walletBatching) {
+      this._walletBatching = (async () => {
+        // Local keys sign themselves; the RPC node cannot send calls on their behalf
+        if (this.signer instanceof ethers.BaseWallet) {
+          return false;
+        }
+        try {
+          const chainId = ethers.toQuantity(await this._getChainId());
+          const capabilities = await this._walletSend('wallet_getCapabilities', [
+            await this.signer!.getAddress(),
+            [chainId],
+          ]);
+          const chain = capabilities?.[chainId] ?? {};
+          // v2: atomic.status 'supported' | 'ready'; v1: atomicBatch.supported
+          return ['supported', 'ready'].includes(chain.atomic?.status) || chain.atomicBatch?.supported === true;
+        } catch {
+          return false;
+        }
+      })();
+    }
+    return this._walletBatching;
+  }
+
+  /**
+   * Whether a contract exposes a self-multicall(bytes[]), probed with an empty batch (cached per address)
+   */
+  private _supportsMulticall(target: string): Promise<boolean> {
+    const key = target.toLowerCase();
+    if (!this._multicallSupport.has(key)) {
+      const multicall = new ethers.Interface(MULTICALL_ABI);
+      this._multicallSupport.set(
+        key,
+        (async () => {
+          try {
+            const raw = await this.provider.call({
+              to: target,
+              from: await this.signer?.getAddress(),
+              data: multicall.encodeFunctionData('multicall', [[]]),
+            });
+            // A fallback function could accept anything - require a well-formed empty bytes[] result
+            return multicall.decodeFunctionResult('multicall', raw)[0].length === 0;
+          } catch {
+            return false;
+          }
+        })()
+      );
+    }
+    return this._multicallSupport.get(key)!;
+  }
+
+  /**
+   * Send a wallet RPC request (EIP-5792) through the signer's provider
+   */
+  private async _walletSend(method: string, params: unknown[]): Promise<any> {
+    const provider = this.signer?.provider as { send?: (method: string, params: unknown[]) => Promise<any> } | null;
+    if (!provider || typeof provider.send !== 'function') {
+      throw new Error(`Signer does not support ${method}`);
+    }
+    return provider.send(method, params);
+  }
+
+  private async _getChainId(): Promise<bigint> {
+    if (this.chainId === 0n) {
+      await this.initialize();
+    }
+    return this.chainId;
+  }
+
+  /**
+   * Build ethers transaction overrides from options - filter out undefined values
+   */
+  private _buildTxOverrides(options: TransactionOptions): ethers.Overrides {
+    return Object.fromEntries(
+      Object.entries(options).filter(([, value]) => value !== undefined)
+    ) as ethers.Overrides;
+  }
+
+  /**
+   * Simulate a contract transaction with staticCall + estimateGas, without broadcasting
+   * Reverts are captured in the returned call rather than thrown
+   */
+  async simulateContract(
+    contract: Contract,
+    methodName: string,
+    options: TransactionOptions = {},
+    ...args: any[]
+  ): Promise<SimulatedCall> {
+    const call = this.describeContractCall(contract, methodName, ...args);
+    const method = contract.getFunction(call.method);
+    const overrides = this._buildTxOverrides(options);
+
+    try {
+      const result = await method.staticCall(...call.args, overrides);
+      const gasEstimate = await method.estimateGas(...call.args, overrides);
+      return { ...call, status: 'success', result, gasEstimate };
+    } catch (error) {
+      return { ...call, status: 'reverted', revertReason: this.decodeRevertReason(error, contract) };
+    }
+  }
+
+  /**
+   * Encode a contract call without executing it (status 'skipped')
+   * Resolves register() overloads the same way as transactContract
+   */
+  describeContractCall(contract: Contract, methodName: string, ...args: any[]): SimulatedCall {
+    const { signature, callArgs } =
+      methodName === 'register'
+        ? this._resolveRegisterOverload(args)
+        : { signature: methodName, callArgs: args };
+
+    const functionFragment = contract.interface.getFunction(signature);
+    if (!functionFragment) {
+      throw new Error(`Method ${methodName} not found on contract`);
+    }
+
+    return {
+      to: contract.target as string,
+      method: functionFragment.format('sighash'),
+      args: callArgs,
+      data: contract.interface.encodeFunctionData(functionFragment, callArgs),
+      status: 'skipped',
+    };
+  }
+
+  /**
+   * Combine simulated calls into a transaction plan
+   */
+  toTransactionPlan(calls: SimulatedCall[]): TransactionPlan {
+    return {
+      calls,
+      success: calls.every((call) => call.status !== 'reverted'),
+      totalGasEstimate: calls.reduce((total, call) => total + (call.gasEstimate ?? 0n), 0n),
+    };
+  }
+
+  /**
+   * Extract a human-readable revert reason from an ethers error
+   */
+  decodeRevertReason(error: unknown, contract?: Contract): string {
+    const revert = decodeContractError(error, contract);
+    if (revert) {
+      return formatRevert(revert);
+    }
+    const err = error as { shortMessage?: string; message?: string };
+    return err?.shortMessage || err?.message || String(error);
   }
 
   /**
    * Router wrapper for register() function overloads
-   * Intelligently selects the correct overload based on arguments:
-   * - register() - no arguments
-   * - register(string tokenUri) - just tokenUri
-   * - register(string tokenUri, tuple[] metadata) - tokenUri + metadata
+   * Sends via the overload selected by _resolveRegisterOverload
    */
   private async registerAgent(
     contract: Contract,
@@ -148,71 +503,103 @@ export class Web3Client {
     ...args: any[]
   ): Promise<string> {
     if (!this.signer) {
-      throw new Error('No signer available for transaction');
+      throw new SignerRequiredError('No signer available for transaction');
     }
 
     const contractInterface = contract.interface;
-
-    // Determine which overload to use based on arguments
-    let functionName: string;
-    let callArgs: any[];
-
-    if (args.length === 0) {
-      // register() - no arguments
-      functionName = 'register()';
-      callArgs = [];
-    } else if (args.length === 1 && typeof args[0] === 'string') {
-      // register(string tokenUri) - just tokenUri
-      functionName = 'register(string)';
-      callArgs = [args[0]];
-    } else if (args.length === 2 && typeof args[0] === 'string' && Array.isArray(args[1])) {
-      // register(string tokenUri, tuple[] metadata) - tokenUri + metadata
-      functionName = 'register(string,(string,bytes)[])';
-      callArgs = [args[0], args[1]];
-    } else {
-      throw new Error(
-        `Invalid arguments for register(). Expected: () | (string) | (string, tuple[]), got ${args.length} arguments`
-      );
-    }
+    const { signature, callArgs } = this._resolveRegisterOverload(args);
 
     // Get the specific function fragment using the signature
-    const functionFragment = contractInterface.getFunction(functionName);
+    const functionFragment = contractInterface.getFunction(signature);
     if (!functionFragment) {
-      throw new Error(`Function ${functionName} not found in contract ABI`);
+      throw new Error(`Function ${signature} not found in contract ABI`);
     }
 
     // Encode function data to avoid ambiguity - this bypasses function resolution
     const data = contractInterface.encodeFunctionData(functionFragment, callArgs);
     
     // Send transaction directly with encoded data (no function call resolution needed)
-    const txResponse = await this.signer.sendTransaction({
-      to: contract.target as string,
-      data: data,
-    });
-    
-    return txResponse.hash;
+    try {
+      const txResponse = await this.transactionQueue!.send({
+        ...this._buildTxOverrides(options),
+        to: contract.target as string,
+        data: data,
+      });
+      return txResponse.hash;
+    } catch (error) {
+      throw toContractError(error, `Transaction ${signature} failed`, contract);
+    }
+  }
+
+  /**
+   * Select the register() overload based on arguments:
+   * - register() - no arguments
+   * - register(string tokenUri) - just tokenUri
+   * - register(string tokenUri, tuple[] metadata) - tokenUri + metadata
+   */
+  private _resolveRegisterOverload(args: any[]): { signature: string; callArgs: any[] } {
+    if (args.length === 0) {
+      return { signature: 'register()', callArgs: [] };
+    }
+    if (args.length === 1 && typeof args[0] === 'string') {
+      return { signature: 'register(string)', callArgs: [args[0]] };
+    }
+    if (args.length === 2 && typeof args[0] === 'string' && Array.isArray(args[1])) {
+      return { signature: 'register(string,(string,bytes)[])', callArgs: [args[0], args[1]] };
+    }
+    throw new Error(
+      `Invalid arguments for register(). Expected: () | (string) | (string, tuple[]), got ${args.length} arguments`
+    );
   }
 
   /**
    * Wait for transaction to be mined
+   * Transactions sent by this client also resolve when a sped-up / cancelled replacement is mined
    */
   async waitForTransaction(
     txHash: string,
     timeout: number = 60000
   ): Promise<ethers.ContractTransactionReceipt> {
+    if (this.transactionQueue?.has(txHash)) {
+      return (await this.transactionQueue.wait(txHash, timeout)) as ethers.ContractTransactionReceipt;
+    }
     return (await this.provider.waitForTransaction(txHash, undefined, timeout)) as ethers.ContractTransactionReceipt;
   }
 
+  /**
+   * Re-send a pending transaction with the same nonce and bumped fees
+   * @returns Hash of the replacement transaction
+   */
+  async speedUpTransaction(txHash: string, bumpPercent?: number): Promise<string> {
+    if (!this.transactionQueue) {
+      throw new SignerRequiredError('No signer available');
+    }
+    return this.transactionQueue.speedUp(txHash, bumpPercent);
+  }
+
+  /**
+   * Replace a pending transaction with a 0-value transfer to self
+   * @returns Hash of the replacement transaction
+   */
+  async cancelTransaction(txHash: string, bumpPercent?: number): Promise<string> {
+    if (!this.transactionQueue) {
+      throw new SignerRequiredError('No signer available');
+    }
+    return this.transactionQueue.cancel(txHash, bumpPercent);
+  }
+
   /**
    * Get contract events
+   * Optional filter args match the event's inputs in order, indexed or not (null = any; non-indexed inputs must be null)
    */
   async getEvents(
     contract: Contract,
     eventName: string,
     fromBlock: number = 0,
-    toBlock?: number
+    toBlock?: number,
+    ...filterArgs: any[]
   ): Promise<ethers.Log[]> {
-    const filter = contract.filters[eventName]();
+    const filter = contract.filters[eventName](...filterArgs);
     return await contract.queryFilter(filter, fromBlock, toBlock);
   }
 
@@ -228,10 +615,32 @@ export class Web3Client {
     identityRegistry: string,
     signerAddress: string
   ): string {
-    return ethers.AbiCoder.defaultAbiCoder().encode(
-      ['uint256', 'address', 'uint64', 'uint256', 'uint256', 'address', 'address'],
-      [agentId, clientAddress, indexLimit, expiry, chainId, identityRegistry, signerAddress]
-    );
+    return ethers.AbiCoder.defaultAbiCoder().encode(FEEDBACK_AUTH_TYPES, [
+      agentId,
+      clientAddress,
+      indexLimit,
+      expiry,
+      chainId,
+      identityRegistry,
+      signerAddress,
+    ]);
+  }
+
+  /**
+   * Decode feedback authorization data produced by encodeFeedbackAuth (without the signature)
+   */
+  decodeFeedbackAuth(authData: ethers.BytesLike): {
+    agentId: bigint;
+    clientAddress: string;
+    indexLimit: bigint;
+    expiry: bigint;
+    chainId: bigint;
+    identityRegistry: string;
+    signerAddress: string;
+  } {
+    const [agentId, clientAddress, indexLimit, expiry, chainId, identityRegistry, signerAddress] =
+      ethers.AbiCoder.defaultAbiCoder().decode(FEEDBACK_AUTH_TYPES, authData);
+    return { agentId, clientAddress, indexLimit, expiry, chainId, identityRegistry, signerAddress };
   }
 
   /**
@@ -239,7 +648,7 @@ export class Web3Client {
    */
   async signMessage(message: string | Uint8Array): Promise<string> {
     if (!this.signer) {
-      throw new Error('No signer available');
+      throw new SignerRequiredError('No signer available');
     }
     return await this.signer.signMessage(message);
   }
@@ -14,14 +14,82 @@ export { SDK } from './core/sdk.js';
 export type { SDKConfig } from './core/sdk.js';
 export { Agent } from './core/agent.js';
 export { Web3Client } from './core/web3-client.js';
-export type { TransactionOptions } from './core/web3-client.js';
+export type { TransactionOptions, ContractCall, BatchMode, BatchResult } from './core/web3-client.js';
+export { TransactionQueue } from './core/transaction-queue.js';
+export type { TransactionEvent, TransactionEventType, TransactionListener } from './core/transaction-queue.js';
+export { FailoverJsonRpcProvider } from './core/rpc-provider.js';
+export type { RpcEndpointConfig, RpcFailoverOptions, RpcEndpointStatus } from './core/rpc-provider.js';
 export { IPFSClient } from './core/ipfs-client.js';
 export type { IPFSClientConfig } from './core/ipfs-client.js';
 export { SubgraphClient } from './core/subgraph-client.js';
 export { FeedbackManager } from './core/feedback-manager.js';
+export type { FeedbackAuth } from './core/feedback-manager.js';
+export { FeedbackAuthService } from './core/feedback-auth-service.js';
+export type {
+  FeedbackAuthSigner,
+  FeedbackAuthProof,
+  FeedbackAuthPolicy,
+  FeedbackAuthServiceRequest,
+  FeedbackAuthServiceResponse,
+} from './core/feedback-auth-service.js';
+export { FeedbackAnalyzer } from './core/feedback-analyzer.js';
+export type { FeedbackAnalyzerOptions, FeedbackAnalysisContext } from './core/feedback-analyzer.js';
+export {
+  MeanReputationModel,
+  TimeDecayReputationModel,
+  BayesianReputationModel,
+  ReviewerWeightedReputationModel,
+  PaymentWeightedReputationModel,
+  resolveReputationModel,
+} from './core/reputation-models.js';
+export type {
+  ReputationModel,
+  ReputationModelName,
+  ReputationModelContext,
+  ReviewerHistory,
+} from './core/reputation-models.js';
+export {
+  REGISTRATION_FILE_TYPE,
+  REGISTRATION_FILE_SCHEMA,
+  validateRegistrationFile,
+  formatRegistrationIssues,
+} from './core/registration-schema.js';
+export type {
+  JsonSchema,
+  RegistrationValidationIssue,
+  RegistrationValidationResult,
+} from './core/registration-schema.js';
+export { encodeRegistrationFile, decodeRegistrationFile } from './core/registration-codec.js';
+export { LINT_RULES, lintRegistrationFile } from './core/registration-linter.js';
+export type {
+  LintIssue,
+  LintSeverity,
+  LintRule,
+  LintContext,
+  LintOptions,
+} from './core/registration-linter.js';
+export { ValidationManager } from './core/validation-manager.js';
 export { EndpointCrawler } from './core/endpoint-crawler.js';
 export type { McpCapabilities, A2aCapabilities } from './core/endpoint-crawler.js';
 export { AgentIndexer } from './core/indexer.js';
+export {
+  Agent0Error,
+  Agent0ErrorCode,
+  SignerRequiredError,
+  ContractRevertError,
+  NotOwnerError,
+  AgentNotFoundError,
+  FeedbackAuthExpiredError,
+  FeedbackAuthInvalidError,
+  SubgraphUnavailableError,
+  RpcUnavailableError,
+  TransactionDroppedError,
+  TransactionTimeoutError,
+  IpfsUploadError,
+  InvalidRegistrationFileError,
+  decodeContractError,
+} from './core/errors.js';
+export type { Agent0ErrorOptions, DecodedRevert } from './core/errors.js';
 
 // Export contract definitions
 export * from './core/contracts.js';
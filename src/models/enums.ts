@@ -23,3 +23,23 @@ export enum TrustModel {
   TEE_ATTESTATION = 'tee-attestation',
 }
 
+/**
+ * Outcome an agent reports when responding to feedback
+ */
+export enum FeedbackResolution {
+  ACKNOWLEDGED = 'acknowledged',
+  RESOLVED = 'resolved',
+  REFUNDED = 'refunded',
+  DISPUTED = 'disputed',
+}
+
+/**
+ * Reasons FeedbackAnalyzer marks feedback as suspicious
+ */
+export enum FeedbackFlag {
+  SELF_REVIEW = 'self-review', // Reviewer is an owner or operator of the agent
+  FUNDED_BY_OWNER = 'funded-by-owner', // Reviewer was funded by an owner or operator
+  FRESH_ADDRESS_BURST = 'fresh-address-burst', // Part of a burst of feedback from fresh addresses
+  DUPLICATE_TEXT = 'duplicate-text', // Same text as feedback from another reviewer
+  SINGLE_AGENT_REVIEWER = 'single-agent-reviewer', // Reviewer never rated any other agent
+}
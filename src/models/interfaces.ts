@@ -3,7 +3,7 @@
  */
 
 import type { AgentId, Address, URI, Timestamp } from './types.js';
-import type { EndpointType, TrustModel } from './enums.js';
+import type { EndpointType, TrustModel, FeedbackResolution, FeedbackFlag } from './enums.js';
 
 /**
  * Represents an agent endpoint
@@ -33,6 +33,39 @@ export interface RegistrationFile {
   x402support: boolean; // Binary flag for x402 payment support
   metadata: Record<string, any>; // arbitrary, SDK-managed
   updatedAt: Timestamp;
+  previousVersion?: URI; // URI of the file this one replaced (set by registerIPFS updates)
+  extras?: Record<string, unknown>; // File fields the SDK does not manage, republished as-is
+}
+
+/**
+ * One URI an agent has been registered with (see SDK.getRegistrationHistory)
+ */
+export interface RegistrationVersion {
+  version: number; // 1 for the first URI, counting up
+  agentURI: URI;
+  blockNumber?: number; // Unset when found through previousVersion links
+  txHash?: string;
+  registrationFile?: RegistrationFile; // Unset when the file could not be fetched
+  error?: string; // Why the file could not be fetched
+}
+
+/**
+ * One field-level difference between two JSON documents
+ */
+export interface JsonChange {
+  path: string; // JSON Pointer, e.g. /endpoints/0/endpoint
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Local registration changes not yet published (see Agent.diff)
+ */
+export interface RegistrationDiff {
+  agentURI?: URI; // Published file compared against (unset before the first publish)
+  file: JsonChange[]; // Published registration file -> local
+  metadata: JsonChange[]; // On-chain metadata -> local, for the keys registration writes
 }
 
 /**
@@ -77,6 +110,8 @@ export interface Feedback {
   createdAt: Timestamp;
   answers: Array<Record<string, any>>;
   isRevoked: boolean;
+  hashVerified?: boolean; // getFeedback: file matches the on-chain feedbackHash (undefined when not checked)
+  flags?: FeedbackFlag[]; // Set by FeedbackAnalyzer (searchFeedback with flagSuspicious)
 
   // Off-chain only fields (not stored on blockchain)
   capability?: string; // MCP capability: "prompts", "resources", "tools", "completions"
@@ -85,6 +120,65 @@ export interface Feedback {
   task?: string; // A2A task
 }
 
+/**
+ * Content of a response to feedback (stored off-chain, committed on-chain by appendResponse)
+ */
+export interface FeedbackResponseContent {
+  text: string;
+  resolution?: FeedbackResolution;
+  refund?: {
+    amount: string; // Decimal string in currency units
+    currency?: string; // Symbol or CAIP-19 asset ID
+    chainId?: number;
+    txHash?: string;
+  };
+  attachments?: Array<{ uri: URI; name?: string; mimeType?: string }>;
+}
+
+/**
+ * Response to feedback, as published by respondToFeedback or read by getFeedbackResponses
+ */
+export interface FeedbackResponse {
+  feedbackId: FeedbackIdTuple;
+  responder?: Address;
+  responseUri?: URI;
+  responseHash?: string;
+  createdAt?: Timestamp;
+  txHash?: string; // respondToFeedback only
+  hashVerified?: boolean; // getFeedbackResponses: file matches responseHash (undefined when not checked)
+
+  // From the response file (undefined when it could not be fetched)
+  text?: string;
+  resolution?: FeedbackResolution;
+  refund?: FeedbackResponseContent['refund'];
+  attachments?: FeedbackResponseContent['attachments'];
+}
+
+/**
+ * Result of checking a feedback's proofOfPayment against the payment transaction
+ */
+export interface PaymentVerification {
+  verified: boolean;
+  reason?: string; // Why the proof was not verified
+  chainId?: number;
+  txHash?: string;
+  blockNumber?: number;
+  from?: Address;
+  to?: Address;
+  token?: Address; // ERC-20 contract (undefined for native payments)
+  amount?: bigint; // In the token's base units (wei for native payments)
+}
+
+/**
+ * Reputation summary for an agent
+ */
+export interface ReputationSummary {
+  count: number;
+  averageScore: number; // Flat mean of scored feedback
+  model?: string; // Reputation model used for score (when one was requested)
+  score?: number; // Model score, 0-100
+}
+
 /**
  * Feedback ID tuple: [agentId, clientAddress, feedbackIndex]
  */
@@ -132,6 +226,29 @@ export interface SearchFeedbackParams {
   minScore?: number; // 0-100
   maxScore?: number; // 0-100
   includeRevoked?: boolean;
+  flagSuspicious?: boolean; // Run FeedbackAnalyzer and set Feedback.flags
+}
+
+/**
+ * Parameters for validation search
+ */
+export interface SearchValidationsParams {
+  chains?: number[] | 'all'; // ChainId[] or 'all' to search all configured chains
+  agents?: AgentId[];
+  validators?: Address[];
+  tags?: string[];
+  minResponse?: number; // 0-100
+  status?: ValidationState | ValidationState[];
+}
+
+/**
+ * Validation backing required by validated-agent search
+ */
+export interface ValidatedAgentParams {
+  trustModels?: string[]; // Claims that need backing (default: crypto-economic, tee-attestation)
+  validators?: Address[];
+  tags?: string[];
+  minResponse?: number; // 0-100
 }
 
 /**
@@ -148,3 +265,75 @@ export interface SearchResultMeta {
   };
 }
 
+
+/**
+ * Validation request submitted to the Validation Registry
+ */
+export interface ValidationRequest {
+  requestHash: string; // bytes32 commitment to the request file
+  agentId: AgentId;
+  validatorAddress: Address;
+  requestUri: URI;
+  txHash: string;
+}
+
+/**
+ * Validator response recorded on the Validation Registry
+ */
+export interface ValidationResponse {
+  requestHash: string;
+  response: number; // 0-100
+  responseUri?: URI;
+  responseHash?: string;
+  tag?: string;
+  txHash: string;
+}
+
+/**
+ * Lifecycle state of a validation request
+ */
+export type ValidationState = 'pending' | 'responded' | 'expired';
+
+/**
+ * Tracked status of a validation request, from submission through validator response
+ */
+export interface ValidationStatus {
+  requestHash: string;
+  status: ValidationState;
+  agentId?: AgentId;
+  validatorAddress?: Address;
+  requestUri?: URI;
+  requestedAt?: Timestamp;
+  expiresAt?: Timestamp; // SDK-side deadline; the registry itself has no expiry
+  // Latest validator response (set when status is 'responded')
+  response?: number; // 0-100
+  tag?: string;
+  responseUri?: URI;
+  responseHash?: string;
+  respondedAt?: Timestamp;
+}
+
+/**
+ * Outcome of simulating a single contract call without broadcasting it
+ * 'skipped' calls depend on an earlier call in the plan being mined and are only encoded
+ */
+export interface SimulatedCall {
+  to: Address;
+  method: string; // Function signature, e.g. setAgentUri(uint256,string)
+  args: unknown[];
+  data: string; // ABI-encoded calldata
+  status: 'success' | 'reverted' | 'skipped';
+  gasEstimate?: bigint;
+  result?: unknown; // Decoded staticCall return value
+  revertReason?: string;
+  note?: string;
+}
+
+/**
+ * Ordered list of transactions a write method would send (dry run)
+ */
+export interface TransactionPlan {
+  calls: SimulatedCall[];
+  success: boolean; // false if any simulated call reverted
+  totalGasEstimate: bigint; // Sum over simulated calls only
+}
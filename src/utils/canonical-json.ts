@@ -0,0 +1,88 @@
+/**
+ * Canonical JSON (RFC 8785, JSON Canonicalization Scheme) and the file hashes built on it
+ */
+
+import { ethers } from 'ethers';
+
+/**
+ * Serialize a value as RFC 8785 canonical JSON
+ * - Object keys are sorted by UTF-16 code units at every level, with no whitespace
+ * - Numbers use the ECMAScript shortest round-trip form (1e21, 0.1, -0 -> 0)
+ * - Values JSON.stringify would drop are dropped (undefined / functions in objects, null in arrays)
+ *   and toJSON() is honoured, so Dates become ISO strings
+ * Throws on non-finite numbers, bigints and circular references, which have no JSON form
+ */
+export function canonicalize(value: unknown): string {
+  const result = serialize(value, new Set());
+  if (result === undefined) {
+    throw new TypeError(`Cannot canonicalize ${typeof value}`);
+  }
+  return result;
+}
+
+/**
+ * feedbackHash committed on-chain for a feedback file: keccak256 of its canonical JSON (UTF-8)
+ * Indexers can recompute it from the file to check it was not altered
+ */
+export function computeFeedbackHash(file: Record<string, unknown>): string {
+  return computeFileHash(file);
+}
+
+/**
+ * keccak256 of a JSON file's canonical form (validation request / response files use the same rule)
+ */
+export function computeFileHash(file: unknown): string {
+  return ethers.keccak256(ethers.toUtf8Bytes(canonicalize(file)));
+}
+
+function serialize(value: unknown, seen: Set<object>): string | undefined {
+  if (value !== null && typeof value === 'object' && typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    value = (value as { toJSON: () => unknown }).toJSON();
+  }
+
+  switch (typeof value) {
+    case 'string':
+    case 'boolean':
+      return JSON.stringify(value);
+    case 'number':
+      if (!Number.isFinite(value)) {
+        throw new TypeError(`Cannot canonicalize non-finite number: ${value}`);
+      }
+      // Number#toString is the ECMAScript serialization RFC 8785 requires (-0 becomes 0)
+      return JSON.stringify(value);
+    case 'bigint':
+      throw new TypeError('Cannot canonicalize a bigint; convert it to a string or number first');
+    case 'undefined':
+    case 'function':
+    case 'symbol':
+      return undefined;
+  }
+
+  if (value === null) {
+    return 'null';
+  }
+
+  const object = value as object;
+  if (seen.has(object)) {
+    throw new TypeError('Cannot canonicalize a circular structure');
+  }
+  seen.add(object);
+
+  let result: string;
+  if (Array.isArray(object)) {
+    result = `[${object.map((item) => serialize(item, seen) ?? 'null').join(',')}]`;
+  } else {
+    const members: string[] = [];
+    // Default sort compares UTF-16 code units, as RFC 8785 specifies
+    for (const key of Object.keys(object).sort()) {
+      const member = serialize((object as Record<string, unknown>)[key], seen);
+      if (member !== undefined) {
+        members.push(`${JSON.stringify(key)}:${member}`);
+      }
+    }
+    result = `{${members.join(',')}}`;
+  }
+
+  seen.delete(object);
+  return result;
+}
@@ -18,7 +18,15 @@ export const TIMEOUTS = {
   IPFS_GATEWAY: 10000, // 10 seconds
   PINATA_UPLOAD: 80000, // 80 seconds
   TRANSACTION_WAIT: 30000, // 30 seconds
+  TRANSACTION_POLL_INTERVAL: 4000, // 4 seconds between receipt checks
   ENDPOINT_CRAWLER_DEFAULT: 5000, // 5 seconds
+  VALIDATION_POLL_INTERVAL: 15000, // 15 seconds
+  VALIDATION_WAIT: 600000, // 10 minutes
+  FEEDBACK_AUTH_CHALLENGE: 300000, // 5 minutes to sign a feedbackAuth challenge
+  RPC_REQUEST: 10000, // 10 seconds per endpoint attempt
+  RPC_BACKOFF_BASE: 500, // doubled per consecutive failure
+  RPC_BACKOFF_MAX: 30000, // 30 seconds
+  MULTI_CHAIN_QUERY: 30000, // 30 seconds per chain in multi-chain searches
 } as const;
 
 /**
@@ -26,6 +34,25 @@ export const TIMEOUTS = {
  */
 export const DEFAULTS = {
   FEEDBACK_EXPIRY_HOURS: 24,
+  VALIDATION_EXPIRY_HOURS: 168, // 7 days
   SEARCH_PAGE_SIZE: 50,
+  SUBGRAPH_PAGE_SIZE: 1000, // largest `first` The Graph accepts per query
+  RPC_MAX_ATTEMPTS: 5, // per request, across all endpoints
+  RPC_QUORUM: 2, // matching endpoint responses required for quorum reads
+  TX_FEE_BUMP_PERCENT: 15, // speed-up / cancel fee increase (nodes require >= 10%)
+  REPUTATION_HALF_LIFE_DAYS: 90, // time-decay model: feedback weight halves every 90 days
+  REPUTATION_PRIOR_MEAN: 50, // bayesian model: score assumed before any feedback
+  REPUTATION_PRIOR_WEIGHT: 5, // bayesian model: prior counts as this many feedback entries
+  REPUTATION_UNPAID_WEIGHT: 0.25, // payment-weighted model: weight of feedback without a verified proofOfPayment
+  FEEDBACK_BURST_WINDOW: 3600, // seconds; feedback from fresh addresses this close together counts as a burst
+  FEEDBACK_BURST_SIZE: 3, // entries within the window that make a burst
+  FRESH_ADDRESS_MAX_TX_COUNT: 5, // reviewers with at most this many sent transactions are "fresh"
+  DUPLICATE_TEXT_MIN_LENGTH: 20, // shorter texts ("great!") are too generic to flag as duplicates
+  REGISTRATION_HISTORY_MAX_LINKS: 100, // previousVersion links followed when events are unavailable
+  FEEDBACK_AUTH_MAX_CHALLENGES: 10000, // outstanding feedbackAuth challenges across all clients
+  FEEDBACK_AUTH_MAX_CHALLENGES_PER_CLIENT: 5, // outstanding challenges per client; the oldest is replaced
+  // Stand-in for URIs that are only known after an IPFS upload (dry runs skip uploads).
+  // CIDv0-length so gas estimates for storing the URI stay representative
+  DRY_RUN_URI: 'ipfs://QmUNLLsPACCz1vLxQVkXqqLX5R1X345qqfHbsf67hvA3Nn',
 } as const;
 
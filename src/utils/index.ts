@@ -4,5 +4,8 @@
 
 export * from './id-format.js';
 export * from './validation.js';
+export * from './metadata.js';
+export * from './canonical-json.js';
+export * from './json-diff.js';
 export * from './constants.js';
 
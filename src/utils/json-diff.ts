@@ -0,0 +1,48 @@
+/**
+ * Field-level JSON diff
+ */
+
+import type { JsonChange } from '../models/interfaces.js';
+
+/**
+ * Differences from before to after, as JSON Pointer paths
+ * Objects are compared key by key and arrays index by index; key order is ignored
+ */
+export function diffJson(before: unknown, after: unknown, path: string = ''): JsonChange[] {
+  if (isObject(before) && isObject(after)) {
+    const changes: JsonChange[] = [];
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      const childPath = `${path}/${key.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+      if (after[key] === undefined) {
+        if (before[key] !== undefined) {
+          changes.push({ path: childPath, kind: 'removed', before: before[key] });
+        }
+      } else if (before[key] === undefined) {
+        changes.push({ path: childPath, kind: 'added', after: after[key] });
+      } else {
+        changes.push(...diffJson(before[key], after[key], childPath));
+      }
+    }
+    return changes;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const changes: JsonChange[] = [];
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      if (i >= after.length) {
+        changes.push({ path: `${path}/${i}`, kind: 'removed', before: before[i] });
+      } else if (i >= before.length) {
+        changes.push({ path: `${path}/${i}`, kind: 'added', after: after[i] });
+      } else {
+        changes.push(...diffJson(before[i], after[i], `${path}/${i}`));
+      }
+    }
+    return changes;
+  }
+
+  return Object.is(before, after) ? [] : [{ path, kind: 'changed', before, after }];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,80 @@
+/**
+ * Encoding of on-chain agent metadata values (IdentityRegistry setMetadata / getMetadata bytes)
+ */
+
+import { ethers } from 'ethers';
+
+/**
+ * Metadata keys the SDK itself writes on-chain
+ * agentWallet holds a CAIP-10 account ("eip155:<chainId>:<address>"), agentName the ENS name
+ */
+export const METADATA_KEYS = {
+  AGENT_WALLET: 'agentWallet',
+  AGENT_NAME: 'agentName',
+} as const;
+
+// Marks values written as JSON, so that strings such as "123" or "true" decode back to strings
+const JSON_PREFIX = 'json:';
+
+/**
+ * Encode a metadata value as UTF-8 bytes
+ * Strings are stored as-is; anything else (and strings starting with "json:") as "json:" + JSON
+ */
+export function encodeMetadataValue(value: unknown): Uint8Array {
+  if (typeof value === 'string' && !value.startsWith(JSON_PREFIX)) {
+    return ethers.toUtf8Bytes(value);
+  }
+  return ethers.toUtf8Bytes(JSON_PREFIX + JSON.stringify(value));
+}
+
+/**
+ * Decode a metadata value read from chain
+ * - agentWallet: CAIP-10 account as { chainId, address } (raw string if malformed)
+ * - Values encoded as JSON ("json:" prefix) are parsed; other text is returned unchanged
+ * - Bytes that are not valid UTF-8 are returned as a hex string
+ * Returns undefined for unset (empty) values
+ */
+export function decodeMetadataValue(key: string, value: ethers.BytesLike): unknown {
+  const bytes = ethers.getBytes(value);
+  if (bytes.length === 0) {
+    return undefined;
+  }
+
+  let text: string;
+  try {
+    text = ethers.toUtf8String(bytes);
+  } catch {
+    return ethers.hexlify(bytes);
+  }
+
+  if (key === METADATA_KEYS.AGENT_WALLET) {
+    return parseCaip10Account(text) ?? text;
+  }
+
+  if (text.startsWith(JSON_PREFIX)) {
+    try {
+      return JSON.parse(text.slice(JSON_PREFIX.length));
+    } catch {
+      // Not written by encodeMetadataValue - keep the text
+    }
+  }
+  return text;
+}
+
+/**
+ * Parse an EVM CAIP-10 account ("eip155:<chainId>:<address>"); null if the value is not one
+ */
+export function parseCaip10Account(value: string): { chainId: number; address: string } | null {
+  const match = value.trim().match(/^eip155:(\d+):(0x[a-fA-F0-9]{40})$/);
+  if (!match) {
+    return null;
+  }
+  return { chainId: parseInt(match[1], 10), address: ethers.getAddress(match[2].toLowerCase()) };
+}
+
+/**
+ * Format an EVM CAIP-10 account
+ */
+export function formatCaip10Account(chainId: number, address: string): string {
+  return `eip155:${chainId}:${address}`;
+}
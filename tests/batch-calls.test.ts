@@ -0,0 +1,99 @@
+/**
+ * Unit tests for batched contract writes (Web3Client.sendCalls).
+ *
+ * These tests run offline with a fake signer and stubbed provider calls:
+ * 1. EIP-5792 wallet batches when the wallet reports atomic support
+ * 2. Self-multicall when the registry exposes multicall(bytes[])
+ * 3. Sequential fallback with consecutive nonces
+ */
+
+import { ethers } from 'ethers';
+import { Web3Client, type ContractCall } from '../src/core/web3-client';
+import { IDENTITY_REGISTRY_ABI, MULTICALL_ABI } from '../src/core/contracts';
+
+const REGISTRY = '0x8004a6090Cd10A7288092483047B097295Fb8847';
+const FROM = '0x0000000000000000000000000000000000000a11';
+const multicall = new ethers.Interface(MULTICALL_ABI);
+
+function setup(walletSend?: (method: string, params: unknown[]) => Promise<unknown>) {
+  const sent: ethers.TransactionRequest[] = [];
+  const signer = {
+    provider: walletSend ? { send: walletSend } : null,
+    getAddress: async () => FROM,
+    sendTransaction: async (request: ethers.TransactionRequest) => {
+      sent.push(request);
+      return { hash: ethers.id(`tx-${sent.length}`), nonce: request.nonce };
+    },
+  } as unknown as ethers.Signer;
+
+  const client = new Web3Client('http://127.0.0.1:1', signer);
+  client.chainId = 11155111n;
+  jest.spyOn(client.provider, 'getTransactionCount').mockResolvedValue(3);
+
+  const registry = new ethers.Contract(REGISTRY, IDENTITY_REGISTRY_ABI, client.provider);
+  const calls: ContractCall[] = [
+    { contract: registry, methodName: 'setMetadata', args: [7n, 'agentWallet', '0x1234'] },
+    { contract: registry, methodName: 'setAgentUri', args: [7n, 'ipfs://cid'] },
+  ];
+  return { client, registry, calls, sent };
+}
+
+describe('Web3Client.sendCalls', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should send an atomic wallet_sendCalls batch when the wallet supports it', async () => {
+    const walletSend = jest.fn(async (method: string, _params: unknown[]) => {
+      switch (method) {
+        case 'wallet_getCapabilities':
+          return { '0xaa36a7': { atomic: { status: 'supported' } } };
+        case 'wallet_sendCalls':
+          return { id: 'batch-1' };
+        case 'wallet_getCallsStatus':
+          return { status: 200, receipts: [{ transactionHash: '0xabc' }] };
+      }
+    });
+    const { client, calls, registry, sent } = setup(walletSend);
+    const wait = jest.spyOn(client, 'waitForTransaction').mockResolvedValue({} as ethers.ContractTransactionReceipt);
+
+    const batch = await client.sendCalls(calls);
+
+    expect(batch).toEqual({ mode: 'wallet', txHashes: [], batchId: 'batch-1' });
+    expect(sent).toHaveLength(0);
+    const [request] = walletSend.mock.calls.find(([method]) => method === 'wallet_sendCalls')![1] as Array<{
+      calls: Array<{ to: string; data: string }>;
+    }>;
+    expect(request).toMatchObject({ chainId: '0xaa36a7', from: FROM, atomicRequired: true });
+    expect(request.calls[1]).toEqual({
+      to: REGISTRY,
+      data: registry.interface.encodeFunctionData('setAgentUri', [7n, 'ipfs://cid']),
+    });
+
+    await client.waitForCalls(batch);
+    expect(batch.txHashes).toEqual(['0xabc']);
+    expect(wait).toHaveBeenCalledWith('0xabc', expect.any(Number));
+  });
+
+  it('should use the registry multicall when it is supported', async () => {
+    const { client, calls, registry, sent } = setup();
+    jest.spyOn(client.provider, 'call').mockResolvedValue(multicall.encodeFunctionResult('multicall', [[]]));
+
+    const batch = await client.sendCalls(calls, { gasLimit: 500000n });
+
+    expect(batch.mode).toBe('multicall');
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({ to: REGISTRY, gasLimit: 500000n, nonce: 3 });
+    const [inner] = multicall.decodeFunctionData('multicall', sent[0].data as string);
+    expect(inner).toEqual(calls.map((call) => registry.interface.encodeFunctionData(call.methodName, call.args)));
+  });
+
+  it('should fall back to back-to-back sends with consecutive nonces', async () => {
+    const { client, calls, sent } = setup();
+    jest.spyOn(client.provider, 'call').mockRejectedValue(new Error('execution reverted'));
+
+    const batch = await client.sendCalls(calls);
+
+    expect(batch.mode).toBe('sequential');
+    expect(batch.txHashes).toHaveLength(2);
+    expect(sent.map((tx) => tx.nonce)).toEqual([3, 4]);
+  });
+});
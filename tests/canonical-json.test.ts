@@ -0,0 +1,67 @@
+/**
+ * Unit tests for canonical JSON (RFC 8785) and feedback file hashing
+ */
+
+import { ethers } from 'ethers';
+import { canonicalize, computeFeedbackHash, computeFileHash } from '../src/utils/canonical-json';
+
+describe('canonicalize', () => {
+  it('should match the RFC 8785 sample output', () => {
+    const input = JSON.parse(
+      '{"numbers":[333333333.33333329,1E30,4.50,2e-3,0.000000000000000000000000001],' +
+        '"string":"\\u20ac$\\u000F\\u000aA\'\\u0042\\u0022\\u005c\\\\\\"\\/",' +
+        '"literals":[null,true,false]}'
+    );
+
+    expect(canonicalize(input)).toBe(
+      '{"literals":[null,true,false],"numbers":[333333333.3333333,1e+30,4.5,0.002,1e-27],' +
+        '"string":"€$\\u000f\\nA\'B\\"\\\\\\\\\\"/"}'
+    );
+  });
+
+  it('should sort keys by UTF-16 code units at every level', () => {
+    const input = { '\u20ac': 1, '\r': 2, '\ufb33': 3, '1': 4, '\ud83d\ude00': 5, '\u0080': 6, '\u00f6': 7 };
+    expect(canonicalize({ nested: input })).toBe(
+      '{"nested":{"\\r":2,"1":4,"\u0080":6,"\u00f6":7,"\u20ac":1,"\ud83d\ude00":5,"\ufb33":3}}'
+    );
+  });
+
+  it('should follow JSON.stringify for dropped values and toJSON', () => {
+    expect(canonicalize({ b: undefined, a: [undefined, () => 1], c: new Date(0), d: -0 })).toBe(
+      '{"a":[null,null],"c":"1970-01-01T00:00:00.000Z","d":0}'
+    );
+  });
+
+  it('should reject values without a JSON form', () => {
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+
+    expect(() => canonicalize({ n: NaN })).toThrow(TypeError);
+    expect(() => canonicalize({ n: 1n })).toThrow(TypeError);
+    expect(() => canonicalize(circular)).toThrow('circular');
+    expect(() => canonicalize(undefined)).toThrow(TypeError);
+  });
+
+  it('should allow repeated (non-circular) references', () => {
+    const shared = { x: 1 };
+    expect(canonicalize({ a: shared, b: shared })).toBe('{"a":{"x":1},"b":{"x":1}}');
+  });
+});
+
+describe('computeFeedbackHash', () => {
+  it('should hash the canonical UTF-8 bytes', () => {
+    const file = { score: 90, context: { b: 2, a: 1 } };
+    expect(computeFeedbackHash(file)).toBe(
+      ethers.keccak256(ethers.toUtf8Bytes('{"context":{"a":1,"b":2},"score":90}'))
+    );
+    expect(computeFileHash(file)).toBe(computeFeedbackHash(file));
+  });
+
+  it('should be independent of key order and cover nested fields', () => {
+    const a = { score: 90, context: { repo: 'demo', pr: 1 } };
+    const b = { context: { pr: 1, repo: 'demo' }, score: 90 };
+
+    expect(computeFeedbackHash(a)).toBe(computeFeedbackHash(b));
+    expect(computeFeedbackHash({ ...a, context: { repo: 'other', pr: 1 } })).not.toBe(computeFeedbackHash(a));
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Unit tests for transaction simulation (dry-run) helpers.
+ *
+ * These tests run offline:
+ * 1. Encoding calls, including register() overload selection
+ * 2. Capturing reverts from staticCall with decoded reasons
+ * 3. Aggregating simulated calls into a transaction plan
+ */
+
+import { ethers } from 'ethers';
+import { Web3Client } from '../src/core/web3-client';
+import { IDENTITY_REGISTRY_ABI } from '../src/core/contracts';
+
+const REGISTRY_ADDRESS = '0x0000000000000000000000000000000000008004';
+
+function revertingContract(reason: string): ethers.Contract {
+  const data = ethers.concat([
+    ethers.id('Error(string)').slice(0, 10),
+    ethers.AbiCoder.defaultAbiCoder().encode(['string'], [reason]),
+  ]);
+  const runner = {
+    provider: null,
+    call: async () => {
+      throw Object.assign(new Error('execution reverted'), { code: 'CALL_EXCEPTION', data });
+    },
+  };
+  return new ethers.Contract(REGISTRY_ADDRESS, IDENTITY_REGISTRY_ABI, runner as unknown as ethers.ContractRunner);
+}
+
+describe('Dry run', () => {
+  const web3Client = new Web3Client('http://127.0.0.1:8545');
+
+  it('should encode calls and resolve register() overloads', () => {
+    const registry = new ethers.Contract(REGISTRY_ADDRESS, IDENTITY_REGISTRY_ABI);
+
+    const bare = web3Client.describeContractCall(registry, 'register');
+    expect(bare.method).toBe('register()');
+    expect(bare.status).toBe('skipped');
+
+    const withMetadata = web3Client.describeContractCall(registry, 'register', '', [
+      { key: 'agentWallet', value: new Uint8Array([1]) },
+    ]);
+    expect(withMetadata.method).toBe('register(string,(string,bytes)[])');
+
+    const setUri = web3Client.describeContractCall(registry, 'setAgentUri', 1n, 'ipfs://cid');
+    expect(setUri.to).toBe(REGISTRY_ADDRESS);
+    expect(setUri.data).toBe(registry.interface.encodeFunctionData('setAgentUri', [1n, 'ipfs://cid']));
+  });
+
+  it('should capture reverts with a decoded reason instead of throwing', async () => {
+    const call = await web3Client.simulateContract(
+      revertingContract('Not authorized'),
+      'setAgentUri',
+      {},
+      1n,
+      'ipfs://cid'
+    );
+
+    expect(call.status).toBe('reverted');
+    expect(call.revertReason).toBe('Not authorized');
+    expect(call.gasEstimate).toBeUndefined();
+  });
+
+  it('should aggregate gas and success across a plan', () => {
+    const registry = new ethers.Contract(REGISTRY_ADDRESS, IDENTITY_REGISTRY_ABI);
+    const base = web3Client.describeContractCall(registry, 'setAgentUri', 1n, 'ipfs://cid');
+
+    const plan = web3Client.toTransactionPlan([
+      { ...base, status: 'success', gasEstimate: 50000n },
+      { ...base, status: 'success', gasEstimate: 30000n },
+      base,
+    ]);
+    expect(plan.success).toBe(true);
+    expect(plan.totalGasEstimate).toBe(80000n);
+
+    const failed = web3Client.toTransactionPlan([{ ...base, status: 'reverted', revertReason: 'x' }]);
+    expect(failed.success).toBe(false);
+  });
+});
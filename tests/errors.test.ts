@@ -0,0 +1,84 @@
+/**
+ * Unit tests for typed SDK errors and revert decoding.
+ *
+ * These tests run offline:
+ * 1. Registry custom errors decoded from raw revert data
+ * 2. require() reasons mapped to error classes
+ * 3. Context wrapping keeps the error class, code, revert data and subclass fields
+ */
+
+import { ethers } from 'ethers';
+import {
+  Agent0Error,
+  Agent0ErrorCode,
+  ContractRevertError,
+  FeedbackAuthExpiredError,
+  InvalidRegistrationFileError,
+  NotOwnerError,
+  toContractError,
+  withErrorContext,
+} from '../src/core/errors';
+import { IDENTITY_REGISTRY_ABI } from '../src/core/contracts';
+
+const registry = new ethers.Contract('0x0000000000000000000000000000000000008004', IDENTITY_REGISTRY_ABI);
+const sender = ethers.getAddress('0x742d35cc6634c0532925a3b8d4c9db96c4b4d8b6');
+const owner = '0x0000000000000000000000000000000000000001';
+
+function callException(fields: Record<string, unknown>): Error {
+  return Object.assign(new Error('execution reverted'), { code: 'CALL_EXCEPTION', ...fields });
+}
+
+describe('Agent0 errors', () => {
+  it('should decode registry custom errors into NotOwnerError', () => {
+    const data = registry.interface.encodeErrorResult('ERC721IncorrectOwner', [sender, 7n, owner]);
+    const error = toContractError(callException({ data }), 'Transaction transferFrom failed', registry);
+
+    expect(error).toBeInstanceOf(NotOwnerError);
+    expect(error.code).toBe(Agent0ErrorCode.NOT_OWNER);
+    expect(error.revert?.name).toBe('ERC721IncorrectOwner');
+    expect(error.revert?.args).toEqual([sender, 7n, owner]);
+    expect(error.message).toContain('Transaction transferFrom failed: ERC721IncorrectOwner(');
+  });
+
+  it('should map require() reasons to error classes', () => {
+    const expired = toContractError(callException({ reason: 'Auth expired' }), 'Transaction giveFeedback failed');
+    expect(expired).toBeInstanceOf(FeedbackAuthExpiredError);
+    expect(expired.revertReason).toBe('Auth expired');
+
+    const other = toContractError(callException({ reason: 'Score too high' }), 'Transaction giveFeedback failed');
+    expect(other).toBeInstanceOf(ContractRevertError);
+    expect(other.code).toBe(Agent0ErrorCode.CONTRACT_REVERT);
+  });
+
+  it('should keep non-revert failures as generic errors with their cause', () => {
+    const cause = new Error('socket hang up');
+    const error = toContractError(cause, 'Transaction setAgentUri failed');
+
+    expect(error).toBeInstanceOf(Agent0Error);
+    expect(error.code).toBe(Agent0ErrorCode.UNKNOWN);
+    expect(error.cause).toBe(cause);
+    expect(error.revert).toBeUndefined();
+  });
+
+  it('should keep class and revert data when adding context', () => {
+    const inner = toContractError(callException({ reason: 'Auth expired' }), 'Transaction giveFeedback failed');
+    const outer = withErrorContext(inner, 'Failed to submit feedback to blockchain');
+
+    expect(outer).toBeInstanceOf(FeedbackAuthExpiredError);
+    expect(outer.name).toBe('FeedbackAuthExpiredError');
+    expect(outer.revert).toEqual(inner.revert);
+    expect(outer.cause).toBe(inner);
+    expect(outer.message).toBe('Failed to submit feedback to blockchain: Transaction giveFeedback failed: Auth expired');
+  });
+
+  it('should keep the issues of an invalid registration file when adding context', () => {
+    const issues = [{ path: '/name', message: 'must be string', severity: 'error' as const }];
+    const inner = new InvalidRegistrationFileError('Registration file failed validation', { issues });
+    const outer = withErrorContext(inner, 'Failed to load registration file');
+
+    expect(outer).toBeInstanceOf(InvalidRegistrationFileError);
+    expect((outer as InvalidRegistrationFileError).issues).toEqual(issues);
+    expect(outer.code).toBe(Agent0ErrorCode.INVALID_REGISTRATION_FILE);
+    expect(outer.message).toBe('Failed to load registration file: Registration file failed validation');
+  });
+});
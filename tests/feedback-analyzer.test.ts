@@ -0,0 +1,151 @@
+/**
+ * Unit tests for FeedbackAnalyzer sybil / spam flags.
+ *
+ * These tests run offline with stubbed transaction counts and subgraph data:
+ * 1. Self-reviews, duplicate text and single-agent reviewers
+ * 2. Bursts from fresh addresses (but not from established ones)
+ * 3. Owner funding through a pluggable funding source
+ * 4. Excluding flagged feedback from reputation summaries
+ */
+
+import { Web3Client } from '../src/core/web3-client';
+import { FeedbackAnalyzer } from '../src/core/feedback-analyzer';
+import { FeedbackManager } from '../src/core/feedback-manager';
+import type { SubgraphClient } from '../src/core/subgraph-client';
+import { FeedbackFlag } from '../src/models/enums';
+import type { Feedback } from '../src/models/interfaces';
+
+const AGENT = '11155111:7';
+const OWNER = '0x00000000000000000000000000000000000000aa';
+const T0 = 1_700_000_000;
+
+function fb(reviewer: string, options: Partial<Feedback> = {}): Feedback {
+  return {
+    id: [AGENT, reviewer, 1],
+    agentId: AGENT,
+    reviewer,
+    score: 90,
+    tags: [],
+    createdAt: T0,
+    answers: [],
+    isRevoked: false,
+    ...options,
+  };
+}
+
+function setup(txCounts: Record<string, number> = {}, options = {}) {
+  const web3Client = new Web3Client('http://127.0.0.1:1');
+  const getTransactionCount = jest
+    .spyOn(web3Client.provider, 'getTransactionCount')
+    .mockImplementation(async (address) => txCounts[String(address)] ?? 100);
+  return { analyzer: new FeedbackAnalyzer(web3Client, options), getTransactionCount };
+}
+
+const parties = new Map([[AGENT, { owners: [OWNER], operators: ['0xop'] }]]);
+
+describe('FeedbackAnalyzer', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should flag self-reviews, duplicate text and single-agent reviewers', async () => {
+    const { analyzer, getTransactionCount } = setup();
+    const copy = 'Absolutely the best agent I have ever used';
+    const feedback = [
+      fb(OWNER.replace('aa', 'AA')), // Checksum casing still matches
+      fb('0xop', { createdAt: T0 + 86400 }),
+      fb('0xb', { text: copy, createdAt: T0 + 2 * 86400 }),
+      fb('0xc', { text: `  ${copy.toUpperCase()}  `, createdAt: T0 + 3 * 86400 }),
+      fb('0xd', { text: 'great', createdAt: T0 + 4 * 86400 }),
+      fb('0xe', { text: 'great', createdAt: T0 + 5 * 86400 }),
+    ];
+    const reviewerHistory = new Map([
+      ['0xb', { feedbackCount: 1, agentCount: 1 }],
+      ['0xc', { feedbackCount: 9, agentCount: 4 }],
+    ]);
+
+    await analyzer.analyze(feedback, { parties, reviewerHistory });
+
+    expect(feedback.map((f) => f.flags)).toEqual([
+      [FeedbackFlag.SELF_REVIEW],
+      [FeedbackFlag.SELF_REVIEW],
+      [FeedbackFlag.DUPLICATE_TEXT, FeedbackFlag.SINGLE_AGENT_REVIEWER],
+      [FeedbackFlag.DUPLICATE_TEXT],
+      [], // Too short to count as copied text
+      [],
+    ]);
+    expect(getTransactionCount).not.toHaveBeenCalled(); // No time clusters
+  });
+
+  it('should flag bursts from fresh addresses only', async () => {
+    const { analyzer, getTransactionCount } = setup({ '0x1': 1, '0x2': 2, '0x3': 1, '0x5': 0 });
+    const feedback = [
+      fb('0x1', { createdAt: T0 }),
+      fb('0x2', { createdAt: T0 + 600 }),
+      fb('0x3', { createdAt: T0 + 1200 }),
+      fb('0x4', { createdAt: T0 + 1800 }), // Established address inside the burst
+      fb('0x5', { createdAt: T0 + 86400 }), // Fresh, but on its own
+    ];
+
+    await analyzer.analyze(feedback, { parties: new Map() });
+
+    expect(feedback.map((f) => f.flags)).toEqual([
+      [FeedbackFlag.FRESH_ADDRESS_BURST],
+      [FeedbackFlag.FRESH_ADDRESS_BURST],
+      [FeedbackFlag.FRESH_ADDRESS_BURST],
+      [],
+      [],
+    ]);
+    expect(getTransactionCount).toHaveBeenCalledTimes(4); // 0x5 is never in a cluster
+  });
+
+  it('should flag reviewers funded by an owner when a funding source is configured', async () => {
+    const getFundingSource = jest.fn(async (address: string) => (address === '0xb' ? OWNER : '0xexchange'));
+    const { analyzer } = setup({}, { getFundingSource });
+    const feedback = [fb('0xb'), fb('0xc', { createdAt: T0 + 86400 })];
+
+    await analyzer.analyze(feedback, { parties });
+
+    expect(feedback[0].flags).toEqual([FeedbackFlag.FUNDED_BY_OWNER]);
+    expect(feedback[1].flags).toEqual([]);
+  });
+});
+
+describe('getReputationSummary excludeFlagged', () => {
+  function setupManager() {
+    const agentFeedback = [
+      { id: `${AGENT}:${OWNER}:1`, clientAddress: OWNER, score: 100, createdAt: String(T0) },
+      { id: `${AGENT}:0xb:1`, clientAddress: '0xb', score: 60, createdAt: String(T0 + 86400) },
+      { id: `${AGENT}:0xc:1`, clientAddress: '0xc', score: 40, createdAt: String(T0 + 2 * 86400) },
+    ];
+    const subgraphClient = {
+      searchFeedback: jest.fn(async (params: { reviewers?: string[] }) =>
+        params.reviewers
+          ? [
+              { clientAddress: '0xb', agent: { id: AGENT } },
+              { clientAddress: '0xb', agent: { id: '11155111:8' } },
+              { clientAddress: '0xc', agent: { id: AGENT } },
+            ]
+          : agentFeedback
+      ),
+      getAgentById: jest.fn(async () => ({ owners: [OWNER], operators: [] })),
+    } as unknown as SubgraphClient;
+
+    const manager = new FeedbackManager(new Web3Client('http://127.0.0.1:1'));
+    manager.setSubgraphClientGetter(() => subgraphClient, 11155111);
+    return manager;
+  }
+
+  it('should leave out feedback with any flag', async () => {
+    const summary = await setupManager().getReputationSummary(AGENT, undefined, undefined, undefined, {
+      excludeFlagged: true,
+    });
+    // Owner self-review and the single-agent reviewer 0xc are dropped
+    expect(summary).toEqual({ count: 1, averageScore: 60 });
+  });
+
+  it('should leave out only the listed flags', async () => {
+    const summary = await setupManager().getReputationSummary(AGENT, undefined, undefined, 'mean', {
+      excludeFlagged: [FeedbackFlag.SELF_REVIEW],
+    });
+    expect(summary).toEqual({ count: 2, averageScore: 50, model: 'mean', score: 50 });
+  });
+});
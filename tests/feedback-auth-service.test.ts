@@ -0,0 +1,207 @@
+/**
+ * Unit tests for the feedbackAuth issuing service.
+ *
+ * Runs a local HTTP server in front of a FeedbackManager signing with a local key (registry reads stubbed):
+ * 1. Challenge / signature flow returning a valid feedbackAuth
+ * 2. Policy: allowlist, maxIndexLimit, rate limits
+ * 3. x402 payment proofs through the verifyPayment hook, each receipt accepted once
+ * 4. Caps on outstanding challenges and pruning of idle rate limit entries
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import type { FeedbackManager } from '../src/core/feedback-manager';
+import { FeedbackAuthService, type FeedbackAuthPolicy } from '../src/core/feedback-auth-service';
+import { TEST_AGENT_ID, TEST_SIGNER_KEY, feedbackManager, offlineWeb3Client } from './stubs';
+
+const client = new ethers.Wallet('0x' + '22'.repeat(32));
+
+// Fields returned across the service's endpoints
+interface ServiceBody {
+  challenge: string;
+  feedbackAuth: string;
+  expiry: number;
+  error: string;
+}
+
+function stubSigner(lastIndex = 0n): FeedbackManager {
+  const web3Client = offlineWeb3Client(TEST_SIGNER_KEY);
+  jest.spyOn(web3Client, 'callContract').mockResolvedValue(lastIndex); // getLastIndex
+  return feedbackManager(web3Client);
+}
+
+describe('FeedbackAuthService', () => {
+  let server: http.Server | undefined;
+
+  async function serve(policy: FeedbackAuthPolicy = {}, lastIndex?: bigint) {
+    const signer = stubSigner(lastIndex);
+    server = http.createServer(new FeedbackAuthService(TEST_AGENT_ID, signer, policy).nodeHandler());
+    await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const post = async (path: string, body: unknown) => {
+      const response = await fetch(`${url}${path}`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      return { status: response.status, headers: response.headers, body: (await response.json()) as ServiceBody };
+    };
+    const requestAuth = async (extra: Record<string, unknown> = {}) => {
+      const { body } = await post('/challenge', { clientAddress: client.address });
+      const signature = await client.signMessage(body.challenge);
+      return post('/', {
+        clientAddress: client.address,
+        proof: { type: 'signature', challenge: body.challenge, signature },
+        ...extra,
+      });
+    };
+    return { signer, post, requestAuth };
+  }
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    if (server) {
+      await new Promise((resolve) => server!.close(resolve));
+      server = undefined;
+    }
+  });
+
+  it('should issue a feedbackAuth for a signed challenge', async () => {
+    const { signer, requestAuth } = await serve({ expiryHours: 1 });
+
+    const { status, body } = await requestAuth();
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ agentId: TEST_AGENT_ID, clientAddress: client.address, indexLimit: 1 });
+    const auth = signer.decodeFeedbackAuth(body.feedbackAuth);
+    expect(auth.clientAddress).toBe(client.address);
+    expect(Number(auth.expiry)).toBe(body.expiry);
+    expect(body.expiry - Date.now() / 1000).toBeLessThanOrEqual(3600);
+  });
+
+  it('should reject reused challenges and signatures from other keys', async () => {
+    const { post } = await serve();
+    const { body } = await post('/challenge', { clientAddress: client.address });
+
+    const forged = await ethers.Wallet.createRandom().signMessage(body.challenge);
+    const proof = { type: 'signature', challenge: body.challenge, signature: forged };
+    expect((await post('/', { clientAddress: client.address, proof })).status).toBe(401);
+
+    const signature = await client.signMessage(body.challenge);
+    const valid = { type: 'signature', challenge: body.challenge, signature };
+    expect((await post('/', { clientAddress: client.address, proof: valid })).status).toBe(200);
+    expect((await post('/', { clientAddress: client.address, proof: valid })).status).toBe(401);
+  });
+
+  it('should enforce allowlist, maxIndexLimit and rate limits', async () => {
+    const denied = await serve({ allowlist: [ethers.Wallet.createRandom().address] });
+    expect((await denied.requestAuth()).status).toBe(403);
+    await new Promise((resolve) => server!.close(resolve));
+
+    const capped = await serve({ maxIndexLimit: 3, rateLimit: { maxRequests: 2, windowMs: 60000 } }, 3n);
+    expect((await capped.requestAuth({ indexLimit: 4 })).status).toBe(403);
+    const exhausted = await capped.requestAuth(); // Signer picks lastIndex + 1 = 4
+    expect(exhausted.status).toBe(403);
+    expect(exhausted.body.error).toContain('maximum of 3');
+
+    expect((await capped.requestAuth({ indexLimit: 3 })).status).toBe(200);
+    const limited = await capped.requestAuth({ indexLimit: 3 }); // Third proven request in the window
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+  });
+
+  it('should accept x402 payments only through verifyPayment', async () => {
+    const verifyPayment = jest.fn(async (payment: unknown) => (payment as { txHash?: string }).txHash === '0xpaid');
+    const { post } = await serve({ verifyPayment });
+
+    const paid = await post('/', {
+      clientAddress: client.address,
+      proof: { type: 'x402', payment: { txHash: '0xpaid' } },
+    });
+    expect(paid.status).toBe(200);
+    expect(verifyPayment).toHaveBeenCalledWith({ txHash: '0xpaid' }, client.address);
+
+    const unpaid = await post('/', { clientAddress: client.address, proof: { type: 'x402', payment: {} } });
+    expect(unpaid.status).toBe(402);
+  });
+
+  it('should refuse a replayed x402 receipt', async () => {
+    const auth = new FeedbackAuthService(TEST_AGENT_ID, stubSigner(), { verifyPayment: async () => true });
+    const request = (payment: unknown) => {
+      const proof = { type: 'x402', payment };
+      return auth.handle({ method: 'POST', path: '/', body: { clientAddress: client.address, proof } });
+    };
+
+    const [first, concurrent] = await Promise.all([
+      request({ txHash: '0xpaid', amount: '1' }),
+      request({ amount: '1', txHash: '0xpaid' }), // Same receipt, keys reordered
+    ]);
+    expect([first.status, concurrent.status]).toEqual([200, 409]);
+    expect((await request({ txHash: '0xpaid', amount: '1' })).status).toBe(409);
+    expect((await request({ txHash: '0xother', amount: '1' })).status).toBe(200);
+  });
+
+  it('should let a receipt that failed verification be presented again', async () => {
+    const verifyPayment = jest.fn<Promise<boolean>, [unknown, string]>().mockResolvedValueOnce(false);
+    verifyPayment.mockResolvedValue(true);
+    const auth = new FeedbackAuthService(TEST_AGENT_ID, stubSigner(), {
+      verifyPayment,
+      paymentId: (payment) => (payment as { txHash: string }).txHash,
+    });
+    const request = (payment: unknown) => {
+      const proof = { type: 'x402', payment };
+      return auth.handle({ method: 'POST', path: '/', body: { clientAddress: client.address, proof } });
+    };
+
+    expect((await request({ txHash: '0xpending' })).status).toBe(402); // Not settled yet
+    expect((await request({ txHash: '0xpending' })).status).toBe(200);
+    expect((await request({ txHash: '0xpending', memo: 'again' })).status).toBe(409);
+  });
+
+  describe('state bounds', () => {
+    const paid = () => ({ type: 'x402', payment: { nonce: ethers.hexlify(ethers.randomBytes(8)) } });
+    const service = (policy: FeedbackAuthPolicy) =>
+      new FeedbackAuthService(TEST_AGENT_ID, stubSigner(), { verifyPayment: async () => true, ...policy });
+
+    it('should replace a client\'s oldest challenge and refuse new ones when the store is full', async () => {
+      const auth = service({ maxChallenges: 3, maxChallengesPerClient: 2 });
+      const [oldest, second, third] = [1, 2, 3].map(() => auth.createChallenge(client.address).challenge);
+
+      const signed = async (challenge: string) => {
+        const proof = { type: 'signature', challenge, signature: await client.signMessage(challenge) };
+        return (await auth.handle({ method: 'POST', path: '/', body: { clientAddress: client.address, proof } })).status;
+      };
+      expect(await signed(oldest)).toBe(401);
+      expect(await signed(third)).toBe(200);
+
+      auth.createChallenge(ethers.Wallet.createRandom().address);
+      auth.createChallenge(ethers.Wallet.createRandom().address);
+      const full = await auth.handle({
+        method: 'POST',
+        path: '/challenge',
+        body: { clientAddress: ethers.Wallet.createRandom().address },
+      });
+      expect(full.status).toBe(503);
+      expect(Number(full.headers['retry-after'])).toBeGreaterThan(0);
+      expect(await signed(second)).toBe(200);
+    });
+
+    it('should forget rate limit history once a client\'s window has passed', async () => {
+      const auth = service({ rateLimit: { maxRequests: 5, windowMs: 1000 } });
+      const now = Date.now();
+      const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+      const request = (clientAddress: string) =>
+        auth.handle({ method: 'POST', path: '/', body: { clientAddress, proof: paid() } });
+
+      await request(client.address);
+      await request(ethers.Wallet.createRandom().address);
+      expect(auth['requests'].size).toBe(2);
+
+      clock.mockReturnValue(now + 1500);
+      await request(client.address);
+      expect(Array.from(auth['requests'].keys())).toEqual([client.address.toLowerCase()]);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for client-side feedbackAuth checks.
+ *
+ * These tests run offline: the agent owner signs with a local wallet and registry reads are stubbed.
+ * 1. Decoding what signFeedbackAuth produces
+ * 2. Accepting a valid authorization
+ * 3. Rejecting expired, mismatched, tampered and unauthorized authorizations
+ */
+
+import { ethers } from 'ethers';
+import { FeedbackAuthExpiredError, FeedbackAuthInvalidError, NotOwnerError } from '../src/core/errors';
+import {
+  REGISTRIES,
+  TEST_AGENT_ID,
+  TEST_CLIENT,
+  TEST_SIGNER_KEY,
+  feedbackManager,
+  offlineWeb3Client,
+} from './stubs';
+
+function setup(state: { owner?: string; lastIndex?: bigint } = {}) {
+  const web3Client = offlineWeb3Client(TEST_SIGNER_KEY);
+  const owner = state.owner ?? web3Client.address!;
+  jest.spyOn(web3Client, 'callContract').mockImplementation(async (_contract, method) => {
+    switch (method) {
+      case 'getLastIndex':
+        return state.lastIndex ?? 0n;
+      case 'ownerOf':
+        return owner;
+      case 'isApprovedForAll':
+        return false;
+      case 'getApproved':
+        return ethers.ZeroAddress;
+    }
+    throw new Error(`Unexpected call ${method}`);
+  });
+
+  return { manager: feedbackManager(web3Client), web3Client };
+}
+
+describe('feedbackAuth verification', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should decode a signed feedbackAuth', async () => {
+    const { manager, web3Client } = setup();
+    const auth = manager.decodeFeedbackAuth(await manager.signFeedbackAuth(TEST_AGENT_ID, TEST_CLIENT, 3, 1));
+
+    expect(auth).toMatchObject({
+      agentId: 7n,
+      clientAddress: TEST_CLIENT,
+      indexLimit: 3n,
+      chainId: 11155111n,
+      identityRegistry: REGISTRIES.identity,
+      signerAddress: web3Client.address,
+    });
+    expect(ethers.getBytes(auth.signature!)).toHaveLength(65);
+  });
+
+  it('should accept a valid authorization from the owner', async () => {
+    const { manager } = setup();
+    const feedbackAuth = await manager.signFeedbackAuth(TEST_AGENT_ID, TEST_CLIENT, 1, 1);
+
+    const auth = await manager.verifyFeedbackAuth(feedbackAuth, { agentId: TEST_AGENT_ID, clientAddress: TEST_CLIENT });
+
+    expect(auth.agentId).toBe(7n);
+  });
+
+  it('should reject expired, mismatched and exhausted authorizations', async () => {
+    const { manager } = setup({ lastIndex: 1n });
+    const expected = { agentId: TEST_AGENT_ID, clientAddress: TEST_CLIENT };
+
+    const expired = await manager.signFeedbackAuth(TEST_AGENT_ID, TEST_CLIENT, 5, -1);
+    await expect(manager.verifyFeedbackAuth(expired, expected)).rejects.toBeInstanceOf(FeedbackAuthExpiredError);
+
+    const valid = await manager.signFeedbackAuth(TEST_AGENT_ID, TEST_CLIENT, 5, 1);
+    await expect(
+      manager.verifyFeedbackAuth(valid, { agentId: TEST_AGENT_ID, clientAddress: ethers.ZeroAddress })
+    ).rejects.toThrow('issued for client');
+    await expect(manager.verifyFeedbackAuth(valid, { ...expected, agentId: '11155111:8' })).rejects.toThrow(
+      'issued for agent 7'
+    );
+
+    const exhausted = await manager.signFeedbackAuth(TEST_AGENT_ID, TEST_CLIENT, 1, 1);
+    await expect(manager.verifyFeedbackAuth(exhausted, expected)).rejects.toThrow('index limit 1 reached');
+  });
+
+  it('should reject tampered signatures and signers without rights to the agent', async () => {
+    const expected = { agentId: TEST_AGENT_ID, clientAddress: TEST_CLIENT };
+    const { manager } = setup();
+    const feedbackAuth = await manager.signFeedbackAuth(TEST_AGENT_ID, TEST_CLIENT, 5, 1);
+
+    const tampered = { ...manager.decodeFeedbackAuth(feedbackAuth), indexLimit: 100n };
+    await expect(manager.verifyFeedbackAuth(tampered, expected)).rejects.toThrow(FeedbackAuthInvalidError);
+    await expect(manager.verifyFeedbackAuth('0x1234', expected)).rejects.toThrow('expected at least 289 bytes');
+
+    const { manager: otherOwner } = setup({ owner: ethers.Wallet.createRandom().address });
+    await expect(otherOwner.verifyFeedbackAuth(feedbackAuth, expected)).rejects.toBeInstanceOf(NotOwnerError);
+  });
+});
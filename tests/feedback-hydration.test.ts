@@ -0,0 +1,94 @@
+/**
+ * Unit tests for getFeedback hydration from the NewFeedback event and feedback file.
+ *
+ * These tests run offline with stubbed contract reads, events and IPFS:
+ * 1. File fields, block timestamp and a matching hash
+ * 2. Tampered files flagged with hashVerified = false
+ * 3. Falling back to on-chain fields when no event is found
+ */
+
+import { ethers } from 'ethers';
+import { computeFeedbackHash } from '../src/utils/canonical-json';
+import { TEST_AGENT_ID, TEST_CLIENT, feedbackManager, offlineWeb3Client, stubIpfsClient } from './stubs';
+
+const feedbackFile = {
+  agentId: 7,
+  score: 90,
+  text: 'Fast and accurate',
+  skill: 'python',
+  task: 'refactor',
+  context: { repo: 'demo' },
+  proofOfPayment: { txHash: '0xabc' },
+};
+
+// Rule used before canonical JSON
+const legacyHash = (file: Record<string, unknown>) =>
+  ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(file, Object.keys(file).sort())));
+
+function setup(options: { served: Record<string, unknown>; events?: number; hash?: string }) {
+  const web3Client = offlineWeb3Client();
+  const tag = ethers.encodeBytes32String('quality');
+  jest.spyOn(web3Client, 'callContract').mockResolvedValue([90n, tag, ethers.ZeroHash, false]);
+  jest.spyOn(web3Client.provider, 'getBlock').mockResolvedValue({ timestamp: 1700000000 } as ethers.Block);
+
+  const events = Array.from({ length: options.events ?? 2 }, (_, i) => ({
+    blockNumber: 100 + i,
+    args: { feedbackUri: `ipfs://cid-${i + 1}`, feedbackHash: options.hash ?? computeFeedbackHash(feedbackFile) },
+  }));
+  const getEvents = jest.spyOn(web3Client, 'getEvents').mockResolvedValue(events as unknown as ethers.Log[]);
+
+  const { ipfsClient } = stubIpfsClient({ 'cid-1': options.served, 'cid-2': options.served });
+  return { manager: feedbackManager(web3Client, ipfsClient), ipfsClient, getEvents };
+}
+
+describe('getFeedback hydration', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should hydrate file fields and verify the committed hash', async () => {
+    const { manager, ipfsClient, getEvents } = setup({ served: feedbackFile });
+
+    const feedback = await manager.getFeedback(TEST_AGENT_ID, TEST_CLIENT, 2);
+
+    expect(getEvents).toHaveBeenCalledWith(expect.anything(), 'NewFeedback', 0, undefined, 7n, TEST_CLIENT);
+    expect(ipfsClient.getJson).toHaveBeenCalledWith('cid-2'); // Second event is feedback index 2
+    expect(feedback).toMatchObject({
+      score: 90,
+      tags: ['quality'],
+      fileURI: 'ipfs://cid-2',
+      createdAt: 1700000000,
+      text: 'Fast and accurate',
+      skill: 'python',
+      task: 'refactor',
+      context: { repo: 'demo' },
+      proofOfPayment: { txHash: '0xabc' },
+      hashVerified: true,
+    });
+  });
+
+  it('should flag files that do not match the on-chain hash', async () => {
+    const { manager } = setup({ served: { ...feedbackFile, score: 10 } });
+
+    const feedback = await manager.getFeedback(TEST_AGENT_ID, TEST_CLIENT, 1);
+
+    expect(feedback.hashVerified).toBe(false);
+  });
+
+  it('should accept hashes committed with the legacy rule', async () => {
+    const { manager } = setup({ served: feedbackFile, hash: legacyHash(feedbackFile) });
+
+    const feedback = await manager.getFeedback(TEST_AGENT_ID, TEST_CLIENT, 1);
+
+    expect(feedback.hashVerified).toBe(true);
+  });
+
+  it('should return on-chain fields only when the event is missing', async () => {
+    const { manager, ipfsClient } = setup({ served: feedbackFile, events: 0 });
+
+    const feedback = await manager.getFeedback(TEST_AGENT_ID, TEST_CLIENT, 1);
+
+    expect(feedback.score).toBe(90);
+    expect(feedback.fileURI).toBeUndefined();
+    expect(feedback.hashVerified).toBeUndefined();
+    expect(ipfsClient.getJson).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Unit tests for feedback search across chains.
+ *
+ * These tests run offline against one stubbed subgraph client per chain:
+ * 1. Agents grouped by chain, each group sent to its own chain's subgraph
+ * 2. Results merged newest first with SearchResultMeta
+ * 3. Per-chain cursors continuing every chain where the previous page stopped
+ * 4. A failing chain reported in meta without hiding the other chains
+ */
+
+import { Web3Client } from '../src/core/web3-client';
+import { FeedbackManager } from '../src/core/feedback-manager';
+import type { SubgraphClient } from '../src/core/subgraph-client';
+
+interface Row {
+  id: string;
+  createdAt: string;
+  score: number;
+  clientAddress: string;
+  isRevoked: boolean;
+}
+
+function row(agentId: string, index: number, createdAt: number): Row {
+  return {
+    id: `${agentId}:0xa:${index}`,
+    createdAt: String(createdAt),
+    score: 80,
+    clientAddress: '0xa',
+    isRevoked: false,
+  };
+}
+
+// Serves rows (already newest first) by keyset position, like SubgraphClient.searchFeedback
+function fakeSubgraph(data: Row[]) {
+  const searchFeedback = jest.fn(
+    async (params: { agents?: string[]; after?: { createdAt: string; id: string } }, first: number) => {
+      const after = params.after;
+      return data
+        .filter((r) => !params.agents || params.agents.some((agentId) => r.id.startsWith(`${agentId}:`)))
+        .filter(
+          (r) =>
+            !after ||
+            Number(r.createdAt) < Number(after.createdAt) ||
+            (r.createdAt === after.createdAt && r.id < after.id)
+        )
+        .slice(0, first);
+    }
+  );
+  return { client: { searchFeedback } as unknown as SubgraphClient, searchFeedback };
+}
+
+function setup(clients: Record<number, SubgraphClient | undefined>) {
+  const manager = new FeedbackManager(new Web3Client('http://127.0.0.1:1'));
+  manager.setSubgraphClientGetter((chainId) => clients[chainId!], 11155111);
+  return manager;
+}
+
+describe('multi-chain feedback search', () => {
+  const sepolia = [row('11155111:5', 2, 500), row('11155111:5', 1, 300), row('11155111:6', 1, 100)];
+  const baseSepolia = [row('84532:9', 2, 400), row('84532:9', 1, 200)];
+
+  it('should query each chain with its own agents and merge newest first', async () => {
+    const a = fakeSubgraph(sepolia);
+    const b = fakeSubgraph(baseSepolia);
+    const manager = setup({ 11155111: a.client, 84532: b.client });
+
+    const page = await manager.searchFeedbackPage({ agents: ['5', '84532:9', '11155111:6'] }, 10);
+
+    expect(a.searchFeedback.mock.calls[0][0].agents).toEqual(['11155111:5', '11155111:6']);
+    expect(b.searchFeedback.mock.calls[0][0].agents).toEqual(['84532:9']);
+    expect(page.items.map((fb) => `${fb.agentId}/${fb.createdAt}`)).toEqual([
+      '11155111:5/500',
+      '84532:9/400',
+      '11155111:5/300',
+      '84532:9/200',
+      '11155111:6/100',
+    ]);
+    expect(page.nextCursor).toBeUndefined();
+    expect(page.meta).toMatchObject({
+      chains: [11155111, 84532],
+      successfulChains: [11155111, 84532],
+      failedChains: [],
+      totalResults: 5,
+    });
+  });
+
+  it('should continue each chain from its own position', async () => {
+    const manager = setup({ 11155111: fakeSubgraph(sepolia).client, 84532: fakeSubgraph(baseSepolia).client });
+    const params = { agents: ['11155111:5', '11155111:6', '84532:9'] };
+
+    const seen: number[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await manager.searchFeedbackPage(params, 2, cursor);
+      seen.push(...page.items.map((fb) => fb.createdAt));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    expect(seen).toEqual([500, 400, 300, 200, 100]);
+
+    const iterated: number[] = [];
+    for await (const fb of manager.iterateFeedback(params, 2)) {
+      iterated.push(fb.createdAt);
+    }
+    expect(iterated).toEqual(seen);
+  });
+
+  it('should report failing chains in meta and return the rest', async () => {
+    const failing = {
+      searchFeedback: jest.fn(async () => {
+        throw new Error('subgraph down');
+      }),
+    } as unknown as SubgraphClient;
+    const manager = setup({ 11155111: fakeSubgraph(sepolia).client, 84532: failing, 10: undefined });
+
+    const page = await manager.searchFeedbackPage({ agents: ['11155111:5', '84532:9', '10:1'] }, 10);
+
+    expect(page.items.map((fb) => fb.createdAt)).toEqual([500, 300]);
+    expect(page.meta).toMatchObject({ successfulChains: [11155111], failedChains: [84532, 10] });
+  });
+
+  it('should keep single-chain searches on that chain without meta', async () => {
+    const a = fakeSubgraph(sepolia);
+    const b = fakeSubgraph(baseSepolia);
+    const manager = setup({ 11155111: a.client, 84532: b.client });
+
+    const page = await manager.searchFeedbackPage({ agents: ['84532:9'] }, 10);
+
+    expect(page.items).toHaveLength(2);
+    expect(page.meta).toBeUndefined();
+    expect(a.searchFeedback).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for keyset pagination of feedback search.
+ *
+ * These tests run offline against a stubbed subgraph client that serves pages by (createdAt, id):
+ * 1. searchFeedbackPage returning a cursor until the last page
+ * 2. iterateFeedback walking every entry exactly once
+ * 3. getReputationSummary counting past the subgraph's 1000-entry page limit
+ */
+
+import { Web3Client } from '../src/core/web3-client';
+import { FeedbackManager } from '../src/core/feedback-manager';
+import type { SubgraphClient } from '../src/core/subgraph-client';
+
+interface Row {
+  id: string;
+  createdAt: string;
+  score: number;
+  clientAddress: string;
+  isRevoked: boolean;
+}
+
+// Newest first by (createdAt, id), like the subgraph's createdAt desc ordering with id as tie-breaker
+function rows(count: number): Row[] {
+  return Array.from({ length: count }, (_, i) => ({
+    // Pairs of entries share a timestamp, so pages must not split ties by createdAt alone
+    id: `11155111:7:0xa:${count - i}`,
+    createdAt: String(1_700_000_000 + Math.floor((count - i) / 2)),
+    score: 80,
+    clientAddress: '0xa',
+    isRevoked: false,
+  })).sort((a, b) => Number(b.createdAt) - Number(a.createdAt) || (a.id < b.id ? 1 : -1));
+}
+
+function setup(data: Row[]) {
+  const searchFeedback = jest.fn(
+    async (params: { after?: { createdAt: string; id: string } }, first: number) => {
+      const after = params.after;
+      const remaining = after
+        ? data.filter(
+            (row) =>
+              Number(row.createdAt) < Number(after.createdAt) ||
+              (row.createdAt === after.createdAt && row.id < after.id)
+          )
+        : data;
+      return remaining.slice(0, first);
+    }
+  );
+  const subgraphClient = { searchFeedback } as unknown as SubgraphClient;
+
+  const manager = new FeedbackManager(new Web3Client('http://127.0.0.1:1'));
+  manager.setSubgraphClientGetter(() => subgraphClient, 11155111);
+  return { manager, searchFeedback };
+}
+
+describe('feedback pagination', () => {
+  it('should return a keyset cursor until the last page', async () => {
+    const data = rows(5);
+    const { manager, searchFeedback } = setup(data);
+
+    const first = await manager.searchFeedbackPage({ agents: ['11155111:7'] }, 2);
+    expect(first.items.map((fb) => fb.id[2])).toEqual([5, 4]);
+    expect(JSON.parse(first.nextCursor!)).toEqual({ createdAt: data[1].createdAt, id: data[1].id });
+
+    const second = await manager.searchFeedbackPage({ agents: ['11155111:7'] }, 2, first.nextCursor);
+    expect(second.items.map((fb) => fb.id[2])).toEqual([3, 2]);
+    expect(searchFeedback).toHaveBeenLastCalledWith(
+      expect.objectContaining({ agents: ['11155111:7'], after: { createdAt: data[1].createdAt, id: data[1].id } }),
+      2,
+      0,
+      'createdAt',
+      'desc'
+    );
+
+    const third = await manager.searchFeedbackPage({ agents: ['11155111:7'] }, 2, second.nextCursor);
+    expect(third.items.map((fb) => fb.id[2])).toEqual([1]);
+    expect(third.nextCursor).toBeUndefined();
+  });
+
+  it('should iterate over every entry once', async () => {
+    const { manager, searchFeedback } = setup(rows(7));
+
+    const indexes: number[] = [];
+    for await (const fb of manager.iterateFeedback({ agents: ['11155111:7'] }, 3)) {
+      indexes.push(fb.id[2]);
+    }
+
+    expect(indexes).toEqual([7, 6, 5, 4, 3, 2, 1]);
+    expect(searchFeedback).toHaveBeenCalledTimes(3);
+  });
+
+  it('should reject malformed cursors and page sizes', async () => {
+    const { manager } = setup(rows(1));
+
+    await expect(manager.searchFeedbackPage({ agents: ['11155111:7'] }, 2, 'not-a-cursor')).rejects.toThrow(
+      'Invalid feedback cursor'
+    );
+    await expect(manager.searchFeedbackPage({ agents: ['11155111:7'] }, 1001)).rejects.toThrow('pageSize');
+  });
+
+  it('should summarize more feedback than fits in one subgraph page', async () => {
+    const { manager, searchFeedback } = setup(rows(2500));
+
+    const summary = await manager.getReputationSummary('11155111:7');
+
+    expect(summary).toEqual({ count: 2500, averageScore: 80 });
+    expect(searchFeedback).toHaveBeenCalledTimes(3);
+  });
+});
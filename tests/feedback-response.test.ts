@@ -0,0 +1,130 @@
+/**
+ * Unit tests for structured feedback responses.
+ *
+ * These tests run offline with a stubbed IPFS client and transaction sender:
+ * 1. Building, uploading and committing a response file
+ * 2. Rejecting malformed responses before anything is uploaded
+ * 3. Resolving Feedback.answers into typed, hash-checked responses
+ */
+
+import { ethers } from 'ethers';
+import { computeFileHash } from '../src/utils/canonical-json';
+import { FeedbackResolution } from '../src/models/enums';
+import type { Feedback } from '../src/models/interfaces';
+import {
+  TEST_AGENT_ID,
+  TEST_CLIENT,
+  TEST_SIGNER_KEY,
+  feedbackManager,
+  offlineWeb3Client,
+  stubIpfsClient,
+} from './stubs';
+
+// Feedback IDs carry lowercase addresses
+const CLIENT = TEST_CLIENT.toLowerCase();
+
+function setup(files: Record<string, Record<string, unknown>> = {}) {
+  const web3Client = offlineWeb3Client(TEST_SIGNER_KEY);
+  const transact = jest.spyOn(web3Client, 'transactContract').mockResolvedValue('0x' + 'ab'.repeat(32));
+  const { ipfsClient, uploaded } = stubIpfsClient(files, 'bafyresponse');
+  return { manager: feedbackManager(web3Client, ipfsClient), web3Client, ipfsClient, transact, uploaded };
+}
+
+describe('respondToFeedback', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should upload the response file and commit its canonical hash', async () => {
+    const { manager, web3Client, transact, uploaded } = setup();
+
+    const response = await manager.respondToFeedback(`${TEST_AGENT_ID}:${CLIENT}:2`, {
+      text: 'Refunded the failed run',
+      resolution: FeedbackResolution.REFUNDED,
+      refund: { amount: '5.00', currency: 'USDC', txHash: '0xdef' },
+      attachments: [{ uri: 'ipfs://bafylogs', name: 'logs.txt', mimeType: 'text/plain' }],
+    });
+
+    expect(uploaded).toHaveLength(1);
+    const file = uploaded[0];
+    expect(file).toMatchObject({
+      agentId: 7,
+      clientAddress: `eip155:11155111:${CLIENT}`,
+      feedbackIndex: 2,
+      responder: `eip155:11155111:${web3Client.address}`,
+      text: 'Refunded the failed run',
+      resolution: 'refunded',
+    });
+
+    expect(transact).toHaveBeenCalledWith(
+      expect.anything(),
+      'appendResponse',
+      {},
+      7n,
+      CLIENT,
+      2n,
+      'ipfs://bafyresponse',
+      computeFileHash(file)
+    );
+    expect(response).toMatchObject({
+      feedbackId: [TEST_AGENT_ID, CLIENT, 2],
+      responseUri: 'ipfs://bafyresponse',
+      responseHash: computeFileHash(file),
+      txHash: '0x' + 'ab'.repeat(32),
+      resolution: FeedbackResolution.REFUNDED,
+      refund: { amount: '5.00', currency: 'USDC', txHash: '0xdef' },
+    });
+  });
+
+  it('should reject malformed responses before uploading', async () => {
+    const { manager, ipfsClient, transact } = setup();
+
+    await expect(manager.respondToFeedback([TEST_AGENT_ID, CLIENT, 1], { text: ' ' })).rejects.toThrow(
+      'Response text is required'
+    );
+    await expect(
+      manager.respondToFeedback([TEST_AGENT_ID, CLIENT, 1], {
+        text: 'ok',
+        resolution: 'ignored' as FeedbackResolution,
+      })
+    ).rejects.toThrow('Invalid resolution');
+    await expect(
+      manager.respondToFeedback([TEST_AGENT_ID, CLIENT, 1], { text: 'ok', attachments: [{ uri: '' }] })
+    ).rejects.toThrow('attachment');
+
+    expect(ipfsClient.addJson).not.toHaveBeenCalled();
+    expect(transact).not.toHaveBeenCalled();
+  });
+});
+
+describe('getFeedbackResponses', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should resolve answers into typed responses and check their hashes', async () => {
+    const good = { text: 'Fixed in v2', resolution: 'resolved', attachments: [{ uri: 'https://x.dev/pr' }, 42] };
+    const altered = { text: 'Never happened', resolution: 'disputed' };
+    const { manager } = setup({ good, altered });
+
+    const feedback = {
+      id: [TEST_AGENT_ID, CLIENT, 1],
+      answers: [
+        { responder: '0xA', responseUri: 'ipfs://good', responseHash: computeFileHash(good), createdAt: 10 },
+        { responder: '0xB', responseUri: 'ipfs://altered', responseHash: computeFileHash({ text: 'x' }) },
+        { responder: '0xC', responseUri: 'ipfs://missing', responseHash: ethers.ZeroHash },
+      ],
+    } as unknown as Feedback;
+
+    const [first, second, third] = await manager.getFeedbackResponses(feedback);
+
+    expect(first).toMatchObject({
+      feedbackId: [TEST_AGENT_ID, CLIENT, 1],
+      responder: '0xA',
+      createdAt: 10,
+      text: 'Fixed in v2',
+      resolution: FeedbackResolution.RESOLVED,
+      attachments: [{ uri: 'https://x.dev/pr' }], // Malformed entries dropped
+      hashVerified: true,
+    });
+    expect(second).toMatchObject({ text: 'Never happened', hashVerified: false });
+    expect(third.text).toBeUndefined();
+    expect(third.hashVerified).toBeUndefined();
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for on-chain metadata encoding.
+ *
+ * These tests run offline:
+ * 1. Values written by Agent.setMetadata decode back to the same values
+ * 2. agentWallet decoded as a CAIP-10 account
+ * 3. Unset and non-UTF-8 values
+ * 4. SDK reading only its own keys unless a MetadataSet log scan is requested
+ */
+
+import { ethers } from 'ethers';
+import { SDK } from '../src/core/sdk';
+import {
+  decodeMetadataValue,
+  encodeMetadataValue,
+  formatCaip10Account,
+  parseCaip10Account,
+} from '../src/utils/metadata';
+import { OFFLINE_RPC_URL, TEST_CHAIN_ID } from './stubs';
+
+const WALLET = ethers.getAddress('0x742d35cc6634c0532925a3b8d4c9db96c4b4d8b6');
+
+describe('Metadata encoding', () => {
+  it('should round-trip strings, numbers and JSON values', () => {
+    const values: unknown[] = ['production', 42, { tier: 'gold', regions: ['eu', 'us'] }, [1, 2], true];
+    for (const value of values) {
+      expect(decodeMetadataValue('custom', encodeMetadataValue(value))).toEqual(value);
+    }
+  });
+
+  it('should keep strings that look like JSON as strings', () => {
+    const values: unknown[] = ['123', 'true', 'null', '{"tier":"gold"}', 'json:{}', 123, null];
+    for (const value of values) {
+      expect(decodeMetadataValue('custom', encodeMetadataValue(value))).toEqual(value);
+    }
+    expect(decodeMetadataValue('agentName', encodeMetadataValue('1234.eth'))).toBe('1234.eth');
+    expect(decodeMetadataValue('custom', ethers.toUtf8Bytes('42'))).toBe('42'); // Written by another tool
+  });
+
+  it('should decode agentWallet as a CAIP-10 account', () => {
+    const encoded = encodeMetadataValue(formatCaip10Account(11155111, WALLET.toLowerCase()));
+
+    expect(decodeMetadataValue('agentWallet', encoded)).toEqual({ chainId: 11155111, address: WALLET });
+    expect(decodeMetadataValue('agentWallet', encodeMetadataValue('not-an-account'))).toBe('not-an-account');
+    expect(parseCaip10Account('eip155:1:0x1234')).toBeNull();
+  });
+
+  it('should treat empty bytes as unset and keep non-UTF-8 bytes as hex', () => {
+    expect(decodeMetadataValue('custom', '0x')).toBeUndefined();
+    expect(decodeMetadataValue('custom', '0xff00')).toBe('0xff00');
+  });
+});
+
+describe('SDK on-chain metadata keys', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  const stored: Record<string, unknown> = {
+    agentWallet: formatCaip10Account(TEST_CHAIN_ID, WALLET),
+    tier: 'gold',
+  };
+
+  function setup() {
+    const sdk = new SDK({ chainId: TEST_CHAIN_ID, rpcUrl: OFFLINE_RPC_URL });
+    sdk.web3Client.chainId = BigInt(TEST_CHAIN_ID);
+    const read = jest
+      .spyOn(sdk.web3Client, 'callContract')
+      .mockImplementation(async (_contract, _method, _tokenId, key) => {
+        const value = stored[key as string];
+        return value === undefined ? '0x' : ethers.hexlify(encodeMetadataValue(value));
+      });
+    jest.spyOn(sdk.web3Client, 'callContractWithQuorum').mockResolvedValue('');
+    const getEvents = jest
+      .spyOn(sdk.web3Client, 'getEvents')
+      .mockResolvedValue([{ args: { key: 'tier' } } as unknown as ethers.EventLog]);
+    return { sdk, read, getEvents };
+  }
+
+  it('should read only the SDK keys by default, without scanning logs', async () => {
+    const { sdk, read, getEvents } = setup();
+
+    const metadata = await sdk.getOnChainMetadata('11155111:7');
+    const agent = await sdk.loadAgent('11155111:7');
+
+    expect(getEvents).not.toHaveBeenCalled();
+    expect(read.mock.calls.map(([, , , key]) => key)).toEqual(['agentWallet', 'agentName', 'agentWallet', 'agentName']);
+    expect(metadata).toEqual({ agentWallet: { chainId: TEST_CHAIN_ID, address: WALLET } });
+    expect(agent.getRegistrationFile()).toMatchObject({ walletAddress: WALLET, metadata: {} });
+  });
+
+  it('should add keys from MetadataSet events when the scan is requested', async () => {
+    const { sdk, getEvents } = setup();
+
+    const metadata = await sdk.getOnChainMetadata('11155111:7', undefined, { scanLogs: true });
+    const agent = await sdk.loadAgent('11155111:7', { scanMetadataLogs: true });
+
+    expect(getEvents).toHaveBeenCalledWith(sdk.getIdentityRegistry(), 'MetadataSet', 0, undefined, 7n);
+    expect(metadata).toMatchObject({ tier: 'gold' });
+    expect(agent.getRegistrationFile().metadata).toEqual({ tier: 'gold' });
+  });
+});
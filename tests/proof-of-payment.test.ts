@@ -0,0 +1,132 @@
+/**
+ * Unit tests for proofOfPayment verification.
+ *
+ * These tests run offline against a stub provider serving one transaction and receipt:
+ * 1. Native and ERC-20 payments from the reviewer to the agent wallet
+ * 2. Rejecting payments to other addresses, from other senders and reverted transactions
+ * 3. Proofs that do not match the feedback or the provider's chain
+ */
+
+import { ethers } from 'ethers';
+import { Web3Client } from '../src/core/web3-client';
+import { FeedbackManager } from '../src/core/feedback-manager';
+import type { Feedback } from '../src/models/interfaces';
+
+const REVIEWER = ethers.getAddress('0x742d35cc6634c0532925a3b8d4c9db96c4b4d8b6');
+const WALLET = ethers.getAddress('0x00000000000000000000000000000000000000aa');
+const OTHER = ethers.getAddress('0x00000000000000000000000000000000000000bb');
+const USDC = ethers.getAddress('0x1c7d4b196cb0c7b01d743fbc6116a902379c7238');
+const TX_HASH = '0x' + '12'.repeat(32);
+const TRANSFER = ethers.id('Transfer(address,address,uint256)');
+
+const topic = (address: string) => ethers.zeroPadValue(address, 32);
+
+function transferLog(from: string, to: string, amount: bigint, token = USDC) {
+  return { address: token, topics: [TRANSFER, topic(from), topic(to)], data: ethers.toBeHex(amount, 32) };
+}
+
+function provider(tx: { from?: string; to?: string; value?: bigint; status?: number; logs?: unknown[] } | null) {
+  return {
+    getNetwork: async () => ({ chainId: 11155111n }),
+    getTransaction: async () =>
+      tx && { from: tx.from ?? REVIEWER, to: tx.to ?? USDC, value: tx.value ?? 0n },
+    getTransactionReceipt: async () => tx && { blockNumber: 42, status: tx.status ?? 1, logs: tx.logs ?? [] },
+  } as unknown as ethers.Provider;
+}
+
+function feedback(proofOfPayment: Record<string, unknown> = { txHash: TX_HASH, chainId: '11155111' }): Feedback {
+  return {
+    id: ['11155111:7', REVIEWER.toLowerCase(), 1],
+    agentId: '11155111:7',
+    reviewer: REVIEWER.toLowerCase(),
+    score: 90,
+    tags: [],
+    createdAt: 0,
+    answers: [],
+    isRevoked: false,
+    proofOfPayment,
+  };
+}
+
+describe('verifyProofOfPayment', () => {
+  const manager = new FeedbackManager(new Web3Client('http://127.0.0.1:1'));
+
+  it('should verify a native payment to the agent wallet', async () => {
+    const result = await manager.verifyProofOfPayment(
+      feedback(),
+      WALLET,
+      provider({ to: WALLET, value: 10n ** 16n })
+    );
+
+    expect(result).toEqual({
+      verified: true,
+      chainId: 11155111,
+      txHash: TX_HASH,
+      blockNumber: 42,
+      from: REVIEWER,
+      to: WALLET,
+      amount: 10n ** 16n,
+    });
+  });
+
+  it('should verify and sum ERC-20 transfers to the agent wallet', async () => {
+    const logs = [
+      transferLog(REVIEWER, WALLET, 3_000_000n),
+      transferLog(REVIEWER, OTHER, 9_000_000n), // Fee to someone else
+      transferLog(REVIEWER, WALLET, 2_000_000n),
+      // ERC-721 Transfer (tokenId indexed) is not a payment
+      { address: USDC, topics: [TRANSFER, topic(REVIEWER), topic(WALLET), topic('0x01')], data: '0x' },
+    ];
+
+    const result = await manager.verifyProofOfPayment(feedback(), WALLET, provider({ logs }));
+
+    expect(result).toMatchObject({ verified: true, token: USDC, amount: 5_000_000n, to: WALLET });
+  });
+
+  it('should reject transactions that do not pay the agent from the reviewer', async () => {
+    const toOther = await manager.verifyProofOfPayment(
+      feedback(),
+      WALLET,
+      provider({ logs: [transferLog(REVIEWER, OTHER, 5n)] })
+    );
+    const fromOther = await manager.verifyProofOfPayment(
+      feedback(),
+      WALLET,
+      provider({ from: OTHER, to: WALLET, value: 5n, logs: [transferLog(OTHER, WALLET, 5n)] })
+    );
+    const reverted = await manager.verifyProofOfPayment(
+      feedback(),
+      WALLET,
+      provider({ to: WALLET, value: 5n, status: 0 })
+    );
+    const missing = await manager.verifyProofOfPayment(feedback(), WALLET, provider(null));
+
+    expect(toOther).toMatchObject({ verified: false, reason: expect.stringContaining('No payment') });
+    expect(fromOther.verified).toBe(false);
+    expect(reverted).toMatchObject({ verified: false, reason: 'Payment transaction reverted' });
+    expect(missing).toMatchObject({ verified: false, reason: expect.stringContaining('not found') });
+  });
+
+  it('should reject proofs that contradict the feedback', async () => {
+    const paid = provider({ to: WALLET, value: 5n });
+
+    const noHash = await manager.verifyProofOfPayment(feedback({ chainId: 11155111 }), WALLET, paid);
+    const wrongSender = await manager.verifyProofOfPayment(
+      feedback({ txHash: TX_HASH, fromAddress: OTHER }),
+      WALLET,
+      paid
+    );
+    const wrongRecipient = await manager.verifyProofOfPayment(
+      feedback({ txHash: TX_HASH, toAddress: OTHER }),
+      WALLET,
+      paid
+    );
+
+    expect(noHash.reason).toContain('txHash');
+    expect(wrongSender.reason).toContain('fromAddress');
+    expect(wrongRecipient.reason).toContain('toAddress');
+    await expect(
+      manager.verifyProofOfPayment(feedback({ txHash: TX_HASH, chainId: 8453 }), WALLET, paid)
+    ).rejects.toThrow('proof is for chain 8453');
+  });
+});
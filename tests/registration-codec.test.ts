@@ -0,0 +1,219 @@
+/**
+ * Unit tests for the registration file codec.
+ *
+ * These tests run offline. The round-trip properties are checked over generated files
+ * (seeded, so a failure names the seed that reproduces it):
+ * 1. decode(encode(file)) restores every field written to the file
+ * 2. encode(decode(json)) keeps unknown top-level keys, endpoint fields and registrations
+ * 3. Older SDK output (supportedTrusts, wallet fields) read and rewritten in registration-v1 form
+ * 4. metadata and updatedAt read from the file and written back
+ */
+
+import { ethers } from 'ethers';
+import { decodeRegistrationFile, encodeRegistrationFile } from '../src/core/registration-codec';
+import { REGISTRATION_FILE_TYPE } from '../src/core/registration-schema';
+import { EndpointType, TrustModel } from '../src/models/enums';
+import type { Endpoint, RegistrationFile } from '../src/models/interfaces';
+
+const REGISTRY = '0x8004a6090Cd10A7288092483047B097295Fb8847';
+const WALLET = ethers.getAddress(`0x${'ab'.repeat(20)}`);
+const SEEDS = Array.from({ length: 200 }, (_, i) => i + 1);
+
+// mulberry32: small deterministic PRNG, so generated cases are reproducible from their seed
+function generator(seed: number) {
+  let state = seed;
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (max: number) => Math.floor(next() * max);
+  const bool = () => next() < 0.5;
+  const pick = <T>(items: readonly T[]): T => items[int(items.length)];
+  const word = () => Array.from({ length: 3 + int(6) }, () => pick([...'abcdefghijklmnopqrstuvwxyz'])).join('');
+  const text = () => Array.from({ length: 1 + int(4) }, word).join(pick([' ', ' ', '-', '/', ' ~ ', ' "é" ']));
+  const uri = () => pick([`https://${word()}.example.com/${word()}`, `ipfs://Qm${word()}${word()}`]);
+  const hex = (length: number) => Array.from({ length }, () => pick([...'0123456789abcdef'])).join('');
+  const address = () => ethers.getAddress(`0x${hex(40)}`);
+  const json = (depth = 0): unknown => {
+    const kinds = depth < 2 ? 6 : 4;
+    switch (int(kinds)) {
+      case 0: return text();
+      case 1: return int(1_000_000) - 500_000;
+      case 2: return bool();
+      case 3: return null;
+      case 4: return Array.from({ length: int(3) }, () => json(depth + 1));
+      default: return fields(depth + 1);
+    }
+  };
+  // Keys are prefixed so they never collide with keys the codec manages
+  const fields = (depth = 0): Record<string, unknown> =>
+    Object.fromEntries(Array.from({ length: int(3) }, () => [`x-${word()}`, json(depth)]));
+  const registrations = () =>
+    Array.from({ length: int(3) }, () => ({
+      agentId: int(10_000),
+      agentRegistry: `eip155:${1 + int(9)}:${address()}`,
+    }));
+
+  const endpoint = (): Endpoint => {
+    const type = pick([EndpointType.MCP, EndpointType.A2A, EndpointType.ENS, EndpointType.OASF, `custom-${word()}`]);
+    const meta: Record<string, unknown> = fields();
+    if (bool()) {
+      meta.version = `${int(3)}.${int(10)}`;
+    }
+    if (type === EndpointType.OASF) {
+      Object.assign(meta, { skills: [`${word()}/${word()}`], domains: [] });
+    }
+    return { type: type as EndpointType, value: uri(), ...(Object.keys(meta).length > 0 && { meta }) };
+  };
+
+  const registrationFile = (): RegistrationFile => {
+    const wallet = bool() ? { walletAddress: address(), walletChainId: 1 + int(100_000) } : {};
+    const extras = { ...fields(), ...(bool() && { registrations: registrations() }) };
+    return {
+      name: text(),
+      description: text(),
+      image: bool() ? uri() : undefined,
+      ...wallet,
+      endpoints: Array.from({ length: int(5) }, endpoint),
+      trustModels: Object.values(TrustModel).filter(bool),
+      owners: [],
+      operators: [],
+      active: bool(),
+      x402support: bool(),
+      metadata: bool() ? fields() : {},
+      updatedAt: bool() ? 1_700_000_000 + int(100_000_000) : 0,
+      ...(bool() && { previousVersion: uri() }),
+      ...(Object.keys(extras).length > 0 && { extras }),
+    };
+  };
+
+  // A file as another tool might publish it: unknown keys at every level, endpoint names in any case
+  const foreignFile = (): Record<string, unknown> => ({
+    ...fields(),
+    type: REGISTRATION_FILE_TYPE,
+    name: text(),
+    description: text(),
+    endpoints: Array.from({ length: int(5) }, () => ({
+      name: pick(['MCP', 'A2A', 'OASF', `custom-${word()}`]),
+      endpoint: uri(),
+      ...fields(),
+    })),
+    ...(bool() && { registrations: registrations() }),
+    ...(bool() && { supportedTrust: [word()] }),
+    active: bool(),
+    x402support: bool(),
+  });
+
+  return { int, registrationFile, foreignFile };
+}
+
+describe('Registration codec round trips', () => {
+  it('should restore every file field after encode and decode', () => {
+    for (const seed of SEEDS) {
+      const file = generator(seed).registrationFile();
+
+      const decoded = decodeRegistrationFile(encodeRegistrationFile(file, 11155111, REGISTRY));
+
+      expect({ seed, decoded }).toEqual({ seed, decoded: file });
+    }
+  });
+
+  it('should republish files from other tools unchanged', () => {
+    for (const seed of SEEDS) {
+      const json = generator(seed).foreignFile();
+
+      const republished = encodeRegistrationFile(decodeRegistrationFile(json), 11155111, REGISTRY);
+
+      expect({ seed, republished }).toEqual({ seed, republished: json });
+    }
+  });
+
+  it('should be stable once the agent registration is added', () => {
+    for (const seed of SEEDS) {
+      const gen = generator(seed);
+      const file = { ...gen.registrationFile(), agentId: `11155111:${gen.int(10_000)}` };
+
+      const published = encodeRegistrationFile(file, 11155111, REGISTRY);
+      const republished = encodeRegistrationFile(
+        { ...decodeRegistrationFile(published), agentId: file.agentId },
+        11155111,
+        REGISTRY
+      );
+
+      expect({ seed, republished }).toEqual({ seed, republished: published });
+    }
+  });
+});
+
+describe('Registration codec', () => {
+  it('should read older SDK output and write registration-v1 keys', () => {
+    const decoded = decodeRegistrationFile({
+      type: REGISTRATION_FILE_TYPE,
+      name: 'Agent',
+      description: 'Does things',
+      endpoints: [
+        { name: 'mcp', endpoint: 'https://mcp.example.com/', version: '2025-06-18', mcpTools: ['search'] },
+        { type: 'A2A', value: 'https://a2a.example.com/card.json', meta: { version: '0.30' } },
+        { name: 'wallet', endpoint: `eip155:8453:${WALLET.toLowerCase()}` },
+      ],
+      supportedTrusts: ['reputation'],
+    });
+
+    expect(decoded).toMatchObject({
+      endpoints: [
+        {
+          type: EndpointType.MCP,
+          value: 'https://mcp.example.com/',
+          meta: { version: '2025-06-18', mcpTools: ['search'] },
+        },
+        { type: EndpointType.A2A, value: 'https://a2a.example.com/card.json', meta: { version: '0.30' } },
+      ],
+      walletAddress: WALLET,
+      walletChainId: 8453,
+      trustModels: ['reputation'],
+    });
+
+    const encoded = encodeRegistrationFile(decoded);
+    expect(encoded.supportedTrust).toEqual(['reputation']);
+    expect(encoded).not.toHaveProperty('supportedTrusts');
+    const names = (encoded.endpoints as Array<{ name: string }>).map((ep) => ep.name);
+    expect(names).toEqual(['MCP', 'A2A', 'agentWallet']);
+  });
+
+  it('should replace entries for its own registry and keep other registrations in place', () => {
+    const other = { agentId: 7, agentRegistry: `eip155:84532:${REGISTRY}` };
+    const file = decodeRegistrationFile({
+      type: REGISTRATION_FILE_TYPE,
+      name: 'Agent',
+      description: 'Copied from agent 3',
+      endpoints: [],
+      registrations: [other, { agentId: 3, agentRegistry: `eip155:11155111:${REGISTRY.toLowerCase()}` }],
+    });
+
+    const encoded = encodeRegistrationFile({ ...file, agentId: '11155111:42' }, 11155111, REGISTRY);
+
+    expect(encoded.registrations).toEqual([other, { agentId: 42, agentRegistry: `eip155:11155111:${REGISTRY}` }]);
+  });
+
+  it('should read metadata and updatedAt from the file and keep unset or malformed values in extras', () => {
+    const decoded = decodeRegistrationFile({
+      name: 'Agent',
+      description: 'Does things',
+      metadata: { tier: 'gold', limits: { rpm: 60 } },
+      updatedAt: 1_750_000_000,
+    });
+
+    expect(decoded).toMatchObject({ metadata: { tier: 'gold', limits: { rpm: 60 } }, updatedAt: 1_750_000_000 });
+    expect(decoded.extras).toBeUndefined();
+    expect(encodeRegistrationFile({ ...decoded, metadata: { tier: 'platinum' } })).toMatchObject({
+      metadata: { tier: 'platinum' },
+      updatedAt: 1_750_000_000,
+    });
+
+    const unset = decodeRegistrationFile({ name: 'Agent', description: '', metadata: {}, updatedAt: '2025-06-15' });
+    expect(unset).toMatchObject({ metadata: {}, updatedAt: 0, extras: { metadata: {}, updatedAt: '2025-06-15' } });
+    expect(encodeRegistrationFile(unset)).toMatchObject({ metadata: {}, updatedAt: '2025-06-15' });
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Unit tests for registration diffs and skipping unchanged publishes.
+ *
+ * These tests run offline against a stubbed SDK:
+ * 1. diffJson reporting added / removed / changed fields by JSON Pointer
+ * 2. agent.diff() / hasChanges() against the published file and on-chain metadata
+ * 3. registerIPFS skipping the upload and setAgentUri when the file is unchanged
+ */
+
+import { Agent } from '../src/core/agent';
+import type { SDK } from '../src/core/sdk';
+import { encodeRegistrationFile } from '../src/core/registration-codec';
+import { diffJson } from '../src/utils/json-diff';
+import { decodeMetadataValue, encodeMetadataValue } from '../src/utils/metadata';
+import { REGISTRIES, TEST_WALLET, registrationFile as baseRegistrationFile } from './stubs';
+
+function setup(metadata: Record<string, unknown> = {}) {
+  const registrationFile = () => baseRegistrationFile({ agentURI: 'ipfs://QmPublished', metadata: { ...metadata } });
+  const published = encodeRegistrationFile(registrationFile(), 11155111, REGISTRIES.identity);
+  const onChain: Record<string, unknown> = {
+    agentWallet: decodeMetadataValue('agentWallet', encodeMetadataValue(`eip155:11155111:${TEST_WALLET}`)),
+  };
+  const addRegistrationFile = jest.fn(async () => 'QmUpdated');
+  const sendCalls = jest.fn(async () => ({ mode: 'sequential', txHashes: ['0x1'] }));
+  const sdk = {
+    chainId: async () => 11155111,
+    getIdentityRegistry: () => ({ getAddress: async () => REGISTRIES.identity }),
+    fetchRegistrationJson: jest.fn(async () => published),
+    getOnChainMetadata: jest.fn(async (_agentId: string, keys: string[]) =>
+      Object.fromEntries(keys.filter((key) => key in onChain).map((key) => [key, onChain[key]]))
+    ),
+    ipfsClient: { addRegistrationFile },
+    web3Client: { sendCalls, waitForCalls: jest.fn(async () => undefined) },
+  } as unknown as SDK;
+
+  return { agent: new Agent(sdk, registrationFile()), sdk, addRegistrationFile, sendCalls, onChain };
+}
+
+describe('diffJson', () => {
+  it('should report field-level changes by JSON Pointer', () => {
+    expect(
+      diffJson(
+        { name: 'a', tags: ['x', 'y'], nested: { keep: 1, drop: true }, 'a/b': 1 },
+        { name: 'b', tags: ['x'], nested: { keep: 1, add: 'new' }, 'a/b': 1 }
+      )
+    ).toEqual([
+      { path: '/name', kind: 'changed', before: 'a', after: 'b' },
+      { path: '/tags/1', kind: 'removed', before: 'y' },
+      { path: '/nested/drop', kind: 'removed', before: true },
+      { path: '/nested/add', kind: 'added', after: 'new' },
+    ]);
+    expect(diffJson({ b: 1, a: [1, { c: 2 }] }, { a: [1, { c: 2 }], b: 1 })).toEqual([]);
+  });
+});
+
+describe('Agent.diff', () => {
+  it('should report nothing for an unchanged agent', async () => {
+    const { agent } = setup();
+
+    expect(await agent.diff()).toEqual({ agentURI: 'ipfs://QmPublished', file: [], metadata: [] });
+    expect(await agent.hasChanges()).toBe(false);
+  });
+
+  it('should report nothing after setters that leave values as they are', async () => {
+    const { agent } = setup();
+    agent.setActive(true);
+    agent.updateInfo('Test Agent', 'Answers questions');
+
+    expect(agent.getRegistrationFile().updatedAt).toBeGreaterThan(0);
+    expect(await agent.hasChanges()).toBe(false);
+  });
+
+  it('should report file and metadata changes', async () => {
+    const { agent } = setup();
+    agent.updateInfo(undefined, 'Answers questions quickly');
+    agent.setMetadata({ region: 'eu' });
+
+    const diff = await agent.diff();
+
+    expect(diff.file).toEqual([
+      { path: '/description', kind: 'changed', before: 'Answers questions', after: 'Answers questions quickly' },
+      { path: '/metadata', kind: 'added', after: { region: 'eu' } },
+    ]);
+    expect(diff.metadata).toEqual([{ path: '/region', kind: 'added', after: 'eu' }]);
+    expect(await agent.hasChanges()).toBe(true);
+  });
+});
+
+describe('Agent.registerIPFS change detection', () => {
+  it('should skip the upload and all transactions when nothing changed', async () => {
+    const { agent, addRegistrationFile, sendCalls } = setup();
+
+    await agent.registerIPFS();
+
+    expect(addRegistrationFile).not.toHaveBeenCalled();
+    expect(sendCalls).not.toHaveBeenCalled();
+    expect(agent.getRegistrationFile().agentURI).toBe('ipfs://QmPublished');
+  });
+
+  it('should only write metadata when the file is unchanged', async () => {
+    const { agent, addRegistrationFile, sendCalls, onChain } = setup();
+    delete onChain.agentWallet;
+
+    await agent.registerIPFS();
+
+    expect(addRegistrationFile).not.toHaveBeenCalled();
+    const calls = (sendCalls.mock.calls[0] as unknown[])[0] as Array<{ methodName: string; args: unknown[] }>;
+    expect(calls.map((call) => [call.methodName, call.args[1]])).toEqual([['setMetadata', 'agentWallet']]);
+  });
+
+  it('should not write metadata that was only in the file on-chain', async () => {
+    const { agent, addRegistrationFile, sendCalls } = setup({ note: 'written by another tool' });
+
+    expect(await agent.diff()).toMatchObject({ file: [], metadata: [] });
+    await agent.registerIPFS();
+    expect(addRegistrationFile).not.toHaveBeenCalled();
+    expect(sendCalls).not.toHaveBeenCalled();
+
+    agent.setMetadata({ note: 'now on-chain' });
+    await agent.registerIPFS();
+    const calls = (sendCalls.mock.calls[0] as unknown[])[0] as Array<{ methodName: string; args: unknown[] }>;
+    expect(calls.map((call) => [call.methodName, call.args[1]])).toEqual([
+      ['setMetadata', 'note'],
+      ['setAgentUri', 'ipfs://QmUpdated'],
+    ]);
+  });
+
+  it('should publish custom metadata in the file and write it on-chain', async () => {
+    const { agent, addRegistrationFile, sendCalls } = setup();
+    agent.setMetadata({ region: 'eu' });
+
+    await agent.registerIPFS();
+
+    expect(addRegistrationFile).toHaveBeenCalledTimes(1);
+    const calls = (sendCalls.mock.calls[0] as unknown[])[0] as Array<{ methodName: string; args: unknown[] }>;
+    expect(calls.map((call) => [call.methodName, call.args[1]])).toEqual([
+      ['setMetadata', 'region'],
+      ['setAgentUri', 'ipfs://QmUpdated'],
+    ]);
+  });
+
+  it('should publish when the file changed', async () => {
+    const { agent, addRegistrationFile, sendCalls } = setup();
+    agent.updateInfo('Renamed Agent');
+
+    await agent.registerIPFS();
+
+    expect(addRegistrationFile).toHaveBeenCalledTimes(1);
+    expect(agent.getRegistrationFile().previousVersion).toBe('ipfs://QmPublished');
+    const calls = (sendCalls.mock.calls[0] as unknown[])[0] as Array<{ methodName: string; args: unknown[] }>;
+    expect(calls.map((call) => call.methodName)).toEqual(['setAgentUri']);
+    expect(agent.getRegistrationFile().agentURI).toBe('ipfs://QmUpdated');
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Unit tests for registration file history and rollback.
+ *
+ * These tests run offline against a stubbed RPC and stubbed file fetches:
+ * 1. History rebuilt from Registered / UriUpdated events, oldest first
+ * 2. Following previousVersion links when the log query is rejected
+ * 3. agent.rollbackTo() re-pointing the agent URI to an earlier version
+ */
+
+import type { ethers } from 'ethers';
+import { SDK } from '../src/core/sdk';
+import { Agent } from '../src/core/agent';
+import { encodeRegistrationFile } from '../src/core/registration-codec';
+import { OFFLINE_RPC_URL, TEST_CHAIN_ID, TEST_WALLET, registrationFile } from './stubs';
+
+// Published files by URI; v2 and v3 link back to the file they replaced
+const FILES: Record<string, Record<string, unknown>> = {
+  'ipfs://QmV1': encodeRegistrationFile(registrationFile({ description: 'First' })),
+  'ipfs://QmV2': encodeRegistrationFile(registrationFile({ description: 'Second', previousVersion: 'ipfs://QmV1' })),
+  'ipfs://QmV3': encodeRegistrationFile(registrationFile({ description: 'Third', previousVersion: 'ipfs://QmV2' })),
+};
+
+function uriLog(eventName: string, uri: string, blockNumber: number, index = 0): ethers.Log {
+  const args = eventName === 'Registered' ? { tokenURI: uri } : { newUri: uri };
+  return { eventName, args, blockNumber, index, transactionHash: `0x${blockNumber}${index}` } as unknown as ethers.Log;
+}
+
+function setup(currentUri: string, logs?: Record<string, ethers.Log[]>) {
+  const sdk = new SDK({ chainId: TEST_CHAIN_ID, rpcUrl: OFFLINE_RPC_URL });
+  jest.spyOn(sdk, 'chainId').mockResolvedValue(11155111);
+  jest.spyOn(sdk.web3Client, 'callContractWithQuorum').mockResolvedValue(currentUri);
+  jest.spyOn(sdk.web3Client, 'getEvents').mockImplementation(async (_contract, eventName) => {
+    if (!logs) {
+      throw new Error('query exceeds max block range');
+    }
+    return logs[eventName] ?? [];
+  });
+  const fetchJson = jest.spyOn(sdk, 'fetchRegistrationJson').mockImplementation(async (uri) => {
+    if (!FILES[uri]) {
+      throw new Error('Failed to retrieve data from all IPFS gateways');
+    }
+    return FILES[uri];
+  });
+  return { sdk, fetchJson };
+}
+
+describe('SDK.getRegistrationHistory', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should list every URI from registry events, oldest first', async () => {
+    const { sdk, fetchJson } = setup('ipfs://QmV1', {
+      Registered: [uriLog('Registered', '', 10)],
+      UriUpdated: [
+        uriLog('UriUpdated', 'ipfs://QmV2', 12, 3),
+        uriLog('UriUpdated', 'ipfs://QmV1', 11),
+        uriLog('UriUpdated', 'ipfs://QmGone', 12, 7),
+        uriLog('UriUpdated', 'ipfs://QmV1', 15),
+      ],
+    });
+
+    const history = await sdk.getRegistrationHistory('11155111:42');
+
+    expect(history.map(({ version, agentURI, blockNumber }) => [version, agentURI, blockNumber])).toEqual([
+      [1, 'ipfs://QmV1', 11],
+      [2, 'ipfs://QmV2', 12],
+      [3, 'ipfs://QmGone', 12],
+      [4, 'ipfs://QmV1', 15],
+    ]);
+    expect(history[1].registrationFile).toMatchObject({ description: 'Second', agentURI: 'ipfs://QmV2' });
+    expect(history[2].registrationFile).toBeUndefined();
+    expect(history[2].error).toContain('IPFS gateways');
+    expect(fetchJson).toHaveBeenCalledTimes(3);
+  });
+
+  it('should follow previousVersion links when the log query fails', async () => {
+    const { sdk } = setup('ipfs://QmV3');
+
+    const history = await sdk.getRegistrationHistory('11155111:42');
+
+    expect(history.map(({ version, agentURI, blockNumber }) => [version, agentURI, blockNumber])).toEqual([
+      [1, 'ipfs://QmV1', undefined],
+      [2, 'ipfs://QmV2', undefined],
+      [3, 'ipfs://QmV3', undefined],
+    ]);
+  });
+
+  it('should refuse agents on another chain', async () => {
+    const { sdk } = setup('ipfs://QmV1', {});
+
+    await expect(sdk.getRegistrationHistory('84532:42')).rejects.toThrow('not on current chain');
+  });
+});
+
+describe('Agent.rollbackTo', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  const logs = {
+    Registered: [uriLog('Registered', 'ipfs://QmV1', 10)],
+    UriUpdated: [uriLog('UriUpdated', 'ipfs://QmV2', 11), uriLog('UriUpdated', 'ipfs://QmGone', 12)],
+  };
+
+  it('should point the agent back at an earlier version', async () => {
+    const { sdk } = setup('ipfs://QmGone', logs);
+    const transact = jest.spyOn(sdk.web3Client, 'transactContract').mockResolvedValue('0xabc');
+    const agent = new Agent(
+      sdk,
+      registrationFile({ agentURI: 'ipfs://QmGone', metadata: { region: 'eu' } })
+    );
+
+    const file = await agent.rollbackTo(2);
+
+    expect(transact).toHaveBeenCalledWith(expect.anything(), 'setAgentUri', {}, 42n, 'ipfs://QmV2');
+    expect(file).toMatchObject({
+      agentId: '11155111:42',
+      agentURI: 'ipfs://QmV2',
+      description: 'Second',
+      walletAddress: TEST_WALLET,
+      metadata: { region: 'eu' },
+    });
+  });
+
+  it('should reject URIs outside the history and files that cannot be fetched', async () => {
+    const { sdk } = setup('ipfs://QmV2', {
+      ...logs,
+      UriUpdated: [...logs.UriUpdated, uriLog('UriUpdated', 'ipfs://QmV2', 13)],
+    });
+    const transact = jest.spyOn(sdk.web3Client, 'transactContract').mockResolvedValue('0xabc');
+    const agent = new Agent(sdk, registrationFile({ agentURI: 'ipfs://QmV2' }));
+
+    await expect(agent.rollbackTo('ipfs://QmElsewhere')).rejects.toThrow('not in the registration history');
+    await expect(agent.rollbackTo('ipfs://QmGone')).rejects.toThrow('Cannot roll back to ipfs://QmGone');
+    await expect(agent.rollbackTo('ipfs://QmV2')).resolves.toMatchObject({ description: 'Second' });
+    expect(transact).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Unit tests for the registration file linter.
+ *
+ * These tests run offline; HTTP checks go through a stubbed global fetch:
+ * 1. Each rule reporting its problem with rule ID and path
+ * 2. Severity overrides, disabled rules and offline mode
+ * 3. A clean file producing no issues
+ */
+
+import { lintRegistrationFile } from '../src/core/registration-linter';
+import { REGISTRATION_FILE_TYPE } from '../src/core/registration-schema';
+
+const REGISTRY = '0x8004a6090Cd10A7288092483047B097295Fb8847';
+const OTHER_REGISTRY = '0x8004a6090Cd10A7288092483047B097295Fb8848';
+
+function file(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    type: REGISTRATION_FILE_TYPE,
+    name: 'Agent',
+    description: 'Does things',
+    image: 'https://example.com/agent.png',
+    endpoints: [
+      { name: 'MCP', endpoint: 'https://mcp.example.com/', version: '2025-06-18' },
+      { name: 'agentWallet', endpoint: `eip155:11155111:0x${'a'.repeat(40)}` },
+    ],
+    registrations: [{ agentId: 42, agentRegistry: `eip155:11155111:${REGISTRY}` }],
+    supportedTrusts: ['reputation'],
+    active: true,
+    x402support: true,
+    ...overrides,
+  };
+}
+
+function stubFetch(statusFor: (url: string, method: string) => number | Error) {
+  return jest.spyOn(global, 'fetch').mockImplementation(async (input, init) => {
+    const result = statusFor(String(input), init?.method || 'GET');
+    if (result instanceof Error) {
+      throw result;
+    }
+    return new Response(null, { status: result });
+  });
+}
+
+const context = { agentId: '11155111:42', identityRegistry: REGISTRY, hasValidation: async () => true };
+
+describe('lintRegistrationFile', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should report nothing for a clean file', async () => {
+    stubFetch(() => 200);
+
+    expect(await lintRegistrationFile(file(), context)).toEqual([]);
+  });
+
+  it('should report insecure and unreachable endpoints and unresolvable images', async () => {
+    stubFetch((url, method) => {
+      if (url.startsWith('http://a2a')) {
+        return new Error('ECONNREFUSED');
+      }
+      if (url.includes('agent.png')) {
+        return method === 'HEAD' ? 405 : 404;
+      }
+      return 400; // Servers that reject a plain GET are still up
+    });
+
+    const issues = await lintRegistrationFile(
+      file({
+        endpoints: [
+          { name: 'MCP', endpoint: 'https://mcp.example.com/' },
+          { name: 'A2A', endpoint: 'http://a2a.example.com/' },
+          { name: 'agentWallet', endpoint: `eip155:11155111:0x${'a'.repeat(40)}` },
+        ],
+      }),
+      context
+    );
+
+    expect(issues.map(({ ruleId, path }) => [ruleId, path])).toEqual([
+      ['endpoint-insecure', '/endpoints/1/endpoint'],
+      ['endpoint-unreachable', '/endpoints/1/endpoint'],
+      ['image-unresolvable', '/image'],
+    ]);
+    expect(issues[2].message).toContain('HTTP 404');
+  });
+
+  it('should report registrations that point elsewhere', async () => {
+    const issues = await lintRegistrationFile(
+      file({ registrations: [{ agentId: 42, agentRegistry: `eip155:84532:${OTHER_REGISTRY}` }] }),
+      { ...context, offline: true }
+    );
+    expect(issues).toEqual([
+      expect.objectContaining({ ruleId: 'registration-mismatch', severity: 'error', path: '/registrations/0' }),
+    ]);
+
+    const copied = await lintRegistrationFile(
+      file({
+        registrations: [
+          { agentId: 42, agentRegistry: `eip155:11155111:${REGISTRY}` },
+          { agentId: 7, agentRegistry: `eip155:11155111:${REGISTRY.toLowerCase()}` },
+          { agentId: 3, agentRegistry: `eip155:84532:${OTHER_REGISTRY}` },
+        ],
+      }),
+      { ...context, offline: true }
+    );
+    expect(copied.map((issue) => issue.path)).toEqual(['/registrations/1']);
+  });
+
+  it('should report unknown OASF slugs, x402 without wallet and unbacked tee-attestation', async () => {
+    const issues = await lintRegistrationFile(
+      file({
+        endpoints: [
+          { name: 'OASF', endpoint: 'https://github.com/agntcy/oasf/', skills: ['not/a_skill'], domains: [] },
+        ],
+        supportedTrusts: ['reputation', 'tee-attestation'],
+      }),
+      { ...context, hasValidation: async () => false, offline: true }
+    );
+
+    expect(issues.map(({ ruleId, path }) => [ruleId, path])).toEqual([
+      ['oasf-unknown-slug', '/endpoints/0/skills/0'],
+      ['x402-without-wallet', '/x402support'],
+      ['tee-without-validation', '/supportedTrusts/1'],
+    ]);
+  });
+
+  it('should accept the older top-level wallet fields for x402support', async () => {
+    const lint = (wallet: Record<string, unknown>) =>
+      lintRegistrationFile(file({ endpoints: [], ...wallet }), { ...context, offline: true });
+
+    const older = await lint({ walletAddress: '0x000000000000000000000000000000000000dEaD', walletChainId: 11155111 });
+    expect(older.map((issue) => issue.ruleId)).not.toContain('x402-without-wallet');
+    // Without a chain the codec ignores the address, so there is still no wallet
+    const addressOnly = await lint({ walletAddress: '0x000000000000000000000000000000000000dEaD' });
+    expect(addressOnly.map((issue) => issue.ruleId)).toContain('x402-without-wallet');
+  });
+
+  it('should read trust models from the same key as the codec and report its path', async () => {
+    const lint = (trusts: Record<string, unknown>) =>
+      lintRegistrationFile(file({ supportedTrusts: undefined, ...trusts }), {
+        ...context,
+        hasValidation: async () => false,
+        offline: true,
+        rules: { 'x402-without-wallet': 'off' },
+      });
+
+    const older = await lint({ trustModels: ['tee-attestation'] });
+    expect(older.map(({ ruleId, path }) => [ruleId, path])).toEqual([['tee-without-validation', '/trustModels/0']]);
+
+    // supportedTrust wins over older spellings, as when the file is decoded
+    expect(await lint({ supportedTrust: ['reputation'], trustModels: ['tee-attestation'] })).toEqual([]);
+    const current = await lint({ supportedTrust: ['tee-attestation'], supportedTrusts: ['reputation'] });
+    expect(current.map((issue) => issue.path)).toEqual(['/supportedTrust/0']);
+  });
+
+  it('should apply severity overrides and skip disabled or network rules', async () => {
+    const fetch = stubFetch(() => 200);
+    const lintFile = file({ x402support: true, endpoints: [{ name: 'MCP', endpoint: 'http://mcp.example.com/' }] });
+
+    const issues = await lintRegistrationFile(lintFile, {
+      ...context,
+      offline: true,
+      rules: { 'x402-without-wallet': 'off', 'endpoint-insecure': 'error' },
+    });
+
+    expect(issues).toEqual([
+      expect.objectContaining({ ruleId: 'endpoint-insecure', severity: 'error', path: '/endpoints/0/endpoint' }),
+    ]);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Unit tests for registration file schema validation.
+ *
+ * These tests run offline:
+ * 1. Files built by the SDK passing the registration-v1 schema
+ * 2. Path-addressed errors for schema violations, warnings for likely mistakes
+ * 3. IPFSClient.addRegistrationFile refusing to upload invalid files
+ */
+
+import { IPFSClient } from '../src/core/ipfs-client';
+import { encodeRegistrationFile } from '../src/core/registration-codec';
+import { InvalidRegistrationFileError } from '../src/core/errors';
+import {
+  REGISTRATION_FILE_TYPE,
+  formatRegistrationIssues,
+  validateRegistrationFile,
+} from '../src/core/registration-schema';
+import { EndpointType, TrustModel } from '../src/models/enums';
+import { REGISTRIES, registrationFile } from './stubs';
+
+describe('validateRegistrationFile', () => {
+  it('should accept files built by the SDK', () => {
+    const json = encodeRegistrationFile(registrationFile(), 11155111, REGISTRIES.identity);
+
+    const result = validateRegistrationFile(json);
+
+    expect(result.errors).toEqual([]);
+    expect(result.valid).toBe(true);
+    expect(json.registrations).toEqual([{ agentId: 42, agentRegistry: `eip155:11155111:${REGISTRIES.identity}` }]);
+  });
+
+  it('should report schema violations by JSON Pointer', () => {
+    const result = validateRegistrationFile({
+      type: 'registration-v0',
+      name: '',
+      endpoints: [{ name: 'MCP' }, { name: 'agentWallet', endpoint: '0x1234' }],
+      registrations: [{ agentId: -1, agentRegistry: 'eip155:1:{identityRegistry}' }],
+      active: 'yes',
+      image: 'not a uri',
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((issue) => issue.path).sort()).toEqual([
+      '/active',
+      '/description',
+      '/endpoints/0/endpoint',
+      '/endpoints/1/endpoint',
+      '/image',
+      '/name',
+      '/registrations/0/agentId',
+      '/registrations/0/agentRegistry',
+      '/type',
+    ]);
+    expect(formatRegistrationIssues(result.errors)).toContain(`/type: Must be "${REGISTRATION_FILE_TYPE}"`);
+  });
+
+  it('should only warn about legal but suspicious content', () => {
+    const result = validateRegistrationFile({
+      type: REGISTRATION_FILE_TYPE,
+      name: 'Agent',
+      description: 'Does things',
+      endpoints: [
+        { name: 'A2A', endpoint: 'ftp://agent.example.com' },
+        { name: 'Gopher', endpoint: 'gopher://example.com' },
+      ],
+      supportedTrusts: ['reputation'],
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings.map((issue) => issue.path)).toEqual([
+      '/supportedTrusts',
+      '/image',
+      '/endpoints/0/endpoint',
+      '/endpoints/1/name',
+    ]);
+  });
+
+  it('should not upload invalid files', async () => {
+    const client = new IPFSClient({ url: 'http://127.0.0.1:1' });
+    const addJson = jest.spyOn(client, 'addJson');
+
+    const error = await client.addRegistrationFile(registrationFile({ image: 'not a uri' }), 11155111, REGISTRIES.identity).then(
+      () => undefined,
+      (e) => e
+    );
+
+    expect(error).toBeInstanceOf(InvalidRegistrationFileError);
+    expect(error.issues).toEqual([{ path: '/image', message: 'Must be a URI', severity: 'error' }]);
+    expect(addJson).not.toHaveBeenCalled();
+  });
+});
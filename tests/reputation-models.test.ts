@@ -0,0 +1,219 @@
+/**
+ * Unit tests for reputation scoring models.
+ *
+ * These tests run offline; getReputationSummary reads from a stubbed subgraph client:
+ * 1. Each built-in model against hand-computed scores
+ * 2. A single prolific reviewer not dominating reviewer-weighted scores
+ * 3. getReputationSummary returning the model score next to the flat mean
+ * 4. Payment-weighted scores counting only proofs the payment verifier accepted
+ * 5. searchAgentsByReputation annotating results with the model score, keeping the subgraph order
+ */
+
+import { SDK } from '../src/core/sdk';
+import { Web3Client } from '../src/core/web3-client';
+import { FeedbackManager } from '../src/core/feedback-manager';
+import type { SubgraphClient } from '../src/core/subgraph-client';
+import {
+  BayesianReputationModel,
+  MeanReputationModel,
+  PaymentWeightedReputationModel,
+  ReviewerWeightedReputationModel,
+  TimeDecayReputationModel,
+  resolveReputationModel,
+} from '../src/core/reputation-models';
+import type { AgentSummary, Feedback } from '../src/models/interfaces';
+import { OFFLINE_RPC_URL, TEST_CHAIN_ID } from './stubs';
+
+const NOW = 1_700_000_000;
+const DAY = 86400;
+
+function fb(score: number, options: Partial<Feedback> = {}): Feedback {
+  return {
+    id: ['11155111:7', '0xa', 1],
+    agentId: '11155111:7',
+    reviewer: '0xa',
+    score,
+    tags: [],
+    createdAt: NOW,
+    answers: [],
+    isRevoked: false,
+    ...options,
+  };
+}
+
+describe('reputation models', () => {
+  const context = { now: NOW };
+
+  it('should compute the flat mean, ignoring revoked and unscored entries', () => {
+    const feedback = [fb(80), fb(40), fb(100, { isRevoked: true }), fb(0), fb(0, { score: undefined })];
+    expect(new MeanReputationModel().score(feedback)).toBe(60);
+    expect(new MeanReputationModel().score([])).toBe(0);
+  });
+
+  it('should halve the weight of feedback every half-life', () => {
+    const model = new TimeDecayReputationModel(30);
+    // Weights 1 and 0.5: (90 + 0.5 * 30) / 1.5
+    expect(model.score([fb(90), fb(30, { createdAt: NOW - 30 * DAY })], context)).toBe(70);
+    expect(() => new TimeDecayReputationModel(0)).toThrow('halfLifeDays');
+  });
+
+  it('should shrink few reviews towards the prior', () => {
+    const model = new BayesianReputationModel(50, 4);
+    expect(model.score([fb(100)])).toBe(60); // (100 + 4 * 50) / 5
+    expect(model.score([])).toBe(0);
+  });
+
+  it('should give each reviewer one vote weighted by their history', () => {
+    const spam = Array.from({ length: 10 }, () => fb(100, { reviewer: '0xSPAM' }));
+    const feedback = [...spam, fb(40, { reviewer: '0xB' })];
+    const reviewerHistory = new Map([
+      ['0xspam', { feedbackCount: 10, agentCount: 1 }], // weight log2(2) = 1
+      ['0xb', { feedbackCount: 20, agentCount: 7 }], // weight log2(8) = 3
+    ]);
+
+    expect(new MeanReputationModel().score(feedback)).toBe(94.55);
+    expect(new ReviewerWeightedReputationModel().score(feedback, { now: NOW, reviewerHistory })).toBe(55);
+  });
+
+  it('should discount feedback without a verified payment proof', () => {
+    const model = new PaymentWeightedReputationModel(0.25);
+    const paid = fb(80, { proofOfPayment: { txHash: '0x01' } });
+    const paymentVerification = new Map([[paid, { verified: true }]]);
+    expect(model.score([paid, fb(20)], { now: NOW, paymentVerification })).toBe(68); // (80 + 0.25 * 20) / 1.25
+    expect(() => new PaymentWeightedReputationModel(2)).toThrow('unpaidWeight');
+  });
+
+  it('should count a payment proof that was not verified as unpaid', () => {
+    const model = new PaymentWeightedReputationModel(0.25);
+    const claimed = fb(80, { proofOfPayment: { txHash: '0x01' } });
+    const paymentVerification = new Map([[claimed, { verified: false, reason: 'Payment transaction reverted' }]]);
+    expect(model.score([claimed, fb(20)], { now: NOW, paymentVerification })).toBe(50);
+    expect(model.score([claimed, fb(20)], { now: NOW })).toBe(50);
+  });
+
+  it('should resolve built-in models by name', () => {
+    expect(resolveReputationModel('bayesian')).toBeInstanceOf(BayesianReputationModel);
+    const custom = { name: 'custom', score: () => 42 };
+    expect(resolveReputationModel(custom)).toBe(custom);
+    expect(() => resolveReputationModel('median' as 'mean')).toThrow('Unknown reputation model');
+  });
+});
+
+describe('getReputationSummary with a model', () => {
+  function setup() {
+    const agentFeedback = [
+      { id: '11155111:7:0xspam:1', clientAddress: '0xspam', score: 100, isRevoked: false, createdAt: '1' },
+      { id: '11155111:7:0xspam:2', clientAddress: '0xspam', score: 100, isRevoked: false, createdAt: '2' },
+      { id: '11155111:7:0xb:1', clientAddress: '0xb', score: 40, isRevoked: false, createdAt: '3' },
+    ];
+    const reviewerFeedback = [
+      ...agentFeedback.map((f) => ({ ...f, agent: { id: '11155111:7' } })),
+      { clientAddress: '0xb', agent: { id: '11155111:8' } },
+      { clientAddress: '0xb', agent: { id: '11155111:9' } },
+      { clientAddress: '0xb', agent: { id: '11155111:10' } },
+    ];
+    const searchFeedback = jest.fn(async (params: { agents?: string[]; reviewers?: string[] }) =>
+      params.reviewers ? reviewerFeedback : agentFeedback
+    );
+    const subgraphClient = { searchFeedback } as unknown as SubgraphClient;
+
+    const manager = new FeedbackManager(new Web3Client('http://127.0.0.1:1'));
+    manager.setSubgraphClientGetter(() => subgraphClient, 11155111);
+    return { manager, searchFeedback };
+  }
+
+  it('should keep the flat mean and add the model score', async () => {
+    const { manager, searchFeedback } = setup();
+
+    const summary = await manager.getReputationSummary('11155111:7', undefined, undefined, 'reviewer-weighted');
+
+    expect(summary.count).toBe(3);
+    expect(summary.averageScore).toBe(80);
+    expect(summary.model).toBe('reviewer-weighted');
+    // 0xspam: mean 100, 1 agent -> weight 1; 0xb: mean 40, 4 agents -> weight log2(5)
+    const weight = Math.log2(5);
+    expect(summary.score).toBeCloseTo((100 + 40 * weight) / (1 + weight), 2);
+    expect(searchFeedback).toHaveBeenLastCalledWith({ reviewers: ['0xspam', '0xb'] }, 1000, 0, 'createdAt', 'desc');
+  });
+
+  it('should not add model fields without a model', async () => {
+    const { manager, searchFeedback } = setup();
+
+    const summary = await manager.getReputationSummary('11155111:7');
+
+    expect(summary).toEqual({ count: 3, averageScore: 80 });
+    expect(searchFeedback).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pass the verifier only feedback with a payment proof', async () => {
+    const { manager } = setup();
+    const verifier = jest.fn(async (_agentId: string, feedback: Feedback[]) =>
+      feedback.map(() => ({ verified: false, reason: 'Payment transaction not found (or not yet mined)' }))
+    );
+    manager.setPaymentVerifier(verifier);
+
+    const summary = await manager.getReputationSummary('11155111:7', undefined, undefined, 'payment-weighted');
+
+    // No feedback here carries a proof, so the verifier is not consulted and everything counts as unpaid
+    expect(verifier).not.toHaveBeenCalled();
+    expect(summary.score).toBe(80);
+  });
+
+  it('should weight feedback by the verifier result', async () => {
+    const { manager, searchFeedback } = setup();
+    const proof = (txHash: string) => ({ proofOfPaymentFromAddress: '0xa', proofOfPaymentTxHash: txHash });
+    searchFeedback.mockResolvedValue([
+      { clientAddress: '0xa', score: 90, isRevoked: false, createdAt: '1', feedbackFile: proof('0xpaid') },
+      { clientAddress: '0xb', score: 10, isRevoked: false, createdAt: '2', feedbackFile: proof('0xclaimed') },
+    ] as never);
+    const verifier = jest.fn(async (_agentId: string, feedback: Feedback[]) =>
+      feedback.map((f) => ({ verified: f.proofOfPayment?.txHash === '0xpaid' }))
+    );
+    manager.setPaymentVerifier(verifier);
+
+    const summary = await manager.getReputationSummary('11155111:7', undefined, undefined, 'payment-weighted');
+
+    expect(verifier).toHaveBeenCalledWith('11155111:7', [expect.anything(), expect.anything()]);
+    expect(summary.score).toBe(74); // (90 + 0.25 * 10) / 1.25
+  });
+});
+
+describe('searchAgentsByReputation with a model', () => {
+  function setup() {
+    const sdk = new SDK({ chainId: TEST_CHAIN_ID, rpcUrl: OFFLINE_RPC_URL });
+    const items = ['11155111:7', '11155111:8'].map((agentId) => ({ agentId, extras: {} }) as AgentSummary);
+    const search = jest.spyOn(sdk['_indexer'], 'searchAgentsByReputation').mockResolvedValue({ items });
+    const summary = jest
+      .spyOn(sdk['_feedbackManager'], 'getReputationSummary')
+      .mockImplementation(async (agentId) => ({ count: 1, averageScore: 50, score: agentId.endsWith(':7') ? 20 : 90 }));
+    return { sdk, search, summary };
+  }
+
+  // Only pageSize, sort and model set
+  function searchWithModel(sdk: SDK, sort?: string[]) {
+    const filters = [undefined, undefined, undefined, undefined, undefined, undefined, undefined, undefined] as const;
+    return sdk.searchAgentsByReputation(...filters, false, 2, undefined, sort, undefined, 'bayesian');
+  }
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should annotate the page with model scores in the order the subgraph returned', async () => {
+    const { sdk, search, summary } = setup();
+
+    const result = await searchWithModel(sdk);
+
+    expect(result.items.map((item) => [item.agentId, item.extras.reputationScore])).toEqual([
+      ['11155111:7', 20],
+      ['11155111:8', 90],
+    ]);
+    expect(search.mock.calls[0][11]).toEqual(['createdAt:desc']);
+    expect(summary).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject sorting by reputationScore', async () => {
+    const { sdk, search } = setup();
+
+    await expect(searchWithModel(sdk, ['reputationScore:desc'])).rejects.toThrow('Cannot sort by reputationScore');
+    expect(search).not.toHaveBeenCalled();
+  });
+});
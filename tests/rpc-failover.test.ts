@@ -0,0 +1,176 @@
+/**
+ * Unit tests for multi-RPC failover.
+ *
+ * Runs against local HTTP stubs (no network):
+ * 1. Failing over from a broken endpoint and recording its health
+ * 2. Cooling down rate-limited endpoints, but not on -32005 log range errors
+ * 3. Quorum reads agreeing / disagreeing across endpoints
+ * 4. Raw transactions re-sent after a failover that the next node already has
+ */
+
+import http from 'http';
+import { ethers } from 'ethers';
+import type { AddressInfo } from 'net';
+import { FailoverJsonRpcProvider } from '../src/core/rpc-provider';
+import { RpcUnavailableError } from '../src/core/errors';
+
+type Handler = (body: any) => { status: number; json?: unknown };
+
+async function startRpc(handler: Handler): Promise<{ url: string; hits: () => number; close: () => Promise<void> }> {
+  let hits = 0;
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      hits++;
+      const { status, json } = handler(JSON.parse(raw));
+      res.writeHead(status, { 'content-type': 'application/json' });
+      res.end(json === undefined ? '' : JSON.stringify(json));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    hits: () => hits,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+const ok = (result: unknown): Handler => (body) => ({ status: 200, json: { jsonrpc: '2.0', id: body.id, result } });
+const payload = { method: 'eth_blockNumber', params: [], id: 1, jsonrpc: '2.0' as const };
+const rpcError = (message: string) => ({ code: -32000, message });
+
+describe('FailoverJsonRpcProvider', () => {
+  const servers: Array<{ close: () => Promise<void> }> = [];
+  const providers: FailoverJsonRpcProvider[] = [];
+
+  function provider(urls: string[], quorum?: number): FailoverJsonRpcProvider {
+    const p = new FailoverJsonRpcProvider(urls, { timeout: 2000, backoffBase: 50, backoffMax: 200, quorum });
+    providers.push(p);
+    return p;
+  }
+
+  afterEach(async () => {
+    providers.splice(0).forEach((p) => p.destroy());
+    await Promise.all(servers.splice(0).map((s) => s.close()));
+  });
+
+  it('should fail over to the next endpoint and mark the broken one unhealthy', async () => {
+    const broken = await startRpc(() => ({ status: 502 }));
+    const healthy = await startRpc(ok('0x10'));
+    servers.push(broken, healthy);
+
+    const p = provider([broken.url, healthy.url]);
+    const [response] = await p._send(payload);
+
+    expect(response.result).toBe('0x10');
+    const [brokenStatus, healthyStatus] = p.getEndpointStatus();
+    expect(brokenStatus.healthy).toBe(false);
+    expect(brokenStatus.consecutiveFailures).toBe(1);
+    expect(healthyStatus.healthy).toBe(true);
+
+    // Broken endpoint is cooling down, so the next request goes straight to the healthy one
+    await p._send(payload);
+    expect(broken.hits()).toBe(1);
+    expect(healthy.hits()).toBe(2);
+  });
+
+  it('should treat JSON-RPC rate limit errors as retryable', async () => {
+    const throttled = await startRpc((body) => ({
+      status: 200,
+      json: { jsonrpc: '2.0', id: body.id, error: { code: -32005, message: 'Too Many Requests' } },
+    }));
+    const healthy = await startRpc(ok('0x20'));
+    servers.push(throttled, healthy);
+
+    const p = provider([throttled.url, healthy.url]);
+    const [response] = await p._send(payload);
+
+    expect(response.result).toBe('0x20');
+    expect(p.getEndpointStatus()[0].lastError).toContain('Rate limited');
+  });
+
+  it('should return -32005 log range errors as-is instead of failing over', async () => {
+    const message =
+      'Log response size exceeded. You can make eth_getLogs requests with up to a 2K block range and no limit on ' +
+      'the response size, or you can request any block range with a cap of 10K logs in the response.';
+    const limited = await startRpc((body) => ({
+      status: 200,
+      json: { jsonrpc: '2.0', id: body.id, error: { code: -32005, message } },
+    }));
+    const healthy = await startRpc(ok('0x20'));
+    servers.push(limited, healthy);
+
+    const p = provider([limited.url, healthy.url]);
+    const [response] = await p._send({ ...payload, method: 'eth_getLogs' });
+
+    expect(response).toMatchObject({ error: { code: -32005, message } });
+    expect(p.getEndpointStatus()[0].healthy).toBe(true);
+    expect(healthy.hits()).toBe(0);
+  });
+
+  it('should throw RpcUnavailableError when every attempt fails', async () => {
+    const broken = await startRpc(() => ({ status: 500 }));
+    servers.push(broken);
+
+    await expect(provider([broken.url])._send(payload)).rejects.toBeInstanceOf(RpcUnavailableError);
+  });
+
+  it('should return quorum reads only when enough endpoints agree', async () => {
+    const a = await startRpc(ok('0xaa'));
+    const b = await startRpc(ok('0xaa'));
+    const c = await startRpc(ok('0xbb'));
+    servers.push(a, b, c);
+
+    await expect(provider([a.url, b.url, c.url], 2).quorumSend('eth_call', [])).resolves.toBe('0xaa');
+    await expect(provider([a.url, c.url], 2).quorumSend('eth_call', [])).rejects.toBeInstanceOf(
+      RpcUnavailableError
+    );
+  });
+
+  describe('raw transaction failover', () => {
+    const RAW_TX = '0x' + 'ab'.repeat(60);
+    const TX_HASH = ethers.keccak256(RAW_TX);
+    const sendRaw = { method: 'eth_sendRawTransaction', params: [RAW_TX], id: 7, jsonrpc: '2.0' as const };
+
+    // Second endpoint rejects the re-sent transaction and answers lookups from `known`
+    async function failover(sendError: { code: number; message: string }, known: boolean) {
+      const broken = await startRpc(() => ({ status: 504 }));
+      const next = await startRpc((body) =>
+        body.method === 'eth_getTransactionByHash'
+          ? { status: 200, json: { jsonrpc: '2.0', id: body.id, result: known ? { hash: TX_HASH } : null } }
+          : { status: 200, json: { jsonrpc: '2.0', id: body.id, error: sendError } }
+      );
+      servers.push(broken, next);
+      return { p: provider([broken.url, next.url]), next };
+    }
+
+    it('should resolve an already known transaction to its hash', async () => {
+      const { p, next } = await failover(rpcError('already known'), false);
+
+      await expect(p._send(sendRaw)).resolves.toEqual([{ id: 7, result: TX_HASH }]);
+      expect(next.hits()).toBe(1);
+    });
+
+    it('should resolve other rejections to the hash only when the node has the transaction', async () => {
+      const mined = await failover(rpcError('nonce too low'), true);
+      await expect(mined.p._send(sendRaw)).resolves.toEqual([{ id: 7, result: TX_HASH }]);
+
+      const unknown = await failover(rpcError('insufficient funds for gas * price + value'), false);
+      const [response] = await unknown.p._send(sendRaw);
+      expect(response).toMatchObject({ id: 7, error: { message: 'insufficient funds for gas * price + value' } });
+    });
+
+    it('should keep an already known error when no earlier attempt failed', async () => {
+      const node = await startRpc((body) => ({
+        status: 200,
+        json: { jsonrpc: '2.0', id: body.id, error: rpcError('already known') },
+      }));
+      servers.push(node);
+
+      const [response] = await provider([node.url])._send(sendRaw);
+      expect(response).toMatchObject({ error: { message: 'already known' } });
+    });
+  });
+});
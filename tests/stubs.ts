@@ -0,0 +1,104 @@
+/**
+ * Shared offline stubs for unit tests.
+ * Components are built against an unreachable RPC; each test stubs the calls it relies on.
+ */
+
+import { ethers } from 'ethers';
+import { Web3Client } from '../src/core/web3-client';
+import { FeedbackManager } from '../src/core/feedback-manager';
+import type { IPFSClient } from '../src/core/ipfs-client';
+import {
+  DEFAULT_REGISTRIES,
+  IDENTITY_REGISTRY_ABI,
+  REPUTATION_REGISTRY_ABI,
+  VALIDATION_REGISTRY_ABI,
+} from '../src/core/contracts';
+import { EndpointType, TrustModel } from '../src/models/enums';
+import type { RegistrationFile } from '../src/models/interfaces';
+
+// Nothing listens here, so any call that is not stubbed fails fast
+export const OFFLINE_RPC_URL = 'http://127.0.0.1:1';
+
+export const TEST_CHAIN_ID = 11155111;
+export const TEST_AGENT_ID = '11155111:7';
+export const TEST_CLIENT = ethers.getAddress('0x742d35cc6634c0532925a3b8d4c9db96c4b4d8b6');
+export const TEST_SIGNER_KEY = '0x' + '11'.repeat(32);
+export const TEST_WALLET = `0x${'a'.repeat(40)}`;
+
+// Registry deployments on the test chain
+export const REGISTRIES = {
+  identity: DEFAULT_REGISTRIES[TEST_CHAIN_ID].IDENTITY,
+  reputation: DEFAULT_REGISTRIES[TEST_CHAIN_ID].REPUTATION,
+  validation: DEFAULT_REGISTRIES[TEST_CHAIN_ID].VALIDATION,
+};
+
+/**
+ * Web3Client on the test chain that never reaches a node
+ */
+export function offlineWeb3Client(signerOrKey?: string | ethers.Wallet | ethers.Signer): Web3Client {
+  const web3Client = new Web3Client(OFFLINE_RPC_URL, signerOrKey);
+  web3Client.chainId = BigInt(TEST_CHAIN_ID);
+  return web3Client;
+}
+
+/**
+ * Registry contracts at the test addresses, without a runner
+ */
+export function registryContracts() {
+  return {
+    identity: new ethers.Contract(REGISTRIES.identity, IDENTITY_REGISTRY_ABI),
+    reputation: new ethers.Contract(REGISTRIES.reputation, REPUTATION_REGISTRY_ABI),
+    validation: new ethers.Contract(REGISTRIES.validation, VALIDATION_REGISTRY_ABI),
+  };
+}
+
+/**
+ * IPFS client serving `files` by CID and recording every upload
+ */
+export function stubIpfsClient(files: Record<string, Record<string, unknown>> = {}, cid = 'bafystub') {
+  const uploaded: Record<string, unknown>[] = [];
+  const ipfsClient = {
+    addJson: jest.fn(async (data: Record<string, unknown>) => {
+      uploaded.push(data);
+      return cid;
+    }),
+    getJson: jest.fn(async (requested: string) => {
+      if (!files[requested]) {
+        throw new Error('not found');
+      }
+      return files[requested];
+    }),
+  };
+  return { ipfsClient: ipfsClient as unknown as IPFSClient, uploaded };
+}
+
+/**
+ * FeedbackManager wired to the test registries
+ */
+export function feedbackManager(web3Client: Web3Client, ipfsClient?: IPFSClient): FeedbackManager {
+  const { reputation, identity } = registryContracts();
+  return new FeedbackManager(web3Client, ipfsClient, reputation, identity);
+}
+
+/**
+ * Registration file that passes schema validation, with optional overrides
+ */
+export function registrationFile(overrides: Partial<RegistrationFile> = {}): RegistrationFile {
+  return {
+    agentId: '11155111:42',
+    name: 'Test Agent',
+    description: 'Answers questions',
+    image: 'ipfs://QmUNLLsPACCz1vLxQVkXqqLX5R1X345qqfHbsf67hvA3Nn',
+    endpoints: [{ type: EndpointType.MCP, value: 'https://mcp.example.com/', meta: { version: '2025-06-18' } }],
+    trustModels: [TrustModel.REPUTATION],
+    owners: [],
+    operators: [],
+    active: true,
+    x402support: false,
+    metadata: {},
+    updatedAt: 0,
+    walletAddress: TEST_WALLET,
+    walletChainId: TEST_CHAIN_ID,
+    ...overrides,
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Unit tests for per-call transaction overrides.
+ *
+ * These tests run offline with a recording signer and a stubbed SDK:
+ * 1. transactContract putting nonce, value, gas and fee overrides on the signed transaction
+ * 2. registerIPFS advancing an explicit nonce only after each send succeeds
+ */
+
+import { ethers } from 'ethers';
+import { Agent } from '../src/core/agent';
+import type { SDK } from '../src/core/sdk';
+import type { Web3Client } from '../src/core/web3-client';
+import { REGISTRIES, TEST_WALLET, offlineWeb3Client, registrationFile, registryContracts } from './stubs';
+
+const FROM = '0x0000000000000000000000000000000000000a11';
+
+function recordingClient() {
+  const sent: ethers.TransactionRequest[] = [];
+  const signer = {
+    provider: null,
+    getAddress: async () => FROM,
+    sendTransaction: async (request: ethers.TransactionRequest) => {
+      sent.push(request);
+      return { hash: ethers.id(`tx-${sent.length}`), nonce: request.nonce };
+    },
+  } as unknown as ethers.Signer;
+  const client = offlineWeb3Client(signer);
+  jest.spyOn(client.provider, 'getTransactionCount').mockResolvedValue(3);
+  return { client, sent };
+}
+
+describe('Web3Client.transactContract overrides', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should put nonce, gas and EIP-1559 fee overrides on the transaction', async () => {
+    const { client, sent } = recordingClient();
+    const registry = registryContracts().identity;
+
+    await client.transactContract(
+      registry,
+      'setAgentUri',
+      { nonce: 11, gasLimit: 90000n, maxFeePerGas: 30n, maxPriorityFeePerGas: 2n },
+      7n,
+      'ipfs://cid'
+    );
+
+    expect(sent[0]).toMatchObject({
+      to: REGISTRIES.identity,
+      data: registry.interface.encodeFunctionData('setAgentUri', [7n, 'ipfs://cid']),
+      nonce: 11,
+      gasLimit: 90000n,
+      maxFeePerGas: 30n,
+      maxPriorityFeePerGas: 2n,
+    });
+  });
+
+  it('should forward value and a legacy gasPrice, leaving the nonce to the queue when unset', async () => {
+    const { client, sent } = recordingClient();
+    const vault = new ethers.Contract(REGISTRIES.identity, ['function deposit(uint256 agentId) payable']);
+
+    await client.transactContract(vault, 'deposit', { value: 5n, gasPrice: 40n, nonce: undefined }, 7n);
+
+    expect(sent[0]).toMatchObject({ value: 5n, gasPrice: 40n, nonce: 3 });
+    expect(sent[0]).not.toHaveProperty('maxFeePerGas');
+  });
+});
+
+describe('Agent.registerIPFS explicit nonces', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  function setup(upload: () => Promise<string>) {
+    const identityRegistry = registryContracts().identity;
+    const registered = identityRegistry.interface.encodeEventLog('Registered', [42n, '', TEST_WALLET]);
+    const transactContract = jest.fn<Promise<string>, [ethers.Contract, string, object, ...unknown[]]>(
+      async (_contract, method) => `0x${method}`
+    );
+    const sendCalls = jest.fn(async () => ({ mode: 'sequential' as const, txHashes: ['0xbatch'] }));
+    const sdk = {
+      chainId: async () => 11155111,
+      getIdentityRegistry: () => identityRegistry,
+      ipfsClient: { addRegistrationFile: jest.fn(upload) },
+      web3Client: {
+        transactContract,
+        waitForTransaction: jest.fn(async () => ({ logs: [registered] })),
+        sendCalls,
+        waitForCalls: jest.fn(async () => []),
+      } as unknown as Web3Client,
+    } as unknown as SDK;
+    const agent = new Agent(sdk, registrationFile({ agentId: undefined, agentURI: undefined }));
+    return { agent, transactContract, sendCalls };
+  }
+
+  it('should send register and setAgentUri with consecutive nonces', async () => {
+    const { agent, transactContract } = setup(async () => 'QmFile');
+
+    await agent.registerIPFS({ nonce: 7, gasLimit: 300000n });
+
+    expect(transactContract.mock.calls.map(([, method, options]) => [method, options])).toEqual([
+      ['register', { nonce: 7, gasLimit: 300000n }],
+      ['setAgentUri', { nonce: 8, gasLimit: 300000n }],
+    ]);
+    expect(agent.getRegistrationFile()).toMatchObject({ agentId: '11155111:42', agentURI: 'ipfs://QmFile' });
+  });
+
+  it('should let a retry after a failed upload continue with the next nonce', async () => {
+    const upload = jest.fn<Promise<string>, []>().mockRejectedValueOnce(new Error('pinning failed'));
+    upload.mockResolvedValue('QmRetry');
+    const { agent, transactContract, sendCalls } = setup(upload);
+
+    await expect(agent.registerIPFS({ nonce: 7 })).rejects.toThrow('pinning failed');
+    expect(transactContract.mock.calls.map(([, method, options]) => [method, options])).toEqual([
+      ['register', { nonce: 7 }],
+    ]);
+
+    // register used nonce 7, so the caller's next nonce is 8
+    await agent.registerIPFS({ nonce: 8 });
+    expect(sendCalls).toHaveBeenCalledWith(
+      [expect.objectContaining({ methodName: 'setAgentUri', args: [42n, 'ipfs://QmRetry'] })],
+      { nonce: 8 }
+    );
+  });
+});
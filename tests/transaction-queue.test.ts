@@ -0,0 +1,146 @@
+/**
+ * Unit tests for the nonce-managed transaction queue.
+ *
+ * These tests run offline against an in-memory signer / provider:
+ * 1. Concurrent sends receiving sequential nonces
+ * 2. Speed-up replacements bumping fees and emitting 'replaced'
+ * 3. Waiting resolving through replacements ('mined') or detecting 'dropped'
+ * 4. Later sends settling and forgetting transactions nobody waited on
+ */
+
+import type { Provider, Signer, TransactionRequest } from 'ethers';
+import { TransactionQueue, type TransactionEvent } from '../src/core/transaction-queue';
+import { TransactionDroppedError } from '../src/core/errors';
+
+const FROM = '0x0000000000000000000000000000000000000a11';
+const TO = '0x0000000000000000000000000000000000008004';
+
+/**
+ * Minimal chain: records broadcasts, mines on demand, reports nonces and fees
+ */
+function fakeChain(startNonce = 5) {
+  const sent: Array<TransactionRequest & { hash: string }> = [];
+  const receipts = new Map<string, { hash: string; blockNumber: number; status: number }>();
+  let minedNonce = startNonce;
+
+  const signer = {
+    getAddress: async () => FROM,
+    sendTransaction: async (request: TransactionRequest) => {
+      // Yield so concurrent callers would interleave without the queue
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      const tx = { ...request, hash: `0x${(sent.length + 1).toString(16).padStart(64, '0')}` };
+      sent.push(tx);
+      return {
+        hash: tx.hash,
+        nonce: Number(request.nonce),
+        to: request.to ?? null,
+        data: request.data ?? '0x',
+        value: BigInt(request.value ?? 0),
+        gasLimit: BigInt(request.gasLimit ?? 100000),
+        gasPrice: null,
+        maxFeePerGas: BigInt(request.maxFeePerGas ?? 100n),
+        maxPriorityFeePerGas: BigInt(request.maxPriorityFeePerGas ?? 10n),
+      };
+    },
+  } as unknown as Signer;
+
+  const provider = {
+    getTransactionCount: async (_address: string, blockTag: string) =>
+      blockTag === 'pending' ? startNonce : minedNonce,
+    getTransactionReceipt: async (hash: string) => receipts.get(hash) ?? null,
+    getFeeData: async () => ({ gasPrice: null, maxFeePerGas: 50n, maxPriorityFeePerGas: 5n }),
+  } as unknown as Provider;
+
+  return {
+    signer,
+    provider,
+    sent,
+    mine(hash?: string) {
+      if (hash) {
+        receipts.set(hash, { hash, blockNumber: 100 + minedNonce, status: 1 });
+      }
+      minedNonce++;
+    },
+  };
+}
+
+describe('TransactionQueue', () => {
+  it('should assign sequential nonces to concurrent sends', async () => {
+    const chain = fakeChain();
+    const queue = new TransactionQueue(chain.signer, chain.provider, 1);
+
+    const responses = await Promise.all([0, 1, 2].map(() => queue.send({ to: TO, data: '0x01' })));
+
+    expect(responses.map((r) => r.nonce)).toEqual([5, 6, 7]);
+    expect(chain.sent.map((tx) => tx.nonce)).toEqual([5, 6, 7]);
+  });
+
+  it('should speed up with bumped fees and follow the replacement when waiting', async () => {
+    const chain = fakeChain();
+    const queue = new TransactionQueue(chain.signer, chain.provider, 1);
+    const events: TransactionEvent[] = [];
+    queue.on('replaced', (e) => events.push(e)).on('mined', (e) => events.push(e));
+
+    const original = await queue.send({ to: TO, data: '0x01', maxFeePerGas: 100n, maxPriorityFeePerGas: 10n });
+    const replacement = await queue.speedUp(original.hash, 20);
+
+    const resent = chain.sent[1];
+    expect(resent.nonce).toBe(5);
+    expect(resent.data).toBe('0x01');
+    expect(resent.maxFeePerGas).toBe(120n);
+    expect(resent.maxPriorityFeePerGas).toBe(12n);
+
+    chain.mine(replacement);
+    const receipt = await queue.wait(original.hash, 1000);
+
+    expect(receipt.hash).toBe(replacement);
+    expect(events.map((e) => e.type)).toEqual(['replaced', 'mined']);
+    expect(events[0]).toMatchObject({ replacedHash: original.hash, originalHash: original.hash, cancelled: false });
+    expect(events[1]).toMatchObject({ hash: replacement, originalHash: original.hash, success: true });
+    expect(queue.has(original.hash)).toBe(false);
+  });
+
+  it('should report a dropped transaction when its nonce is used elsewhere', async () => {
+    const chain = fakeChain();
+    const queue = new TransactionQueue(chain.signer, chain.provider, 1);
+    const dropped = jest.fn();
+    queue.on('dropped', dropped);
+
+    const response = await queue.send({ to: TO, data: '0x01' });
+    chain.mine(); // Nonce consumed by a transaction sent outside the queue
+
+    await expect(queue.wait(response.hash, 1000)).rejects.toBeInstanceOf(TransactionDroppedError);
+    expect(dropped).toHaveBeenCalledWith(expect.objectContaining({ nonce: 5, originalHash: response.hash }));
+  });
+
+  it('should settle transactions nobody waited on when sending the next one', async () => {
+    const chain = fakeChain();
+    const queue = new TransactionQueue(chain.signer, chain.provider, 1);
+    const events: TransactionEvent[] = [];
+    queue.on('mined', (e) => events.push(e)).on('dropped', (e) => events.push(e));
+
+    const mined = await queue.send({ to: TO, data: '0x01' });
+    const dropped = await queue.send({ to: TO, data: '0x02' });
+    chain.mine(mined.hash);
+    chain.mine(); // Nonce 6 consumed outside the queue
+    const pending = await queue.send({ to: TO, data: '0x03' });
+
+    expect(events.map((e) => [e.type, e.nonce])).toEqual([
+      ['mined', 5],
+      ['dropped', 6],
+    ]);
+    expect([queue.has(mined.hash), queue.has(dropped.hash), queue.has(pending.hash)]).toEqual([false, false, true]);
+    expect(queue['transactions'].size).toBe(1);
+  });
+
+  it('should resync the nonce after a failed send', async () => {
+    const chain = fakeChain();
+    const queue = new TransactionQueue(chain.signer, chain.provider, 1);
+    jest.spyOn(chain.signer, 'sendTransaction').mockRejectedValueOnce(new Error('insufficient funds'));
+
+    await expect(queue.send({ to: TO })).rejects.toThrow('insufficient funds');
+    const response = await queue.send({ to: TO });
+
+    expect(response.nonce).toBe(5);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Unit tests for the validation request lifecycle.
+ *
+ * These tests run offline against a stubbed Web3Client and IPFS client:
+ * 1. requestValidation tracking the request with its expiry
+ * 2. getValidationStatus resolving pending / responded / expired from registry events
+ * 3. Registry log filters encoded through the real contract
+ */
+
+import { ethers } from 'ethers';
+import { ValidationManager } from '../src/core/validation-manager';
+import { offlineWeb3Client, registryContracts, stubIpfsClient } from './stubs';
+
+const VALIDATOR = ethers.getAddress(`0x${'b'.repeat(40)}`);
+const REQUEST_FILE = { task: 'audit' };
+const REQUEST_HASH = ethers.id('validation-request');
+
+function eventLog(args: Record<string, unknown>, blockNumber: number, timestamp: number): ethers.EventLog {
+  return { args, blockNumber, getBlock: async () => ({ timestamp }) } as unknown as ethers.EventLog;
+}
+
+function setup() {
+  const web3Client = offlineWeb3Client();
+  const logs: Record<string, ethers.EventLog[]> = { ValidationRequest: [], ValidationResponse: [] };
+  const getEvents = jest
+    .spyOn(web3Client, 'getEvents')
+    .mockImplementation(async (_contract, eventName) => logs[eventName] ?? []);
+  jest.spyOn(web3Client, 'transactContract').mockResolvedValue('0xtx');
+  jest
+    .spyOn(web3Client, 'waitForTransaction')
+    .mockResolvedValue({ blockNumber: 1234 } as unknown as ethers.ContractTransactionReceipt);
+  const { ipfsClient } = stubIpfsClient({}, 'QmRequest');
+  const manager = new ValidationManager(web3Client, ipfsClient, registryContracts().validation);
+  return { manager, logs, getEvents };
+}
+
+const now = () => Math.floor(Date.now() / 1000);
+
+describe('ValidationManager lifecycle', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should report a tracked request as pending until it is logged', async () => {
+    const { manager } = setup();
+
+    const request = await manager.requestValidation('11155111:42', VALIDATOR, REQUEST_FILE, 2);
+    const status = await manager.getValidationStatus(request.requestHash);
+
+    expect(request).toMatchObject({ requestUri: 'ipfs://QmRequest', txHash: '0xtx' });
+    expect(status).toMatchObject({ status: 'pending', agentId: '11155111:42', validatorAddress: VALIDATOR.toLowerCase() });
+    expect(status.expiresAt! - status.requestedAt!).toBe(2 * 3600);
+  });
+
+  it('should expire requests after the expiryHours given to requestValidation', async () => {
+    const { manager, logs } = setup();
+    const requestedAt = now();
+    const request = await manager.requestValidation('11155111:42', VALIDATOR, REQUEST_FILE, 1);
+    logs.ValidationRequest = [
+      eventLog({ agentId: 42n, validatorAddress: VALIDATOR, requestUri: 'ipfs://QmRequest' }, 1234, requestedAt),
+    ];
+
+    jest.spyOn(Date, 'now').mockReturnValue((requestedAt + 2 * 3600) * 1000);
+    const status = await manager.getValidationStatus(request.requestHash);
+
+    expect(status.status).toBe('expired');
+    expect(status.expiresAt).toBeLessThanOrEqual(requestedAt + 3600 + 1);
+  });
+
+  it('should report the latest response', async () => {
+    const { manager, logs } = setup();
+    logs.ValidationRequest = [eventLog({ agentId: 42n, validatorAddress: VALIDATOR, requestUri: '' }, 10, 1000)];
+    logs.ValidationResponse = [
+      eventLog({ response: 40n, tag: ethers.ZeroHash, responseUri: '', responseHash: ethers.ZeroHash }, 11, 1100),
+      eventLog(
+        {
+          response: 90n,
+          tag: ethers.encodeBytes32String('final'),
+          responseUri: 'ipfs://QmResponse',
+          responseHash: REQUEST_HASH,
+        },
+        12,
+        1200
+      ),
+    ];
+
+    const status = await manager.getValidationStatus(REQUEST_HASH);
+
+    expect(status).toMatchObject({
+      status: 'responded',
+      agentId: '11155111:42',
+      response: 90,
+      tag: 'final',
+      responseUri: 'ipfs://QmResponse',
+      respondedAt: 1200,
+    });
+  });
+
+  it('should reject unknown requests', async () => {
+    const { manager } = setup();
+
+    await expect(manager.getValidationStatus(REQUEST_HASH)).rejects.toThrow('not found');
+  });
+});
+
+describe('ValidationManager event filters', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should filter both events on the indexed requestHash topic', async () => {
+    const web3Client = offlineWeb3Client();
+    const registry = registryContracts().validation.connect(web3Client.provider) as ethers.Contract;
+    const getLogs = jest.spyOn(web3Client.provider, 'getLogs').mockResolvedValue([]);
+    const manager = new ValidationManager(web3Client, undefined, registry);
+
+    await expect(manager.getValidationStatus(REQUEST_HASH)).rejects.toThrow('not found');
+
+    const topics = getLogs.mock.calls.map(([filter]) => filter.topics);
+    expect(topics).toEqual([
+      [registry.interface.getEvent('ValidationRequest')!.topicHash, null, null, REQUEST_HASH],
+      [registry.interface.getEvent('ValidationResponse')!.topicHash, null, null, REQUEST_HASH],
+    ]);
+  });
+});
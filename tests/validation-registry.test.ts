@@ -0,0 +1,212 @@
+/**
+ * Unit tests for the Validation Registry write API.
+ *
+ * These tests run offline with a stubbed IPFS client and transaction sender:
+ * 1. requestValidation sending the registry arguments with the file hash as requestHash
+ * 2. respondToValidation hashing optional files and encoding the tag as bytes32
+ * 3. SDK wrappers wiring the default registry and forwarding transaction options
+ * 4. Prepared request / response files naming the resolved chain and identity registry
+ */
+
+import { ethers } from 'ethers';
+import { SDK } from '../src/core/sdk';
+import { ValidationManager } from '../src/core/validation-manager';
+import { computeFileHash } from '../src/utils/canonical-json';
+import {
+  OFFLINE_RPC_URL,
+  REGISTRIES,
+  TEST_CHAIN_ID,
+  TEST_SIGNER_KEY,
+  offlineWeb3Client,
+  registryContracts,
+  stubIpfsClient,
+} from './stubs';
+
+const VALIDATOR = ethers.getAddress(`0x${'b'.repeat(40)}`);
+const REQUEST_HASH = ethers.id('validation-request');
+const TX_HASH = '0x' + 'ab'.repeat(32);
+
+function setup() {
+  const web3Client = offlineWeb3Client(TEST_SIGNER_KEY);
+  const transact = jest.spyOn(web3Client, 'transactContract').mockResolvedValue(TX_HASH);
+  jest.spyOn(web3Client, 'waitForTransaction').mockResolvedValue({} as ethers.ContractTransactionReceipt);
+  const { ipfsClient, uploaded } = stubIpfsClient({}, 'QmFile');
+  const registry = registryContracts().validation;
+  const manager = new ValidationManager(web3Client, ipfsClient, registry);
+  return { manager, registry, ipfsClient, transact, uploaded };
+}
+
+describe('ValidationManager.requestValidation', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should upload the request file and use its hash as requestHash', async () => {
+    const { manager, registry, transact, uploaded } = setup();
+    const requestFile = { task: 'audit', scope: ['contracts'] };
+
+    const request = await manager.requestValidation('11155111:42', VALIDATOR, requestFile);
+
+    expect(uploaded).toEqual([requestFile]);
+    expect(transact).toHaveBeenCalledWith(
+      registry,
+      'validationRequest',
+      {},
+      VALIDATOR,
+      42n,
+      'ipfs://QmFile',
+      computeFileHash(requestFile)
+    );
+    expect(request).toEqual({
+      requestHash: computeFileHash(requestFile),
+      agentId: '11155111:42',
+      validatorAddress: VALIDATOR,
+      requestUri: 'ipfs://QmFile',
+      txHash: TX_HASH,
+    });
+  });
+
+  it('should reject invalid validators before uploading', async () => {
+    const { manager, ipfsClient, transact } = setup();
+
+    await expect(manager.requestValidation('11155111:42', '0x1234', {})).rejects.toThrow('Invalid validator address');
+    expect(ipfsClient.addJson).not.toHaveBeenCalled();
+    expect(transact).not.toHaveBeenCalled();
+  });
+});
+
+describe('ValidationManager.respondToValidation', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should send a zero responseHash and empty URI without a response file', async () => {
+    const { manager, registry, ipfsClient, transact } = setup();
+
+    const response = await manager.respondToValidation(REQUEST_HASH, 85);
+
+    expect(ipfsClient.addJson).not.toHaveBeenCalled();
+    expect(transact).toHaveBeenCalledWith(
+      registry,
+      'validationResponse',
+      {},
+      REQUEST_HASH,
+      85,
+      '',
+      ethers.ZeroHash,
+      ethers.ZeroHash
+    );
+    expect(response).toEqual({
+      requestHash: REQUEST_HASH,
+      response: 85,
+      responseUri: undefined,
+      responseHash: undefined,
+      tag: undefined,
+      txHash: TX_HASH,
+    });
+  });
+
+  it('should hash the response file and encode the tag as bytes32', async () => {
+    const { manager, transact } = setup();
+    const responseFile = { verdict: 'pass', findings: [] };
+
+    const response = await manager.respondToValidation(REQUEST_HASH, 100, responseFile, 'soc2');
+
+    expect(transact).toHaveBeenCalledWith(
+      expect.anything(),
+      'validationResponse',
+      {},
+      REQUEST_HASH,
+      100,
+      'ipfs://QmFile',
+      computeFileHash(responseFile),
+      ethers.encodeBytes32String('soc2')
+    );
+    expect(response).toMatchObject({
+      responseUri: 'ipfs://QmFile',
+      responseHash: computeFileHash(responseFile),
+      tag: 'soc2',
+    });
+  });
+
+  it('should truncate tags longer than 32 bytes', async () => {
+    const { manager, transact } = setup();
+
+    await manager.respondToValidation(REQUEST_HASH, 50, undefined, 'x'.repeat(40));
+
+    const tag = transact.mock.calls[0][7];
+    expect(tag).toBe(ethers.hexlify(ethers.toUtf8Bytes('x'.repeat(32))));
+  });
+
+  it('should reject out-of-range responses and malformed request hashes', async () => {
+    const { manager, transact } = setup();
+
+    await expect(manager.respondToValidation(REQUEST_HASH, 101)).rejects.toThrow('Invalid validation response');
+    await expect(manager.respondToValidation(REQUEST_HASH, 2.5)).rejects.toThrow('Invalid validation response');
+    await expect(manager.respondToValidation('0x1234', 50)).rejects.toThrow('Invalid request hash');
+    expect(transact).not.toHaveBeenCalled();
+  });
+});
+
+describe('SDK validation wrappers', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  function sdkSetup() {
+    const sdk = new SDK({
+      chainId: TEST_CHAIN_ID,
+      rpcUrl: OFFLINE_RPC_URL,
+      signer: TEST_SIGNER_KEY,
+      ipfs: 'node',
+      ipfsNodeUrl: OFFLINE_RPC_URL,
+    });
+    sdk.web3Client.chainId = BigInt(TEST_CHAIN_ID);
+    jest.spyOn(sdk.ipfsClient!, 'addJson').mockResolvedValue('QmFile');
+    const transact = jest.spyOn(sdk.web3Client, 'transactContract').mockResolvedValue(TX_HASH);
+    jest.spyOn(sdk.web3Client, 'waitForTransaction').mockResolvedValue({} as ethers.ContractTransactionReceipt);
+    return { sdk, transact };
+  }
+
+  it('should send requests and responses to the chain validation registry with call options', async () => {
+    const { sdk, transact } = sdkSetup();
+    const options = { gasLimit: 200000n, nonce: 9 };
+
+    await sdk.requestValidation('11155111:42', VALIDATOR, { task: 'audit' }, undefined, options);
+    await sdk.respondToValidation(REQUEST_HASH, 70, undefined, 'tee', options);
+
+    const [[requestRegistry, requestMethod, requestOptions], [responseRegistry, responseMethod, responseOptions]] =
+      transact.mock.calls;
+    expect(requestRegistry.target).toBe(REGISTRIES.validation);
+    expect(responseRegistry.target).toBe(REGISTRIES.validation);
+    expect([requestMethod, responseMethod]).toEqual(['validationRequest', 'validationResponse']);
+    expect(requestOptions).toEqual(options);
+    expect(responseOptions).toEqual(options);
+  });
+
+  it('should resolve the chain and identity registry before preparing files on a fresh SDK', async () => {
+    const sdk = new SDK({ chainId: TEST_CHAIN_ID, rpcUrl: OFFLINE_RPC_URL, signer: TEST_SIGNER_KEY });
+    const initialize = jest.spyOn(sdk.web3Client, 'initialize').mockImplementation(async () => {
+      sdk.web3Client.chainId = BigInt(TEST_CHAIN_ID);
+    });
+
+    const requestFile = await sdk.prepareValidationRequest('11155111:42', VALIDATOR, { task: 'audit' });
+    const responseFile = await sdk.prepareValidationResponse(REQUEST_HASH, 90);
+
+    expect(initialize).toHaveBeenCalledTimes(1);
+    expect(requestFile).toMatchObject({
+      agentRegistry: `eip155:${TEST_CHAIN_ID}:${REGISTRIES.identity}`,
+      agentId: 42,
+      validatorAddress: `eip155:${TEST_CHAIN_ID}:${VALIDATOR}`,
+      task: 'audit',
+    });
+    expect(responseFile).toMatchObject({
+      requestHash: REQUEST_HASH,
+      validatorAddress: expect.stringMatching(/^eip155:11155111:0x/),
+    });
+  });
+
+  it('should refuse to prepare files for an unresolved chain', () => {
+    const web3Client = offlineWeb3Client(TEST_SIGNER_KEY);
+    web3Client.chainId = 0n;
+    const manager = new ValidationManager(web3Client, undefined, registryContracts().validation);
+
+    expect(() => manager.prepareValidationResponse(REQUEST_HASH, 90)).toThrow('Chain ID not resolved');
+    web3Client.chainId = BigInt(TEST_CHAIN_ID);
+    expect(() => manager.prepareValidationRequest('11155111:42', VALIDATOR)).toThrow('Identity registry');
+  });
+});
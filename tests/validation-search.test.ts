@@ -0,0 +1,245 @@
+/**
+ * Unit tests for validation search through the subgraph.
+ *
+ * These tests run offline against stubbed subgraph queries:
+ * 1. SubgraphClient.searchValidations pushing filters into the validations query and mapping entities
+ * 2. AgentIndexer merging validations across chains newest first, with a per-chain cursor and SearchResultMeta
+ * 3. searchValidatedAgents keeping agents whose trust claims have a validator response
+ */
+
+import { SubgraphClient, type QueryValidation } from '../src/core/subgraph-client';
+import { AgentIndexer } from '../src/core/indexer';
+import { TrustModel } from '../src/models/enums';
+import type { AgentSummary, SearchValidationsParams, ValidationStatus } from '../src/models/interfaces';
+import { offlineWeb3Client } from './stubs';
+
+const VALIDATOR = '0x00000000000000000000000000000000000000Aa';
+
+function entity(agentId: string, createdAt: number, overrides: Partial<QueryValidation> = {}): QueryValidation {
+  return {
+    id: `0x${createdAt.toString(16).padStart(64, '0')}`,
+    agent: { id: agentId },
+    validatorAddress: VALIDATOR.toLowerCase(),
+    requestUri: 'ipfs://QmRequest',
+    requestHash: `0x${createdAt.toString(16).padStart(64, '0')}`,
+    response: null,
+    responseUri: null,
+    responseHash: null,
+    tag: null,
+    status: 'PENDING',
+    createdAt: String(createdAt),
+    updatedAt: null,
+    ...overrides,
+  };
+}
+
+function status(agentId: string, requestedAt: number): ValidationStatus {
+  return { requestHash: `0x${requestedAt.toString(16).padStart(64, '0')}`, status: 'responded', agentId, requestedAt };
+}
+
+function agent(agentId: string, supportedTrusts: string[]): AgentSummary {
+  return { agentId, chainId: Number(agentId.split(':')[0]), name: agentId, supportedTrusts, extras: {} } as AgentSummary;
+}
+
+// Serves validations per chain by the agents each chain is asked for, like one subgraph per chain
+function stubChains(rows: ValidationStatus[], failing: string[] = []) {
+  return jest
+    .spyOn(SubgraphClient.prototype, 'searchValidations')
+    .mockImplementation(async (params: SearchValidationsParams, first = 100, skip = 0) => {
+      if (params.agents?.some((agentId) => failing.includes(agentId))) {
+        throw new Error('subgraph indexing error');
+      }
+      return rows.filter((row) => !params.agents || params.agents.includes(row.agentId!)).slice(skip, skip + first);
+    });
+}
+
+const SUBGRAPHS = { 11155111: 'http://sepolia.subgraph.test', 84532: 'http://base.subgraph.test' };
+
+describe('SubgraphClient.searchValidations', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should push every filter into the validations query', async () => {
+    const client = new SubgraphClient('http://subgraph.test');
+    const query = jest.spyOn(client, 'query').mockResolvedValue({ validations: [] });
+
+    await client.searchValidations(
+      {
+        agents: ['11155111:1', '11155111:2'],
+        validators: [VALIDATOR],
+        tags: ['soc2', 'tee'],
+        minResponse: 80,
+        status: ['responded', 'expired'],
+      },
+      25,
+      50
+    );
+
+    const text = query.mock.calls[0][0].replace(/\s+/g, ' ');
+    expect(text).toContain('validations(');
+    expect(text).toContain('agent_in: ["11155111:1", "11155111:2"]');
+    expect(text).toContain(`validatorAddress_in: ["${VALIDATOR.toLowerCase()}"]`);
+    expect(text).toContain('tag_in: ["soc2", "tee"]');
+    expect(text).toContain('response_gte: 80');
+    expect(text).toContain('status_in: [COMPLETED, EXPIRED]');
+    expect(text).toContain('first: 25 skip: 50 orderBy: createdAt orderDirection: desc');
+    for (const field of ['agent { id }', 'requestUri', 'requestHash', 'responseUri', 'responseHash', 'tag', 'status']) {
+      expect(text).toContain(field);
+    }
+  });
+
+  it('should leave out filters that are not set and map each status', async () => {
+    const client = new SubgraphClient('http://subgraph.test');
+    const completed = entity('11155111:1', 300, {
+      status: 'COMPLETED',
+      response: 95,
+      responseUri: 'ipfs://QmResponse',
+      tag: 'soc2',
+      updatedAt: '360',
+    });
+    const query = jest.spyOn(client, 'query').mockResolvedValue({
+      validations: [completed, entity('11155111:1', 200), entity('11155111:2', 100, { status: 'EXPIRED', response: 0 })],
+    });
+
+    const [responded, pending, expired] = await client.searchValidations({ status: 'pending' });
+
+    expect(query.mock.calls[0][0]).not.toContain('agent_in');
+    expect(query.mock.calls[0][0]).toContain('status_in: [PENDING]');
+    expect(responded).toEqual({
+      requestHash: completed.requestHash,
+      status: 'responded',
+      agentId: '11155111:1',
+      validatorAddress: VALIDATOR.toLowerCase(),
+      requestUri: 'ipfs://QmRequest',
+      requestedAt: 300,
+      response: 95,
+      tag: 'soc2',
+      responseUri: 'ipfs://QmResponse',
+      responseHash: undefined,
+      respondedAt: 360,
+    });
+    expect(pending).toMatchObject({ status: 'pending', requestedAt: 200, response: undefined });
+    expect(expired).toMatchObject({ status: 'expired', response: undefined, respondedAt: undefined });
+  });
+});
+
+describe('AgentIndexer.searchValidations across chains', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  const rows = [status('11155111:1', 500), status('11155111:1', 300), status('84532:9', 400), status('84532:9', 100)];
+
+  it('should send each chain its own agents and merge newest first', async () => {
+    const search = stubChains(rows);
+    const indexer = new AgentIndexer(offlineWeb3Client(), undefined, SUBGRAPHS);
+
+    const page = await indexer.searchValidations({ agents: ['11155111:1', '84532:9'] }, 3, undefined, 11155111);
+
+    expect(search.mock.calls.map(([params]) => params.agents)).toEqual([['11155111:1'], ['84532:9']]);
+    expect(page.items.map((item) => `${item.agentId}/${item.requestedAt}`)).toEqual([
+      '11155111:1/500',
+      '84532:9/400',
+      '11155111:1/300',
+    ]);
+    expect(page.meta).toMatchObject({
+      chains: [11155111, 84532],
+      successfulChains: [11155111, 84532],
+      failedChains: [],
+      totalResults: 4,
+    });
+
+    const next = await indexer.searchValidations({ agents: ['11155111:1', '84532:9'] }, 3, page.nextCursor, 11155111);
+    expect(next.items.map((item) => item.requestedAt)).toEqual([100]);
+    expect(next.nextCursor).toBeUndefined();
+
+    // Each chain is asked for one page from its own position; the exhausted chain is not asked again
+    expect(search.mock.calls.map(([params, first, skip]) => [params.agents, first, skip])).toEqual([
+      [['11155111:1'], 3, 0],
+      [['84532:9'], 3, 0],
+      [['84532:9'], 3, 1],
+    ]);
+  });
+
+  it('should look up unprefixed agent IDs on every queried chain and clear the chain timeouts', async () => {
+    jest.useFakeTimers();
+    try {
+      const search = stubChains(rows);
+      const indexer = new AgentIndexer(offlineWeb3Client(), undefined, SUBGRAPHS);
+
+      const page = await indexer.searchValidations({ chains: [11155111, 84532], agents: ['9'] });
+
+      expect(search.mock.calls.map(([params]) => params.agents)).toEqual([['11155111:9'], ['84532:9']]);
+      expect(page.items.map((item) => item.agentId)).toEqual(['84532:9', '84532:9']);
+      expect(jest.getTimerCount()).toBe(0);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should report a failing chain without hiding the others', async () => {
+    stubChains(rows, ['84532:9']);
+    const indexer = new AgentIndexer(offlineWeb3Client(), undefined, SUBGRAPHS);
+
+    const page = await indexer.searchValidations({ chains: [11155111, 84532], agents: ['11155111:1', '84532:9'] });
+
+    expect(page.items.map((item) => item.agentId)).toEqual(['11155111:1', '11155111:1']);
+    expect(page.meta).toMatchObject({ successfulChains: [11155111], failedChains: [84532] });
+  });
+});
+
+describe('AgentIndexer.searchValidatedAgents', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should keep agents whose trust claims have a validator response', async () => {
+    const indexer = new AgentIndexer(offlineWeb3Client(), new SubgraphClient('http://subgraph.test'));
+    jest.spyOn(indexer, 'searchAgents').mockResolvedValue({
+      items: [
+        agent('11155111:1', [TrustModel.CRYPTO_ECONOMIC]),
+        agent('11155111:2', [TrustModel.TEE_ATTESTATION]),
+        agent('11155111:3', [TrustModel.REPUTATION]),
+      ],
+      nextCursor: '3',
+    });
+    const search = stubChains([
+      { ...status('11155111:1', 200), validatorAddress: VALIDATOR },
+      { ...status('11155111:1', 100), validatorAddress: VALIDATOR },
+    ]);
+
+    const page = await indexer.searchValidatedAgents({ active: true }, { minResponse: 80 }, 3, undefined, [], 11155111);
+
+    expect(search.mock.calls[0][0]).toEqual({
+      minResponse: 80,
+      agents: ['11155111:1', '11155111:2'],
+      status: 'responded',
+    });
+    expect(page.items.map((item) => item.agentId)).toEqual(['11155111:1']);
+    expect(page.items[0].extras.validatedBy).toEqual([VALIDATOR]);
+    expect(page.nextCursor).toBe('3');
+  });
+
+  it('should only ask later rounds for agents the first full page did not cover', async () => {
+    const indexer = new AgentIndexer(offlineWeb3Client(), new SubgraphClient('http://subgraph.test'));
+    jest.spyOn(indexer, 'searchAgents').mockResolvedValue({
+      items: [agent('11155111:1', [TrustModel.TEE_ATTESTATION]), agent('11155111:2', [TrustModel.TEE_ATTESTATION])],
+    });
+    const busy = Array.from({ length: 1200 }, (_, i) => ({ ...status('11155111:1', 10_000 - i), validatorAddress: VALIDATOR }));
+    const search = stubChains([...busy, { ...status('11155111:2', 1), validatorAddress: VALIDATOR }]);
+
+    const page = await indexer.searchValidatedAgents({}, {}, 50, undefined, [], 11155111);
+
+    expect(search.mock.calls.map(([params, first]) => [params.agents, first])).toEqual([
+      [['11155111:1', '11155111:2'], 1000],
+      [['11155111:2'], 1000],
+    ]);
+    expect(page.items.map((item) => item.agentId)).toEqual(['11155111:1', '11155111:2']);
+  });
+
+  it('should skip the validation query when no agent on the page makes a matching claim', async () => {
+    const indexer = new AgentIndexer(offlineWeb3Client(), new SubgraphClient('http://subgraph.test'));
+    jest.spyOn(indexer, 'searchAgents').mockResolvedValue({ items: [agent('11155111:1', [TrustModel.REPUTATION])] });
+    const search = stubChains([]);
+
+    const page = await indexer.searchValidatedAgents({}, { trustModels: [TrustModel.TEE_ATTESTATION] });
+
+    expect(page.items).toEqual([]);
+    expect(search).not.toHaveBeenCalled();
+  });
+});